@@ -0,0 +1,81 @@
+"use client";
+
+import React from "react";
+import { useState } from "react";
+import Link from "next/link";
+import { useSupabaseSession } from "../../lib/supabase/browser";
+import CafesAdmin from "../components/admin/CafesAdmin";
+import CacheAdmin from "../components/admin/CacheAdmin";
+import RateLimitsAdmin from "../components/admin/RateLimitsAdmin";
+import CheckinsAdmin from "../components/admin/CheckinsAdmin";
+import ReviewsAdmin from "../components/admin/ReviewsAdmin";
+import AuditLog from "../components/admin/AuditLog";
+
+const TABS = [
+  { id: "cafes", label: "Cafés", Panel: CafesAdmin },
+  { id: "reviews", label: "Reviews", Panel: ReviewsAdmin },
+  { id: "checkins", label: "Check-ins", Panel: CheckinsAdmin },
+  { id: "cache", label: "Places cache", Panel: CacheAdmin },
+  { id: "rate-limits", label: "Rate limits", Panel: RateLimitsAdmin },
+  { id: "audit", label: "Audit log", Panel: AuditLog },
+] as const;
+
+// Operator tools. The page itself is public; every API behind it checks for
+// an admin (lib/admin.ts), so a non-admin just sees "Admins only" errors.
+export default function AdminPage() {
+  const { session, ready } = useSupabaseSession();
+  const [tab, setTab] = useState<(typeof TABS)[number]["id"]>("cafes");
+  const { Panel } = TABS.find((t) => t.id === tab)!;
+
+  return (
+    <main style={{ minHeight: "100vh", padding: "40px 16px" }}>
+      <div style={{ maxWidth: 1040, margin: "0 auto" }}>
+        <Link href="/" style={{ fontSize: 13, color: "rgba(0,0,0,0.7)" }}>
+          ← Find quiet cafés
+        </Link>
+        <h1 style={{ fontSize: 24, margin: "14px 0 0", letterSpacing: -0.3 }}>Admin</h1>
+
+        {!ready ? (
+          <div style={{ marginTop: 14, opacity: 0.7 }}>Loading…</div>
+        ) : !session ? (
+          <div style={{ marginTop: 14, opacity: 0.7 }}>Sign in on the main page with an admin account first.</div>
+        ) : (
+          <>
+            <nav style={{ marginTop: 14, display: "flex", gap: 6, flexWrap: "wrap" }}>
+              {TABS.map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => setTab(t.id)}
+                  style={{
+                    padding: "6px 12px",
+                    borderRadius: 999,
+                    border: "1px solid rgba(0,0,0,0.15)",
+                    background: t.id === tab ? "black" : "white",
+                    color: t.id === tab ? "white" : "black",
+                    cursor: "pointer",
+                    fontSize: 13,
+                  }}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </nav>
+
+            <section
+              style={{
+                marginTop: 14,
+                padding: 14,
+                borderRadius: 16,
+                border: "1px solid rgba(0,0,0,0.10)",
+                background: "rgba(255,255,255,0.8)",
+              }}
+            >
+              <Panel session={session} />
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { adminPage, requireAdmin } from "../../../../lib/admin";
+import {
+  adminAuditQuerySchema,
+  parseRequest,
+  type AdminAuditResponse,
+  type AuditEntry,
+} from "../../../../lib/api/contracts";
+
+// The audit log, newest first. ?action=cafe.merge, ?targetType=cafe&targetId=...
+async function listAudit(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(adminAuditQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { action, targetType, targetId } = parsed.data;
+  const { offset, to } = adminPage(parsed.data);
+
+  let query = supabaseAdmin()
+    .from("admin_audit_log")
+    .select("id, admin_id, admin_email, action, target_type, target_id, details, created_at")
+    .order("created_at", { ascending: false })
+    .range(offset, to);
+  if (action) query = query.eq("action", action);
+  if (targetType) query = query.eq("target_type", targetType);
+  if (targetId) query = query.eq("target_id", targetId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return NextResponse.json<AdminAuditResponse>({
+    entries: (data ?? []).map((e) => ({ ...e, details: e.details as AuditEntry["details"] })),
+  });
+}
+
+export const GET = apiRoute("GET /api/admin/audit", listAudit);
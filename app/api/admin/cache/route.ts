@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin, type TypedSupabaseClient } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { adminPage, recordAudit, requireAdmin } from "../../../../lib/admin";
+import { CACHE_ENTRY_COLUMNS, findCacheEntriesInArea } from "../../../../lib/places/cache";
+import {
+  adminCacheQuerySchema,
+  parseRequest,
+  type AdminCacheEntry,
+  type AdminCacheResponse,
+  type PurgeCacheResponse,
+} from "../../../../lib/api/contracts";
+
+// Area purges can cover a city, not more
+const MAX_AREA_RADIUS_M = 50_000;
+
+type CacheQuery = {
+  key: string | null;
+  area: { lat: number; lng: number; radiusM: number } | null;
+};
+
+function parseCacheQuery(req: NextRequest) {
+  const parsed = parseRequest(adminCacheQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) return parsed;
+
+  const { key, lat, lng, radius } = parsed.data;
+  const query: CacheQuery = {
+    key,
+    area:
+      lat != null && lng != null && radius != null
+        ? { lat, lng, radiusM: Math.max(1, Math.min(MAX_AREA_RADIUS_M, radius)) }
+        : null,
+  };
+  return { ok: true as const, data: { ...parsed.data, ...query } };
+}
+
+type CacheRow = {
+  cache_key: string;
+  lat_center: number;
+  lng_center: number;
+  radius_m: number;
+  place_ids: string[];
+  fetched_at: string;
+  expires_at: string;
+};
+
+async function findEntries(
+  supabase: TypedSupabaseClient,
+  q: CacheQuery,
+  page: { offset: number; to: number }
+): Promise<CacheRow[]> {
+  if (q.area) return findCacheEntriesInArea(supabase, q.area);
+
+  let query = supabase
+    .from("places_cache")
+    .select(CACHE_ENTRY_COLUMNS)
+    .order("fetched_at", { ascending: false })
+    .range(page.offset, page.to);
+  if (q.key) query = query.eq("cache_key", q.key);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
+
+function toEntry(row: CacheRow, now: Date): AdminCacheEntry {
+  const { place_ids, ...rest } = row;
+  return { ...rest, place_count: place_ids.length, expired: new Date(row.expires_at) <= now };
+}
+
+// ?key= for one entry, ?lat=&lng=&radius= for an area, neither for the
+// newest entries
+async function listEntries(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseCacheQuery(req);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const rows = await findEntries(supabaseAdmin(), parsed.data, adminPage(parsed.data));
+  const now = new Date();
+
+  return NextResponse.json<AdminCacheResponse>({ entries: rows.map((r) => toEntry(r, now)) });
+}
+
+// Purges one key or a whole area; the next search there goes upstream again
+async function purgeEntries(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseCacheQuery(req);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+  if (!parsed.data.key && !parsed.data.area) {
+    return apiError(400, "invalid_request", "Send key, or lat, lng and radius");
+  }
+
+  const supabase = supabaseAdmin();
+  const keys = (await findEntries(supabase, parsed.data, { offset: 0, to: 9999 })).map(
+    (r) => r.cache_key
+  );
+
+  if (keys.length) {
+    const { error } = await supabase.from("places_cache").delete().in("cache_key", keys);
+    if (error) throw error;
+
+    await recordAudit(
+      supabase,
+      admin.user,
+      "cache.purge",
+      { type: "cache", id: parsed.data.key },
+      { keys, area: parsed.data.area }
+    );
+  }
+
+  return NextResponse.json<PurgeCacheResponse>({ purged: keys.length, keys });
+}
+
+export const GET = apiRoute("GET /api/admin/cache", listEntries);
+export const DELETE = apiRoute("DELETE /api/admin/cache", purgeEntries);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../../lib/api/route";
+import { apiError } from "../../../../../../lib/api/errors";
+import { recordAudit, requireAdmin } from "../../../../../../lib/admin";
+import { isUuid } from "../../../../../../lib/ids";
+import { loadAdminCafe } from "../../../../../../lib/cafes/admin";
+import {
+  mergeCafeRequestSchema,
+  parseRequest,
+  type AdminCafeResponse,
+} from "../../../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Folds duplicateId into [id]: check-ins, votes, reviews and list entries
+// move over, the duplicate is deleted and its place id becomes an alias
+// (see merge_cafes).
+async function mergeCafe(req: NextRequest, { params }: Params) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(mergeCafeRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const { duplicateId } = parsed.data;
+  if (id === duplicateId) {
+    return apiError(400, "invalid_request", "Can't merge a café into itself");
+  }
+
+  const supabase = supabaseAdmin();
+  const [keep, duplicate] = await Promise.all([
+    isUuid(id) ? loadAdminCafe(supabase, id) : null,
+    loadAdminCafe(supabase, duplicateId),
+  ]);
+  if (!keep) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+  if (!duplicate) {
+    return apiError(404, "not_found", "Duplicate cafe not found");
+  }
+
+  const { error } = await supabase.rpc("merge_cafes", { p_keep: id, p_duplicate: duplicateId });
+  if (error) throw error;
+
+  // Enough to tell what was lost if the merge was a mistake
+  await recordAudit(supabase, admin.user, "cafe.merge", { type: "cafe", id }, {
+    duplicateId,
+    duplicatePlaceId: duplicate.cafe.place_id,
+    duplicateName: duplicate.cafe.name,
+    duplicateAddress: duplicate.cafe.address,
+    moved: duplicate.counts,
+  });
+
+  return NextResponse.json<AdminCafeResponse>((await loadAdminCafe(supabase, id))!);
+}
+
+export const POST = apiRoute("POST /api/admin/cafes/[id]/merge", mergeCafe);
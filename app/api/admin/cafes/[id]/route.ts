@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { recordAudit, requireAdmin } from "../../../../../lib/admin";
+import { isUuid } from "../../../../../lib/ids";
+import { loadAdminCafe } from "../../../../../lib/cafes/admin";
+import {
+  parseRequest,
+  updateCafeRequestSchema,
+  type AdminCafeResponse,
+} from "../../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+async function getCafe(req: NextRequest, { params }: Params) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const { id } = await params;
+  const found = isUuid(id) ? await loadAdminCafe(supabaseAdmin(), id) : null;
+  if (!found) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  return NextResponse.json<AdminCafeResponse>(found);
+}
+
+// Fixes bad Places data. The café is locked afterwards (unless the edit says
+// otherwise) so the next refresh doesn't put the bad data back.
+async function updateCafe(req: NextRequest, { params }: Params) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(updateCafeRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+  const before = isUuid(id) ? await loadAdminCafe(supabase, id) : null;
+  if (!before) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  const { locked, ...fields } = parsed.data;
+  const changes = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as Omit<typeof parsed.data, "locked">;
+
+  const { error } = await supabase
+    .from("cafes")
+    .update({
+      ...changes,
+      locked: locked ?? true,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+  if (error) throw error;
+
+  // Old and new values of whatever changed
+  const diff = Object.fromEntries(
+    Object.entries({ ...changes, locked: locked ?? true })
+      .filter(([key, value]) => before.cafe[key as keyof typeof before.cafe] !== value)
+      .map(([key, value]) => [key, { from: before.cafe[key as keyof typeof before.cafe], to: value }])
+  );
+  await recordAudit(supabase, admin.user, "cafe.update", { type: "cafe", id }, diff);
+
+  return NextResponse.json<AdminCafeResponse>((await loadAdminCafe(supabase, id))!);
+}
+
+export const GET = apiRoute("GET /api/admin/cafes/[id]", getCafe);
+export const PATCH = apiRoute("PATCH /api/admin/cafes/[id]", updateCafe);
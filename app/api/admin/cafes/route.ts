@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { adminPage, requireAdmin } from "../../../../lib/admin";
+import { isUuid } from "../../../../lib/ids";
+import { ADMIN_CAFE_COLUMNS, searchPattern } from "../../../../lib/cafes/admin";
+import {
+  adminCafesQuerySchema,
+  parseRequest,
+  type AdminCafesResponse,
+} from "../../../../lib/api/contracts";
+
+// Browse cafés by name (or look one up by id / place id), newest first
+async function listCafes(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(adminCafesQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { q } = parsed.data;
+  const { offset, to } = adminPage(parsed.data);
+
+  let query = supabaseAdmin()
+    .from("cafes")
+    .select(ADMIN_CAFE_COLUMNS, { count: "exact" })
+    .order("created_at", { ascending: false })
+    .order("id")
+    .range(offset, to);
+
+  if (q && isUuid(q)) query = query.eq("id", q);
+  else if (q?.startsWith("ChIJ")) query = query.eq("place_id", q);
+  else if (q) query = query.ilike("name", searchPattern(q));
+
+  const { data, count, error } = await query;
+  if (error) throw error;
+
+  return NextResponse.json<AdminCafesResponse>({ cafes: data ?? [], total: count ?? 0 });
+}
+
+export const GET = apiRoute("GET /api/admin/cafes", listCafes);
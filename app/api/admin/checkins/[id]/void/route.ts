@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin, type TypedSupabaseClient } from "../../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../../lib/api/route";
+import { apiError } from "../../../../../../lib/api/errors";
+import { recordAudit, requireAdmin } from "../../../../../../lib/admin";
+import { isUuid } from "../../../../../../lib/ids";
+import { ADMIN_CHECKIN_COLUMNS } from "../../../../../../lib/cafes/admin";
+import {
+  parseRequest,
+  voidCheckinRequestSchema,
+  type AdminCheckinResponse,
+} from "../../../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+async function loadCheckin(supabase: TypedSupabaseClient, id: string) {
+  if (!isUuid(id)) return null;
+  const { data, error } = await supabase
+    .from("checkins")
+    .select(ADMIN_CHECKIN_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// A voided check-in stays on record but stops counting towards quiet scores,
+// busy hours and histograms. Any workability vote sent with it is dropped.
+// Voiding twice is a no-op.
+async function voidCheckin(req: NextRequest, { params }: Params) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(voidCheckinRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+  const checkIn = await loadCheckin(supabase, id);
+  if (!checkIn) {
+    return apiError(404, "not_found", "Check-in not found");
+  }
+  if (checkIn.voided_at) {
+    return NextResponse.json<AdminCheckinResponse>({ checkIn });
+  }
+
+  const { error } = await supabase
+    .from("checkins")
+    .update({
+      voided_at: new Date().toISOString(),
+      voided_by: admin.user.id,
+      void_reason: parsed.data.reason,
+    })
+    .eq("id", id);
+  if (error) throw error;
+
+  const { error: votesErr } = await supabase.from("cafe_attribute_votes").delete().eq("checkin_id", id);
+  if (votesErr) throw votesErr;
+
+  await recordAudit(supabase, admin.user, "checkin.void", { type: "checkin", id }, {
+    cafeId: checkIn.cafe_id,
+    userId: checkIn.user_id,
+    reason: parsed.data.reason,
+  });
+
+  return NextResponse.json<AdminCheckinResponse>({ checkIn: (await loadCheckin(supabase, id))! });
+}
+
+export const POST = apiRoute("POST /api/admin/checkins/[id]/void", voidCheckin);
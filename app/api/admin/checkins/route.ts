@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { adminPage, requireAdmin } from "../../../../lib/admin";
+import { ADMIN_CHECKIN_COLUMNS } from "../../../../lib/cafes/admin";
+import {
+  adminCheckinsQuerySchema,
+  parseRequest,
+  type AdminCheckinsResponse,
+} from "../../../../lib/api/contracts";
+
+// Recent check-ins, voided ones included, optionally for one café or user
+async function listCheckins(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(adminCheckinsQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { cafeId, userId } = parsed.data;
+  const { offset, to } = adminPage(parsed.data);
+
+  let query = supabaseAdmin()
+    .from("checkins")
+    .select(ADMIN_CHECKIN_COLUMNS)
+    .order("created_at", { ascending: false })
+    .range(offset, to);
+  if (cafeId) query = query.eq("cafe_id", cafeId);
+  if (userId) query = query.eq("user_id", userId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return NextResponse.json<AdminCheckinsResponse>({ checkins: data ?? [] });
+}
+
+export const GET = apiRoute("GET /api/admin/checkins", listCheckins);
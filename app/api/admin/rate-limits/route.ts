@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { adminPage, requireAdmin } from "../../../../lib/admin";
+import {
+  getRateLimitBackend,
+  hashRateLimitKey,
+  summarizeRateLimitHits,
+} from "../../../../lib/rateLimit";
+import {
+  adminRateLimitsQuerySchema,
+  parseRequest,
+  type AdminRateLimitsResponse,
+} from "../../../../lib/api/contracts";
+
+// Who's hitting what, and who's been limited. Defaults to the last 24 hours.
+async function listRateLimits(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(adminRateLimitsQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { route, ip, ipHash, hours } = parsed.data;
+  const since = new Date(Date.now() - Math.max(1, Math.min(24 * 7, hours ?? 24)) * 3_600_000);
+  const backend = getRateLimitBackend().name;
+
+  const usage =
+    backend === "supabase"
+      ? await summarizeRateLimitHits(supabaseAdmin(), {
+          since,
+          route,
+          ipHash: ip ? hashRateLimitKey(ip) : ipHash,
+          limit: adminPage({ limit: parsed.data.limit, offset: null }, 100).limit,
+        })
+      : [];
+
+  return NextResponse.json<AdminRateLimitsResponse>({
+    backend,
+    since: since.toISOString(),
+    usage,
+  });
+}
+
+export const GET = apiRoute("GET /api/admin/rate-limits", listRateLimits);
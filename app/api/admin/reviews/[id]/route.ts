@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin, type TypedSupabaseClient } from "../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { recordAudit, requireAdmin } from "../../../../../lib/admin";
+import { isUuid } from "../../../../../lib/ids";
+import { log } from "../../../../../lib/log";
+import { reviewsModerated } from "../../../../../lib/metrics";
+import { loadAdminReviews } from "../../../../../lib/reviews/reviews";
+import {
+  moderateReviewRequestSchema,
+  parseRequest,
+  type AdminReviewResponse,
+} from "../../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+async function loadReview(supabase: TypedSupabaseClient, id: string) {
+  if (!isUuid(id)) return null;
+  return (await loadAdminReviews(supabase, { id }))[0] ?? null;
+}
+
+// Approve or hide. Approving clears the reports that queued it, so it takes
+// a fresh set of reports to pull it again.
+async function moderateReview(req: NextRequest, { params }: Params) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(moderateReviewRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+  const before = await loadReview(supabase, id);
+  if (!before) {
+    return apiError(404, "not_found", "Review not found");
+  }
+
+  const { status } = parsed.data;
+  if (status === "approved") {
+    const { error } = await supabase.from("cafe_review_reports").delete().eq("review_id", id);
+    if (error) throw error;
+  }
+
+  const { error } = await supabase
+    .from("cafe_reviews")
+    .update({
+      status,
+      moderation_reason: status === "hidden" ? "moderator" : null,
+      report_count: status === "approved" ? 0 : undefined,
+      moderated_at: new Date().toISOString(),
+      moderated_by: admin.user.id,
+    })
+    .eq("id", id);
+  if (error) throw error;
+
+  reviewsModerated.inc({ action: status });
+  log.info("review.moderated", { reviewId: id, status, adminId: admin.user.id });
+  await recordAudit(
+    supabase,
+    admin.user,
+    status === "approved" ? "review.approve" : "review.hide",
+    { type: "review", id },
+    { cafeId: before.cafe_id, from: before.status, reportCount: before.report_count }
+  );
+
+  return NextResponse.json<AdminReviewResponse>({ review: (await loadReview(supabase, id))! });
+}
+
+async function deleteReview(req: NextRequest, { params }: Params) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+  const review = await loadReview(supabase, id);
+  if (!review) {
+    return apiError(404, "not_found", "Review not found");
+  }
+
+  // Reports go with it (on delete cascade)
+  const { error } = await supabase.from("cafe_reviews").delete().eq("id", id);
+  if (error) throw error;
+
+  reviewsModerated.inc({ action: "deleted" });
+  log.info("review.moderated", { reviewId: id, status: "deleted", adminId: admin.user.id });
+  // Keep the text: the audit log is the only copy left
+  await recordAudit(supabase, admin.user, "review.delete", { type: "review", id }, {
+    cafeId: review.cafe_id,
+    userId: review.user_id,
+    body: review.body,
+    rating: review.rating,
+  });
+
+  return NextResponse.json({ success: true });
+}
+
+export const PATCH = apiRoute("PATCH /api/admin/reviews/[id]", moderateReview);
+export const DELETE = apiRoute("DELETE /api/admin/reviews/[id]", deleteReview);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { requireAdmin } from "../../../../lib/admin";
+import { loadAdminReviews } from "../../../../lib/reviews/reviews";
+import {
+  adminReviewsQuerySchema,
+  parseRequest,
+  type AdminReviewsResponse,
+} from "../../../../lib/api/contracts";
+
+// The moderation queue (?status=pending, the default), oldest first. Other
+// statuses list newest first.
+async function listReviews(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin.ok) return admin.response;
+
+  const parsed = parseRequest(adminReviewsQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { status, limit } = parsed.data;
+  const reviews = await loadAdminReviews(supabaseAdmin(), {
+    status,
+    limit: Math.max(1, Math.min(200, Math.floor(limit ?? 50))),
+  });
+
+  return NextResponse.json<AdminReviewsResponse>({ reviews });
+}
+
+export const GET = apiRoute("GET /api/admin/reviews", listReviews);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../../../lib/supabase/server";
+import { getCafeAttributes, recordAttributeVote } from "../../../../../lib/attributes";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { isUuid } from "../../../../../lib/ids";
+import { log } from "../../../../../lib/log";
+import {
+  attributeVoteRequestSchema,
+  parseRequest,
+  type AttributeVoteResponse,
+} from "../../../../../lib/api/contracts";
+
+// A workability vote without checking in (e.g. after you've left). Only each
+// user's latest vote per attribute counts, so voting again just updates it.
+async function voteAttributes(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to rate this café");
+  }
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return apiError(400, "invalid_request", "Invalid JSON body");
+  }
+
+  const parsed = parseRequest(attributeVoteRequestSchema, body);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  if (!isUuid(id)) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+  const supabase = supabaseAdmin();
+
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  await recordAttributeVote(supabase, { ...parsed.data, cafeId: id, userId: user.id, checkinId: null });
+  log.info("attributes.voted", { cafeId: id, withCheckin: false });
+
+  const attributes = await getCafeAttributes(supabase, [id]);
+  return NextResponse.json<AttributeVoteResponse>(
+    { success: true, attributes: attributes.get(id)! },
+    { status: 201 }
+  );
+}
+
+export const POST = apiRoute("POST /api/cafes/[id]/attributes", voteAttributes);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../../lib/supabase/server";
+import {
+  loadProfileCheckins,
+  PROFILE_DAYS,
+  weeklyProfile,
+} from "../../../../../lib/cafes/activity";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { isUuid } from "../../../../../lib/ids";
+import type { BusyHoursResponse } from "../../../../../lib/api/contracts";
+
+// 7×24 weekday/hour profile of check-ins in the café's local time
+async function getBusyHours(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isUuid(id)) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+  const supabase = supabaseAdmin();
+
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("id, utc_offset_minutes")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  const checkins = await loadProfileCheckins(supabase, [id]);
+  const utcOffsetMinutes = cafe.utc_offset_minutes ?? null;
+
+  return NextResponse.json<BusyHoursResponse>({
+    cafeId: id,
+    days: PROFILE_DAYS,
+    utcOffsetMinutes,
+    total: checkins.length,
+    ...weeklyProfile(checkins, utcOffsetMinutes),
+  });
+}
+
+export const GET = apiRoute("GET /api/cafes/[id]/busy-hours", getBusyHours);
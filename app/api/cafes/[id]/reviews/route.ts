@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { isUuid } from "../../../../../lib/ids";
+import { userRateLimit } from "../../../../../lib/rateLimit";
+import { log } from "../../../../../lib/log";
+import { reviewsSubmitted } from "../../../../../lib/metrics";
+import { checkReviewText } from "../../../../../lib/reviews/filter";
+import { loadApprovedReviews } from "../../../../../lib/reviews/reviews";
+import {
+  parseRequest,
+  reviewRequestSchema,
+  type ReviewResponse,
+  type ReviewsResponse,
+} from "../../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+const PUBLIC_LIMIT = 50;
+
+// Approved reviews, newest first
+async function listReviews(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!isUuid(id)) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+  const supabase = supabaseAdmin();
+
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  return NextResponse.json<ReviewsResponse>({
+    reviews: await loadApprovedReviews(supabase, id, PUBLIC_LIMIT),
+  });
+}
+
+// Create or replace the caller's review. Filtered text goes to the
+// moderation queue instead of straight onto the café.
+async function writeReview(req: NextRequest, { params }: Params) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to write a review");
+  }
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return apiError(400, "invalid_request", "Invalid JSON body");
+  }
+
+  const parsed = parseRequest(reviewRequestSchema, body);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const verdict = checkReviewText(parsed.data.body);
+  if (verdict.action === "reject") {
+    reviewsSubmitted.inc({ outcome: "rejected" });
+    return apiError(400, "invalid_request", verdict.message);
+  }
+
+  const { id } = await params;
+  if (!isUuid(id)) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+  const supabase = supabaseAdmin();
+
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  // Charged only for submissions that would actually be stored
+  const limited = await userRateLimit(req, "POST /api/cafes/[id]/reviews", user.id);
+  if (limited) return limited;
+
+  // Authors can edit but not undo moderation: a hidden review stays hidden,
+  // and one waiting in the queue (held or reported) keeps waiting
+  const { data: existing, error: existingErr } = await supabase
+    .from("cafe_reviews")
+    .select("status")
+    .eq("cafe_id", id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (existingErr) throw existingErr;
+
+  const moderation =
+    existing && existing.status !== "approved"
+      ? {}
+      : {
+          status: verdict.action === "hold" ? "pending" : "approved",
+          moderation_reason: verdict.action === "hold" ? verdict.reason : null,
+          moderated_at: null,
+          moderated_by: null,
+        };
+
+  const now = new Date().toISOString();
+  const { data: review, error } = await supabase
+    .from("cafe_reviews")
+    .upsert(
+      {
+        cafe_id: id,
+        user_id: user.id,
+        body: parsed.data.body,
+        rating: parsed.data.rating,
+        ...moderation,
+        created_at: now,
+        updated_at: now,
+      },
+      { onConflict: "cafe_id,user_id" }
+    )
+    .select("id, cafe_id, body, rating, status, created_at")
+    .single();
+
+  if (error) throw error;
+
+  const outcome = review.status === "approved" ? "approved" : "held";
+  reviewsSubmitted.inc({ outcome });
+  log.info("review.submitted", {
+    cafeId: id,
+    reviewId: review.id,
+    outcome,
+    status: review.status,
+    reason: verdict.action === "hold" ? verdict.reason : undefined,
+  });
+
+  return NextResponse.json<ReviewResponse>(
+    { review: { ...review, status: review.status as ReviewResponse["review"]["status"] } },
+    { status: 201 }
+  );
+}
+
+export const GET = apiRoute("GET /api/cafes/[id]/reviews", listReviews);
+export const POST = apiRoute("POST /api/cafes/[id]/reviews", writeReview);
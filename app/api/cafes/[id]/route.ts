@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { computeQuietScore, type CheckinForScore } from "../../../../lib/quietScore";
+import { hourlyHistogram } from "../../../../lib/cafes/activity";
+import { getCafeAttributes } from "../../../../lib/attributes";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { isUuid } from "../../../../lib/ids";
+import type { OpeningHours } from "../../../../lib/openingHours";
+import type { CafeDetailResponse } from "../../../../lib/api/contracts";
+
+const HISTORY_DAYS = 30;
+const RECENT_LIMIT = 20;
+
+async function getCafe(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isUuid(id)) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+  const supabase = supabaseAdmin();
+
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  // Last 30 days feeds both the histogram and the quiet score
+  const since = new Date(Date.now() - HISTORY_DAYS * 86_400_000).toISOString();
+  const { data: checkins, error: checkinsErr } = await supabase
+    .from("checkins")
+    .select("id, cafe_id, created_at, noise_level, crowdedness, seat_availability, verification_status")
+    .eq("cafe_id", id)
+    .gte("created_at", since)
+    .is("voided_at", null)
+    .order("created_at", { ascending: false });
+
+  if (checkinsErr) throw checkinsErr;
+
+  const rows: (CheckinForScore & { id: string })[] = checkins ?? [];
+  const attributes = await getCafeAttributes(supabase, [id]);
+
+  return NextResponse.json<CafeDetailResponse>({
+    cafe: {
+      ...cafe,
+      opening_hours: cafe.opening_hours as OpeningHours | null,
+      ...computeQuietScore(rows),
+      attributes: attributes.get(id)!,
+    },
+    // No user ids here: this is a public view
+    recentCheckins: rows.slice(0, RECENT_LIMIT).map((c) => ({
+      id: c.id,
+      created_at: c.created_at,
+      noise_level: c.noise_level,
+      crowdedness: c.crowdedness,
+      seat_availability: c.seat_availability,
+      verification_status: c.verification_status,
+    })),
+    hourlyHistogram: {
+      days: HISTORY_DAYS,
+      utcOffsetMinutes: cafe.utc_offset_minutes ?? null,
+      counts: hourlyHistogram(rows, cafe.utc_offset_minutes ?? null),
+    },
+  });
+}
+
+export const GET = apiRoute("GET /api/cafes/[id]", getCafe);
@@ -1,12 +1,64 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "../../../lib/supabase/server"; 
-import { searchNearbyPlaces } from "../../../lib/google/places";
+import {
+  getRequestUser,
+  supabaseAdmin,
+  type TypedSupabaseClient,
+} from "../../../lib/supabase/server";
+import {
+  cacheMaxStaleSeconds,
+  findContainingCacheEntry,
+  MAX_RADIUS_M,
+} from "../../../lib/places/cache";
+import { refreshNearbyInBackground, refreshNearbyOnce } from "../../../lib/places/refresh";
+import { UpstreamUnavailableError } from "../../../lib/places/guard";
+import {
+  dbIsPrimary,
+  findKnownCafesNearby,
+  hasFreshCoverage,
+  oldestFetchedAt,
+} from "../../../lib/cafes/nearby";
+import { withQuietScores } from "../../../lib/quietScore";
+import { withQuietPredictions } from "../../../lib/cafes/activity";
+import { savedCafeIds } from "../../../lib/lists";
+import { getReviewSummaries } from "../../../lib/reviews/reviews";
+import {
+  getCafeAttributes,
+  hasAnyAttribute,
+  matchesAttributeFilters,
+  type AttributeFilters,
+  type CafeAttributes,
+} from "../../../lib/attributes";
+import { apiRoute } from "../../../lib/api/route";
+import { apiError } from "../../../lib/api/errors";
+import { log } from "../../../lib/log";
+import { recordCafesSource } from "../../../lib/places/stats";
+import {
+  applyCafeFilters,
+  sortCafes,
+  withDistanceAndHours,
+  type CafeFilters,
+  type CafeSort,
+} from "../../../lib/cafes/listing";
+import {
+  cafesQuerySchema,
+  parseRequest,
+  type CafeListItem,
+  type CafesResponse,
+} from "../../../lib/api/contracts";
 
-function toNumber(value: string | null): number | null {
-  if (value == null) return null;
-  const n = Number(value);
-  return Number.isFinite(n) ? n : null;
-}
+const CAFE_COLUMNS =
+  "id, place_id, name, address, lat, lng, google_rating, user_ratings_total, price_level, types, opening_hours, utc_offset_minutes";
+
+type ListingOptions = {
+  origin: { lat: number; lng: number };
+  sort: CafeSort;
+  filters: CafeFilters;
+  attributes: AttributeFilters;
+  // When set, each café gets a "quiet at this time" prediction
+  at: Date | null;
+  // Signed-in caller, for the per-café saved flag
+  userId: string | null;
+};
 
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
@@ -23,161 +75,280 @@ function cacheKey(lat: number, lng: number, radiusM: number, precision: number)
   return `nearby:${rLat}:${rLng}:r=${radiusM}`;
 }
 
-export async function GET(req: NextRequest) {
+function cafesResponse(body: CafesResponse) {
+  recordCafesSource(body.source);
+  log.info("cafes.served", {
+    source: body.source,
+    cache: body.source === "cache" || body.source === "stale" ? "hit" : "miss",
+    cacheMatch: body.cacheMatch,
+    cacheKey: body.cacheKey,
+    degraded: body.degraded,
+    total: body.total,
+  });
+  return NextResponse.json(body);
+}
+
+// Cursors are opaque to clients; today they just carry the offset into the
+// filtered + sorted list for this query.
+function encodeCursor(offset: number) {
+  return Buffer.from(JSON.stringify({ o: offset })).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): number | null {
+  if (!cursor) return 0;
   try {
-    const url = new URL(req.url);
+    const { o } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Number.isInteger(o) && o >= 0 ? o : null;
+  } catch {
+    return null;
+  }
+}
 
-    const lat = toNumber(url.searchParams.get("lat"));
-    const lng = toNumber(url.searchParams.get("lng"));
-    const radius = toNumber(url.searchParams.get("radius"));
+// Loads every café for placeIds, filters and sorts them, then returns one
+// page. Quiet scores and attributes are only computed for the whole set when
+// sorting or filtering by them.
+async function loadCafesPage(
+  supabase: TypedSupabaseClient,
+  placeIds: string[],
+  opts: ListingOptions,
+  offset: number,
+  limit: number
+): Promise<Pick<CafesResponse, "total" | "cafes" | "nextCursor">> {
+  if (placeIds.length === 0) return { total: 0, cafes: [], nextCursor: null };
 
-    if (lat == null || lng == null) {
-      return NextResponse.json(
-        { error: "Missing/invalid lat or lng" },
-        { status: 400 }
-      );
-    }
+  const { data, error } = await supabase
+    .from("cafes")
+    .select(CAFE_COLUMNS)
+    .in("place_id", placeIds)
+    .eq("permanently_closed", false);
 
-    const radiusM = clamp(radius ?? 1500, 200, 5000);
+  if (error) throw error;
 
-    const precision = clamp(
-      Number(process.env.PLACES_QUERY_LATLNG_PRECISION ?? 3),
-      2,
-      5
-    );
+  let rows = applyCafeFilters(
+    withDistanceAndHours(data ?? [], opts.origin, new Date()),
+    opts.filters
+  );
 
-    const ttlSeconds = clamp(
-      Number(process.env.PLACES_CACHE_TTL_SECONDS ?? 900),
-      60,
-      86400
+  let attributes: Map<string, CafeAttributes> | null = null;
+  if (hasAnyAttribute(opts.attributes)) {
+    attributes = await getCafeAttributes(supabase, rows.map((c) => c.id));
+    rows = rows.filter((c) => matchesAttributeFilters(attributes!.get(c.id)!, opts.attributes));
+  }
+
+  let page;
+  if (opts.sort === "quiet") {
+    page = sortCafes(await withQuietScores(supabase, rows), "quiet").slice(offset, offset + limit);
+  } else {
+    page = await withQuietScores(
+      supabase,
+      sortCafes(rows, opts.sort).slice(offset, offset + limit)
     );
+  }
+
+  const nextOffset = offset + page.length;
+  const nextCursor = nextOffset < rows.length ? encodeCursor(nextOffset) : null;
+
+  const withPredictions = opts.at
+    ? await withQuietPredictions(supabase, page, opts.at)
+    : page;
+  const saved = await savedCafeIds(supabase, opts.userId, page.map((c) => c.id));
+  attributes ??= await getCafeAttributes(supabase, page.map((c) => c.id));
+  const reviews = await getReviewSummaries(supabase, page.map((c) => c.id));
+  const cafes: CafeListItem[] = withPredictions.map((c) => ({
+    ...c,
+    saved: saved.has(c.id),
+    attributes: attributes.get(c.id)!,
+    reviews: reviews.get(c.id)!,
+  }));
+
+  return { total: rows.length, cafes, nextCursor };
+}
+
+async function getCafes(req: NextRequest) {
+  const url = new URL(req.url);
+
+  const parsed = parseRequest(cafesQuerySchema, url.searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { lat, lng, radius, limit: limitParam, cursor, sort, minRating, maxPrice, openNow, at } =
+    parsed.data;
+  const { wifi, outlets, laptops, tables, calls } = parsed.data;
+  const offset = decodeCursor(cursor);
+
+  if (offset == null) {
+    return apiError(400, "invalid_request", "Invalid cursor");
+  }
+
+  const radiusM = clamp(radius ?? 1500, 200, MAX_RADIUS_M);
+  const limit = clamp(Math.floor(limitParam ?? 20), 1, 50);
+
+  const precision = clamp(
+    Number(process.env.PLACES_QUERY_LATLNG_PRECISION ?? 3),
+    2,
+    5
+  );
+
+  const ttlSeconds = clamp(
+    Number(process.env.PLACES_CACHE_TTL_SECONDS ?? 900),
+    60,
+    86400
+  );
+
+  const maxStaleSeconds = cacheMaxStaleSeconds();
+
+  const key = cacheKey(lat, lng, radiusM, precision);
+  const query = { key, lat, lng, radiusM, ttlSeconds };
+  const listing: ListingOptions = {
+    origin: { lat, lng },
+    sort,
+    filters: {
+      minRating: minRating == null ? null : clamp(minRating, 0, 5),
+      maxPrice: maxPrice == null ? null : clamp(Math.floor(maxPrice), 0, 4),
+      openNow,
+    },
+    attributes: { wifi, outlets, laptops, tables, calls },
+    at,
+    // Only looked up when a token was sent; anonymous requests stay cheap
+    userId: (await getRequestUser(req))?.id ?? null,
+  };
+  const supabase = supabaseAdmin();
 
-    const key = cacheKey(lat, lng, radiusM, precision);
-    const supabase = supabaseAdmin();
+  // 1) Cache lookup: exact rounded key first
+  const { data: cacheRow, error: cacheErr } = await supabase
+    .from("places_cache")
+    .select("cache_key, place_ids, fetched_at, expires_at")
+    .eq("cache_key", key)
+    .maybeSingle();
 
-    // 1) Cache lookup
-    const { data: cacheRow, error: cacheErr } = await supabase
-      .from("places_cache")
-      .select("cache_key, place_ids, expires_at")
-      .eq("cache_key", key)
-      .maybeSingle();
+  if (cacheErr) throw cacheErr;
 
-    if (cacheErr) throw cacheErr;
+  const now = new Date();
+  if (cacheRow && new Date(cacheRow.expires_at) > now && cacheRow.place_ids?.length) {
+    const page = await loadCafesPage(supabase, cacheRow.place_ids, listing, offset, limit);
 
-    const now = new Date();
-    if (cacheRow && new Date(cacheRow.expires_at) > now && cacheRow.place_ids?.length) {
-      // Fetch cafe rows by place_id (and join stats if you want)
-      const { data: cafes, error: cafesErr } = await supabase
-        .from("cafes")
-        .select("id, place_id, name, address, lat, lng, google_rating, user_ratings_total, price_level, types")
-        .in("place_id", cacheRow.place_ids);
+    return cafesResponse({
+      source: "cache",
+      cacheMatch: "exact",
+      cacheKey: key,
+      radiusM,
+      fetchedAt: cacheRow.fetched_at,
+      expiresAt: cacheRow.expires_at,
+      ...page,
+    });
+  }
+
+  // 1b) Any unexpired entry whose circle contains ours
+  const containing = await findContainingCacheEntry(supabase, { lat, lng, radiusM });
+  if (containing) {
+    const page = await loadCafesPage(supabase, containing.place_ids, listing, offset, limit);
+
+    return cafesResponse({
+      source: "cache",
+      cacheMatch: "contained",
+      cacheKey: containing.cache_key,
+      radiusM,
+      fetchedAt: containing.fetched_at,
+      expiresAt: containing.expires_at,
+      ...page,
+    });
+  }
 
-      if (cafesErr) throw cafesErr;
+  // 1c) Known cafés from our own table, when the area is well covered
+  if (dbIsPrimary()) {
+    const known = await findKnownCafesNearby(supabase, { lat, lng, radiusM });
+    if (hasFreshCoverage(known)) {
+      const page = await loadCafesPage(supabase, known.map((c) => c.place_id), listing, offset, limit);
 
-      return NextResponse.json({
-        source: "cache",
+      return cafesResponse({
+        source: "db",
         cacheKey: key,
         radiusM,
-        cafes: cafes ?? [],
+        fetchedAt: oldestFetchedAt(known),
+        expiresAt: null,
+        ...page,
       });
     }
+  }
 
-    // 2) Cache miss → call Google Places
-    const places = await searchNearbyPlaces({ lat, lng, radiusM });
-
-    // Normalize and upsert into cafes
-    const cafesToUpsert = places
-      .map((p) => {
-        const loc = p.location;
-        if (!p.id || !loc) return null;
-
-        // priceLevel from v1 might be strings (PRICE_LEVEL_*). Keep as text/int later if desired.
-        const priceLevelInt =
-          p.priceLevel?.includes("FREE") ? 0 :
-          p.priceLevel?.includes("INEXPENSIVE") ? 1 :
-          p.priceLevel?.includes("MODERATE") ? 2 :
-          p.priceLevel?.includes("EXPENSIVE") ? 3 :
-          p.priceLevel?.includes("VERY_EXPENSIVE") ? 4 :
-          null;
-
-        return {
-          place_id: p.id,
-          name: p.displayName?.text ?? "Unknown",
-          address: p.formattedAddress ?? null,
-          lat: loc.latitude,
-          lng: loc.longitude,
-          google_rating: p.rating ?? null,
-          user_ratings_total: p.userRatingCount ?? null,
-          price_level: priceLevelInt,
-          types: p.types ?? null,
-          last_fetched_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
-      })
-      .filter(Boolean) as any[];
-
-    console.log("places returned:", places.length, "cafesToUpsert:", cafesToUpsert.length);
-
-    if (cafesToUpsert.length) {
-      const { error: upsertErr } = await supabase
-        .from("cafes")
-        .upsert(cafesToUpsert, { onConflict: "place_id" });
-
-      if (upsertErr) throw upsertErr;
-    }
+  // 2) Expired but recent enough: serve stale, revalidate in background
+  if (
+    cacheRow &&
+    cacheRow.place_ids?.length &&
+    now.getTime() - new Date(cacheRow.expires_at).getTime() <= maxStaleSeconds * 1000
+  ) {
+    refreshNearbyInBackground(supabase, query);
 
-    const placeIds = cafesToUpsert
-      .map((c) => c.place_id)
-      .filter((id): id is string => Boolean(id)); // Filter out null/undefined
-
-    if (placeIds.length > 0) {
-      // Upsert cache row
-      const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
-      const { error: cacheUpsertErr } = await supabase
-        .from("places_cache")
-        .upsert(
-          {
-            cache_key: key,
-            lat_center: roundCoord(lat, precision),
-            lng_center: roundCoord(lng, precision),
-            radius_m: radiusM,
-            place_ids: placeIds,
-            fetched_at: new Date().toISOString(),
-            expires_at: expiresAt,
-            // raw: { places }, // optionally store raw; can get big
-          },
-          { onConflict: "cache_key" }
-        );
-
-      if (cacheUpsertErr) throw cacheUpsertErr;
-    } else {
-      // Don't poison the cache with empty results
-      console.warn("No placeIds from Google; skipping cache write", { key });
-    }
+    const page = await loadCafesPage(supabase, cacheRow.place_ids, listing, offset, limit);
+
+    return cafesResponse({
+      source: "stale",
+      cacheMatch: "exact",
+      cacheKey: key,
+      radiusM,
+      fetchedAt: cacheRow.fetched_at,
+      expiresAt: cacheRow.expires_at,
+      ...page,
+    });
+  }
+
+  // 3) Cache miss → fetch upstream; concurrent misses share one fetch
+  let fresh;
+  try {
+    fresh = await refreshNearbyOnce(supabase, query);
+  } catch (err) {
+    if (!(err instanceof UpstreamUnavailableError)) throw err;
+    log.warn("places.upstream_unavailable", { key, reason: err.reason, err: err.cause });
+
+    // 4) Upstream unavailable: any stale cache, however old, then DB-only
+    const staleRow = cacheRow?.place_ids?.length ? cacheRow : null;
+    const staleContaining = staleRow
+      ? null
+      : await findContainingCacheEntry(supabase, { lat, lng, radiusM }, { includeExpired: true });
+
+    if (staleRow || staleContaining) {
+      const placeIds = staleRow ? staleRow.place_ids : staleContaining!.place_ids;
+      const page = await loadCafesPage(supabase, placeIds, listing, offset, limit);
 
-    // Return cafes from DB (ensures consistent fields)
-    // If no placeIds, return empty array (no cafes found)
-    let cafes: any[] = [];
-    if (placeIds.length > 0) {
-      const { data, error: cafesErr } = await supabase
-        .from("cafes")
-        .select("id, place_id, name, address, lat, lng, google_rating, user_ratings_total, price_level, types")
-        .in("place_id", placeIds);
-
-      if (cafesErr) throw cafesErr;
-      cafes = data ?? [];
+      return cafesResponse({
+        source: "stale",
+        cacheMatch: staleRow ? "exact" : "contained",
+        cacheKey: staleRow ? key : staleContaining!.cache_key,
+        radiusM,
+        fetchedAt: (staleRow ?? staleContaining!).fetched_at,
+        expiresAt: (staleRow ?? staleContaining!).expires_at,
+        degraded: err.reason,
+        ...page,
+      });
     }
 
-    return NextResponse.json({
-      source: "google",
+    const known = await findKnownCafesNearby(supabase, { lat, lng, radiusM });
+    const page = await loadCafesPage(supabase, known.map((c) => c.place_id), listing, offset, limit);
+
+    return cafesResponse({
+      source: "db",
       cacheKey: key,
       radiusM,
-      cafes,
+      fetchedAt: oldestFetchedAt(known),
+      expiresAt: null,
+      degraded: err.reason,
+      ...page,
     });
-  } catch (err: any) {
-    return NextResponse.json(
-      { error: err?.message ?? "Unknown error" },
-      { status: 500 }
-    );
   }
+
+  // Return cafes from DB (ensures consistent fields)
+  // If no placeIds, the page is empty (no cafes found)
+  const page = await loadCafesPage(supabase, fresh.placeIds, listing, offset, limit);
+
+  return cafesResponse({
+    source: fresh.source,
+    cacheKey: key,
+    radiusM,
+    fetchedAt: fresh.fetchedAt,
+    expiresAt: fresh.expiresAt,
+    ...page,
+  });
 }
+
+export const GET = apiRoute("GET /api/cafes", getCafes);
@@ -1,88 +1,160 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "../../../lib/supabase/server";
-import { enforceRateLimit } from "../../../lib/rateLimit";
-
-export async function POST(req: NextRequest) {
-  try {
-    // Rate limit: 10 requests/minute per IP
-    const rl = await enforceRateLimit({
-      req,
-      route: "POST /api/checkins",
-      limit: 10,
-      windowSeconds: 60,
+import { getRequestUser, supabaseAdmin } from "../../../lib/supabase/server";
+import { apiRoute } from "../../../lib/api/route";
+import { apiError } from "../../../lib/api/errors";
+import { log } from "../../../lib/log";
+import { checkinsCreated } from "../../../lib/metrics";
+import { checkGeofence } from "../../../lib/geofence";
+import { recordAttributeVote } from "../../../lib/attributes";
+import {
+  checkinRequestSchema,
+  parseRequest,
+  type CheckinResponse,
+  type MyCheckinsResponse,
+} from "../../../lib/api/contracts";
+
+const CHECKIN_COLUMNS =
+  "id, cafe_id, created_at, noise_level, crowdedness, seat_availability, verification_status, distance_m";
+
+function cooldownSeconds() {
+  const n = Number(process.env.CHECKIN_COOLDOWN_SECONDS ?? 3600);
+  return Number.isFinite(n) && n >= 0 ? n : 3600;
+}
+
+// The signed-in user's own check-in history, newest first
+async function listMyCheckins(req: NextRequest) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to see your check-ins");
+  }
+
+  const url = new URL(req.url);
+  const limit = Math.max(1, Math.min(100, Number(url.searchParams.get("limit")) || 20));
+
+  const supabase = supabaseAdmin();
+  const { data, error } = await supabase
+    .from("checkins")
+    .select(`${CHECKIN_COLUMNS}, cafe:cafes(id, name, address)`)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return NextResponse.json<MyCheckinsResponse>({ checkins: data ?? [] });
+}
+
+async function createCheckin(req: NextRequest) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to check in");
+  }
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return apiError(400, "invalid_request", "Invalid JSON body");
+  }
+
+  const parsed = parseRequest(checkinRequestSchema, body);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { cafeId, noiseLevel, crowdedness, seatAvailability, location, attributes } = parsed.data;
+
+  const supabase = supabaseAdmin();
+
+  // Verify cafe exists
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("id, lat, lng")
+    .eq("id", cafeId)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  // Geofence: reject check-ins from far away, flag ones just outside
+  const geofence = checkGeofence(cafe, location);
+  if (!geofence.ok) {
+    return apiError(403, "forbidden", "You're too far from this café to check in", {
+      distanceM: geofence.distanceM,
     });
+  }
 
-    if (!rl.allowed) {
-      const retryAfterSec = Math.max(
-        1,
-        Math.ceil((rl.resetAt.getTime() - Date.now()) / 1000)
-      );
-
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded",
-          used: rl.used,
-          limit: rl.limit,
-          resetAt: rl.resetAt.toISOString(),
+  // Per-user cooldown: one check-in per café per window. Checked and
+  // inserted in one RPC so concurrent requests can't both get in.
+  const cooldown = cooldownSeconds();
+  const { data: rows, error: createErr } = await supabase.rpc("create_checkin", {
+    p_cafe_id: cafeId,
+    p_user_id: user.id,
+    p_cooldown_seconds: cooldown,
+    p_noise_level: noiseLevel,
+    p_crowdedness: crowdedness,
+    p_seat_availability: seatAvailability,
+    p_verification_status: geofence.status,
+    p_distance_m: geofence.distanceM,
+    p_location_accuracy_m: location?.accuracyM ?? null,
+  });
+
+  if (createErr) throw createErr;
+  const created = rows?.[0];
+  if (!created) throw new Error("create_checkin returned no row");
+  if (!created.checkin_id) {
+    const availableAt = new Date(created.available_at!);
+    const retryAfterSec = Math.max(
+      1,
+      Math.ceil((availableAt.getTime() - Date.now()) / 1000)
+    );
+
+    return apiError(
+      429,
+      "cooldown",
+      "You already checked in here recently",
+      { availableAt: availableAt.toISOString() },
+      {
+        headers: {
+          "Retry-After": String(retryAfterSec),
+          "Cache-Control": "no-store",
         },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": String(retryAfterSec),
-            "Cache-Control": "no-store",
-          },
-        }
-      );
-    }
-
-    const body = await req.json();
-    const cafeId = body.cafeId;
-
-    if (!cafeId || typeof cafeId !== "string") {
-      return NextResponse.json(
-        { error: "Missing or invalid cafeId" },
-        { status: 400 }
-      );
-    }
-
-    const supabase = supabaseAdmin();
-
-    // Verify cafe exists
-    const { data: cafe, error: cafeErr } = await supabase
-      .from("cafes")
-      .select("id")
-      .eq("id", cafeId)
-      .maybeSingle();
-
-    if (cafeErr) throw cafeErr;
-    if (!cafe) {
-      return NextResponse.json(
-        { error: "Cafe not found" },
-        { status: 404 }
-      );
-    }
-
-    // Insert check-in
-    const { data: checkIn, error: checkInErr } = await supabase
-      .from("checkins")
-      .insert({
-        cafe_id: cafeId,
-        created_at: new Date().toISOString(),
-      })
-      .select("id, cafe_id, created_at")
-      .single();
-
-    if (checkInErr) throw checkInErr;
-
-    return NextResponse.json({
-      success: true,
-      checkIn,
-    });
-  } catch (err: any) {
-    return NextResponse.json(
-      { error: err?.message ?? "Unknown error" },
-      { status: 500 }
+      }
     );
   }
+
+  const { data: checkIn, error: checkInErr } = await supabase
+    .from("checkins")
+    .select(CHECKIN_COLUMNS)
+    .eq("id", created.checkin_id)
+    .single();
+
+  if (checkInErr) throw checkInErr;
+
+  if (attributes) {
+    await recordAttributeVote(supabase, {
+      ...attributes,
+      cafeId,
+      userId: user.id,
+      checkinId: checkIn.id,
+    });
+  }
+
+  checkinsCreated.inc({ verification: checkIn.verification_status });
+  log.info("checkin.created", {
+    cafeId,
+    verification: checkIn.verification_status,
+    distanceM: checkIn.distance_m,
+    withAttributes: attributes != null,
+  });
+
+  return NextResponse.json<CheckinResponse>({
+    success: true,
+    checkIn,
+  });
 }
 
+export const GET = apiRoute("GET /api/checkins", listMyCheckins);
+
+// Rate limit: 10 requests/minute per IP (see RATE_LIMIT_POLICIES)
+export const POST = apiRoute("POST /api/checkins", createCheckin);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+import { supabaseAdmin } from "../../../../lib/supabase/server";
+import { refreshStaleCafes } from "../../../../lib/places/staleRefresh";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Unlike /api/metrics this costs money, so no secret means no access
+function authorized(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const given = Buffer.from(req.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Scheduled refresh of stale cafés (lib/places/staleRefresh.ts). Vercel Cron
+// and most schedulers send "Authorization: Bearer $CRON_SECRET" with a GET.
+async function refreshStale(req: NextRequest) {
+  if (!authorized(req)) {
+    return apiError(401, "unauthorized", "Invalid or missing cron secret");
+  }
+
+  const summary = await refreshStaleCafes(supabaseAdmin());
+  return NextResponse.json(summary, { headers: { "Cache-Control": "no-store" } });
+}
+
+export const GET = apiRoute("GET /api/cron/refresh-stale", refreshStale, { rateLimit: false });
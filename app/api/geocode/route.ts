@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGeocodeProvider } from "../../../lib/geocode/provider";
+import { apiRoute } from "../../../lib/api/route";
+import { apiError } from "../../../lib/api/errors";
+import { log } from "../../../lib/log";
+import {
+  geocodeQuerySchema,
+  parseRequest,
+  type GeocodeResponse,
+} from "../../../lib/api/contracts";
+
+// Address or neighborhood → candidate locations, best match first. Lets the
+// UI search somewhere without (or instead of) browser geolocation.
+async function geocode(req: NextRequest) {
+  const parsed = parseRequest(geocodeQuerySchema, new URL(req.url).searchParams);
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { q, limit: limitParam } = parsed.data;
+  const limit = Math.max(1, Math.min(10, Math.floor(limitParam ?? 5)));
+  const provider = getGeocodeProvider();
+
+  let results;
+  try {
+    results = await provider.geocode(q, limit);
+  } catch (err) {
+    log.warn("geocode.failed", { provider: provider.name, err });
+    return apiError(503, "upstream_unavailable", "Location search is unavailable right now");
+  }
+
+  return NextResponse.json<GeocodeResponse>(
+    { source: provider.name, query: q, results },
+    // Places don't move; let browsers reuse answers for a day
+    { headers: { "Cache-Control": "public, max-age=86400" } }
+  );
+}
+
+export const GET = apiRoute("GET /api/geocode", geocode);
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { apiRoute } from "../../../../lib/api/route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Liveness: answers whenever the process can serve requests. Deliberately
+// touches no dependencies, so a DB outage doesn't get the instance restarted.
+async function getLive() {
+  return NextResponse.json(
+    { status: "ok", live: true, uptimeSeconds: Math.round(process.uptime()) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export const GET = apiRoute("GET /api/health/live", getLive, { rateLimit: false });
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../lib/supabase/server";
+import { healthReport } from "../../../lib/health";
+import { apiRoute } from "../../../lib/api/route";
+import { hasBearerSecret } from "../../../lib/api/bearer";
+import { log } from "../../../lib/log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Readiness: deep check of the DB, required tables, the rate_limit_hit RPC,
+// Places config, budget and cache stats. 503 until the critical checks pass.
+// The deep check costs a dozen queries, so it needs METRICS_TOKEN; anyone
+// else gets the same answer as /api/health/live (process up, no dependencies).
+async function getHealth(req: NextRequest) {
+  if (!hasBearerSecret(req, process.env.METRICS_TOKEN)) {
+    return NextResponse.json(
+      { status: "ok", live: true },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  }
+
+  try {
+    const report = await healthReport(supabaseAdmin());
+
+    return NextResponse.json(report, {
+      status: report.ready ? 200 : 503,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    log.error("health.failed", { err });
+    return NextResponse.json(
+      {
+        status: "down",
+        live: true,
+        ready: false,
+        checkedAt: new Date().toISOString(),
+        error: "Health check failed",
+        code: "internal_error",
+      },
+      { status: 503, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
+
+// Not rate limited: probes shouldn't depend on the rate-limit RPC
+export const GET = apiRoute("GET /api/health", getHealth, { rateLimit: false });
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../../lib/api/route";
+import { apiError } from "../../../../../../lib/api/errors";
+import { loadOwnedList, touchList } from "../../../../../../lib/lists";
+import type { ListResponse } from "../../../../../../lib/api/contracts";
+
+// Removing a café that isn't in the list is a no-op
+async function removeItem(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; cafeId: string }> }
+) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to edit your lists");
+  }
+
+  const { id, cafeId } = await params;
+  const supabase = supabaseAdmin();
+
+  const list = await loadOwnedList(supabase, user.id, id);
+  if (!list) {
+    return apiError(404, "not_found", "List not found");
+  }
+  if (!list.cafes.some((c) => c.id === cafeId)) {
+    return NextResponse.json<ListResponse>({ list });
+  }
+
+  const { error } = await supabase
+    .from("cafe_list_items")
+    .delete()
+    .eq("list_id", id)
+    .eq("cafe_id", cafeId);
+  if (error) throw error;
+  await touchList(supabase, id);
+
+  return NextResponse.json<ListResponse>({ list: (await loadOwnedList(supabase, user.id, id))! });
+}
+
+export const DELETE = apiRoute("DELETE /api/lists/[id]/items/[cafeId]", removeItem);
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { loadOwnedList, MAX_ITEMS_PER_LIST, touchList } from "../../../../../lib/lists";
+import {
+  addListItemRequestSchema,
+  parseRequest,
+  reorderListRequestSchema,
+  type ListResponse,
+} from "../../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Appends a café to the list; adding one that's already there is a no-op
+async function addItem(req: NextRequest, { params }: Params) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to save cafés");
+  }
+
+  const parsed = parseRequest(addListItemRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const { cafeId } = parsed.data;
+  const supabase = supabaseAdmin();
+
+  const list = await loadOwnedList(supabase, user.id, id);
+  if (!list) {
+    return apiError(404, "not_found", "List not found");
+  }
+  if (list.cafes.some((c) => c.id === cafeId)) {
+    return NextResponse.json<ListResponse>({ list });
+  }
+  if (list.cafes.length >= MAX_ITEMS_PER_LIST) {
+    return apiError(400, "invalid_request", `A list can hold at most ${MAX_ITEMS_PER_LIST} cafés`);
+  }
+
+  const { data: cafe, error: cafeErr } = await supabase
+    .from("cafes")
+    .select("id")
+    .eq("id", cafeId)
+    .maybeSingle();
+
+  if (cafeErr) throw cafeErr;
+  if (!cafe) {
+    return apiError(404, "not_found", "Cafe not found");
+  }
+
+  const { error } = await supabase.from("cafe_list_items").upsert(
+    {
+      list_id: id,
+      cafe_id: cafeId,
+      user_id: user.id,
+      position: list.cafes.length,
+    },
+    { onConflict: "list_id,cafe_id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+  await touchList(supabase, id);
+
+  return NextResponse.json<ListResponse>(
+    { list: (await loadOwnedList(supabase, user.id, id))! },
+    { status: 201 }
+  );
+}
+
+// Replaces the order: cafeIds must be exactly the list's cafés, in the new order
+async function reorderItems(req: NextRequest, { params }: Params) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to edit your lists");
+  }
+
+  const parsed = parseRequest(reorderListRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const { cafeIds } = parsed.data;
+  const supabase = supabaseAdmin();
+
+  const list = await loadOwnedList(supabase, user.id, id);
+  if (!list) {
+    return apiError(404, "not_found", "List not found");
+  }
+
+  const current = new Set(list.cafes.map((c) => c.id));
+  const sameCafes =
+    cafeIds.length === current.size &&
+    new Set(cafeIds).size === cafeIds.length &&
+    cafeIds.every((cafeId) => current.has(cafeId));
+  if (!sameCafes) {
+    return apiError(400, "invalid_request", "cafeIds must list every café in the list exactly once");
+  }
+
+  if (cafeIds.length) {
+    // One statement, so the new order lands atomically; it only updates
+    // items that still exist, so a concurrent removal isn't undone
+    const { error } = await supabase.rpc("reorder_list_items", { p_list_id: id, p_cafe_ids: cafeIds });
+    if (error) throw error;
+  }
+  await touchList(supabase, id);
+
+  return NextResponse.json<ListResponse>({ list: (await loadOwnedList(supabase, user.id, id))! });
+}
+
+export const POST = apiRoute("POST /api/lists/[id]/items", addItem);
+export const PUT = apiRoute("PUT /api/lists/[id]/items", reorderItems);
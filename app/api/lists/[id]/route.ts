@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../../lib/supabase/server";
+import { apiRoute } from "../../../../lib/api/route";
+import { apiError } from "../../../../lib/api/errors";
+import { loadOwnedList, newShareToken } from "../../../../lib/lists";
+import type { TablesUpdate } from "../../../../lib/supabase/database.types";
+import {
+  parseRequest,
+  updateListRequestSchema,
+  type ListResponse,
+} from "../../../../lib/api/contracts";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Rename, and/or turn the public share link on or off. Turning it off and
+// on again issues a new link, so old ones stop working.
+async function updateList(req: NextRequest, { params }: Params) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to edit your lists");
+  }
+
+  const parsed = parseRequest(updateListRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+  const list = await loadOwnedList(supabase, user.id, id);
+  if (!list) {
+    return apiError(404, "not_found", "List not found");
+  }
+
+  const { name, shared } = parsed.data;
+  const update: TablesUpdate<"cafe_lists"> = { updated_at: new Date().toISOString() };
+  if (name !== undefined) update.name = name;
+  if (shared === true && !list.shareToken) update.share_token = newShareToken();
+  if (shared === false) update.share_token = null;
+
+  const { error } = await supabase.from("cafe_lists").update(update).eq("id", id);
+  if (error) throw error;
+
+  return NextResponse.json<ListResponse>({ list: (await loadOwnedList(supabase, user.id, id))! });
+}
+
+async function deleteList(req: NextRequest, { params }: Params) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to edit your lists");
+  }
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+  const list = await loadOwnedList(supabase, user.id, id);
+  if (!list) {
+    return apiError(404, "not_found", "List not found");
+  }
+
+  // Items go with it (on delete cascade)
+  const { error } = await supabase.from("cafe_lists").delete().eq("id", id);
+  if (error) throw error;
+
+  return NextResponse.json({ success: true });
+}
+
+export const PATCH = apiRoute("PATCH /api/lists/[id]", updateList);
+export const DELETE = apiRoute("DELETE /api/lists/[id]", deleteList);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../lib/supabase/server";
+import { apiRoute } from "../../../lib/api/route";
+import { apiError } from "../../../lib/api/errors";
+import { loadOwnedList, loadUserLists, MAX_LISTS_PER_USER } from "../../../lib/lists";
+import {
+  createListRequestSchema,
+  parseRequest,
+  type ListResponse,
+  type ListsResponse,
+} from "../../../lib/api/contracts";
+
+// The signed-in user's lists, oldest first, each with its cafés in order
+async function getLists(req: NextRequest) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to see your lists");
+  }
+
+  const lists = await loadUserLists(supabaseAdmin(), user.id);
+  return NextResponse.json<ListsResponse>({ lists });
+}
+
+async function createList(req: NextRequest) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to create a list");
+  }
+
+  const parsed = parseRequest(createListRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const supabase = supabaseAdmin();
+
+  const { count, error: countErr } = await supabase
+    .from("cafe_lists")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", user.id);
+
+  if (countErr) throw countErr;
+  if ((count ?? 0) >= MAX_LISTS_PER_USER) {
+    return apiError(400, "invalid_request", `You can have at most ${MAX_LISTS_PER_USER} lists`);
+  }
+
+  const { data: created, error } = await supabase
+    .from("cafe_lists")
+    .insert({ user_id: user.id, name: parsed.data.name })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+
+  const list = await loadOwnedList(supabase, user.id, created.id);
+  return NextResponse.json<ListResponse>({ list: list! }, { status: 201 });
+}
+
+export const GET = apiRoute("GET /api/lists", getLists);
+export const POST = apiRoute("POST /api/lists", createList);
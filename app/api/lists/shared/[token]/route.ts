@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { loadSharedList } from "../../../../../lib/lists";
+import type { SharedListResponse } from "../../../../../lib/api/contracts";
+
+// Public, read-only view of a list behind its share link. No sign-in; the
+// token is the credential, and revoking sharing makes this a 404.
+async function getSharedList(
+  _req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const list = await loadSharedList(supabaseAdmin(), token);
+  if (!list) {
+    return apiError(404, "not_found", "List not found");
+  }
+
+  return NextResponse.json<SharedListResponse>(
+    { list: { name: list.name, updated_at: list.updated_at, cafes: list.cafes } },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export const GET = apiRoute("GET /api/lists/shared/[token]", getSharedList);
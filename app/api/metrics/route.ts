@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { renderMetrics } from "../../../lib/metrics";
+import { apiRoute } from "../../../lib/api/route";
+import { apiError } from "../../../lib/api/errors";
+import { hasBearerSecret } from "../../../lib/api/bearer";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Prometheus scrape endpoint, for "Authorization: Bearer $METRICS_TOKEN".
+// Disabled while METRICS_TOKEN is unset.
+async function getMetrics(req: NextRequest) {
+  // Metrics give away traffic and failure patterns: no token, no access
+  if (!hasBearerSecret(req, process.env.METRICS_TOKEN)) {
+    return apiError(401, "unauthorized", "Invalid or missing metrics token");
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export const GET = apiRoute("GET /api/metrics", getMetrics, { rateLimit: false });
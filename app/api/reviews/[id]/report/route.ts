@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, supabaseAdmin } from "../../../../../lib/supabase/server";
+import { apiRoute } from "../../../../../lib/api/route";
+import { apiError } from "../../../../../lib/api/errors";
+import { userRateLimit } from "../../../../../lib/rateLimit";
+import { isUuid } from "../../../../../lib/ids";
+import { log } from "../../../../../lib/log";
+import { reviewsModerated } from "../../../../../lib/metrics";
+import { reportThreshold } from "../../../../../lib/reviews/reviews";
+import { parseRequest, reportReviewRequestSchema } from "../../../../../lib/api/contracts";
+
+// Flag a review. One report per user per review (repeats are no-ops); enough
+// of them pull an approved review off the café until a moderator decides.
+async function reportReview(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return apiError(401, "unauthorized", "Sign in to report a review");
+  }
+
+  const parsed = parseRequest(reportReviewRequestSchema, await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return apiError(400, "invalid_request", parsed.error);
+  }
+
+  const { id } = await params;
+  const supabase = supabaseAdmin();
+
+  // Only what the public can see can be reported
+  const { data: review, error: reviewErr } = isUuid(id)
+    ? await supabase
+        .from("cafe_reviews")
+        .select("id, user_id, status")
+        .eq("id", id)
+        .eq("status", "approved")
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (reviewErr) throw reviewErr;
+  if (!review) {
+    return apiError(404, "not_found", "Review not found");
+  }
+  if (review.user_id === user.id) {
+    return apiError(400, "invalid_request", "You can't report your own review");
+  }
+
+  // Charged only for reports that would actually be stored
+  const limited = await userRateLimit(req, "POST /api/reviews/[id]/report", user.id);
+  if (limited) return limited;
+
+  const { error: reportErr } = await supabase
+    .from("cafe_review_reports")
+    .upsert(
+      { review_id: id, user_id: user.id, reason: parsed.data.reason },
+      { onConflict: "review_id,user_id", ignoreDuplicates: true }
+    );
+  if (reportErr) throw reportErr;
+
+  const { count, error: countErr } = await supabase
+    .from("cafe_review_reports")
+    .select("*", { count: "exact", head: true })
+    .eq("review_id", id);
+  if (countErr) throw countErr;
+
+  const reports = count ?? 0;
+  const requeue = reports >= reportThreshold();
+  const { error: updateErr } = await supabase
+    .from("cafe_reviews")
+    .update(
+      requeue
+        ? { report_count: reports, status: "pending", moderation_reason: "reported" }
+        : { report_count: reports }
+    )
+    .eq("id", id);
+  if (updateErr) throw updateErr;
+
+  if (requeue) {
+    reviewsModerated.inc({ action: "requeued" });
+    log.info("review.requeued", { reviewId: id, reports });
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+export const POST = apiRoute("POST /api/reviews/[id]/report", reportReview);
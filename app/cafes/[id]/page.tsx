@@ -0,0 +1,224 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import BusyHeatmap from "../../components/BusyHeatmap";
+import CheckinForm from "../../components/CheckinForm";
+import ReviewsSection from "../../components/ReviewsSection";
+import {
+  attributePills,
+  formatRating,
+  mapsLink,
+  pillStyle,
+  priceLabel,
+  quietKind,
+  quietLabel,
+} from "../../components/cafeFormat";
+import { useSupabaseSession } from "../../../lib/supabase/browser";
+import { fetchApi } from "../../../lib/api/client";
+import {
+  cafeDetailResponseSchema,
+  type CafeDetailResponse,
+  type PublicCheckin,
+} from "../../../lib/api/contracts";
+
+const cardStyle: React.CSSProperties = {
+  marginTop: 14,
+  padding: 14,
+  borderRadius: 16,
+  border: "1px solid rgba(0,0,0,0.10)",
+  background: "rgba(255,255,255,0.8)",
+};
+
+function ratingText(c: PublicCheckin) {
+  const parts = [
+    c.noise_level != null ? `noise ${c.noise_level}` : null,
+    c.crowdedness != null ? `crowd ${c.crowdedness}` : null,
+    c.seat_availability != null ? `seats ${c.seat_availability}` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "no ratings";
+}
+
+function HourlyBars({ counts }: { counts: number[] }) {
+  const max = Math.max(1, ...counts);
+  return (
+    <div>
+      <div style={{ display: "flex", alignItems: "flex-end", gap: 3, height: 80 }}>
+        {counts.map((n, hour) => (
+          <div
+            key={hour}
+            title={`${hour}:00 – ${n} check-in${n === 1 ? "" : "s"}`}
+            style={{
+              flex: 1,
+              height: `${Math.max(2, (n / max) * 100)}%`,
+              borderRadius: 3,
+              background: n ? "rgba(0,0,0,0.55)" : "rgba(0,0,0,0.08)",
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, opacity: 0.6, marginTop: 4 }}>
+        <span>0h</span>
+        <span>6h</span>
+        <span>12h</span>
+        <span>18h</span>
+        <span>23h</span>
+      </div>
+    </div>
+  );
+}
+
+export default function CafePage() {
+  const { id } = useParams<{ id: string }>();
+  const { session } = useSupabaseSession();
+
+  const [data, setData] = useState<CafeDetailResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchApi(`/api/cafes/${encodeURIComponent(id)}`, cafeDetailResponseSchema)
+      .then((json) => {
+        if (!cancelled) setData(json);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? "Something went wrong.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, version]);
+
+  const cafe = data?.cafe;
+  const pills = cafe ? attributePills(cafe.attributes) : [];
+
+  return (
+    <main style={{ minHeight: "100vh", padding: "40px 16px" }}>
+      <div style={{ maxWidth: 760, margin: "0 auto" }}>
+        <Link href="/" style={{ fontSize: 13, color: "rgba(0,0,0,0.7)" }}>
+          ← Back to results
+        </Link>
+
+        {error && (
+          <div
+            style={{
+              marginTop: 14,
+              padding: 12,
+              borderRadius: 12,
+              border: "1px solid rgba(220, 20, 60, 0.25)",
+              background: "rgba(220, 20, 60, 0.06)",
+              color: "crimson",
+            }}
+          >
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {!cafe && !error && <div style={{ marginTop: 14, opacity: 0.7 }}>Loading…</div>}
+
+        {cafe && data && (
+          <>
+            <section style={cardStyle}>
+              <h1 style={{ fontSize: 24, margin: 0, letterSpacing: -0.3 }}>{cafe.name}</h1>
+              <div style={{ marginTop: 4, fontSize: 13, opacity: 0.8 }}>
+                {cafe.address ?? "No address"}
+              </div>
+
+              {cafe.permanently_closed && (
+                <div style={{ marginTop: 8, fontSize: 13, color: "crimson" }}>
+                  Permanently closed, according to Google.
+                </div>
+              )}
+
+              <div style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
+                <span style={pillStyle(quietKind(cafe))}>{quietLabel(cafe)}</span>
+                <span style={pillStyle("neutral")}>
+                  {formatRating(cafe.google_rating, cafe.user_ratings_total)}
+                </span>
+                <span style={pillStyle("neutral")}>{priceLabel(cafe.price_level)}</span>
+                <a href={mapsLink(cafe)} target="_blank" rel="noreferrer" style={pillStyle("neutral")}>
+                  Open in Maps ↗
+                </a>
+              </div>
+
+              {pills.length > 0 && (
+                <div style={{ marginTop: 8, display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  {pills.map((p) => (
+                    <span key={p.label} style={pillStyle(p.kind)}>
+                      {p.label}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {cafe.opening_hours?.weekdayDescriptions?.length ? (
+                <ul style={{ margin: "12px 0 0", paddingLeft: 18, fontSize: 13, opacity: 0.8 }}>
+                  {cafe.opening_hours.weekdayDescriptions.map((d) => (
+                    <li key={d}>{d}</li>
+                  ))}
+                </ul>
+              ) : null}
+            </section>
+
+            <section style={cardStyle}>
+              <div style={{ fontWeight: 600 }}>Check in</div>
+              <CheckinForm
+                cafeId={cafe.id}
+                session={session}
+                onCheckedIn={() => setVersion((v) => v + 1)}
+              />
+              {!session && (
+                <div style={{ marginTop: 6, fontSize: 12, opacity: 0.7 }}>
+                  Sign in on the <Link href="/">home page</Link> to check in.
+                </div>
+              )}
+            </section>
+
+            <section style={cardStyle}>
+              <div style={{ fontWeight: 600, marginBottom: 6 }}>Reviews</div>
+              <ReviewsSection cafeId={cafe.id} session={session} />
+            </section>
+
+            <section style={cardStyle}>
+              <div style={{ fontWeight: 600, marginBottom: 8 }}>
+                Check-ins by hour (last {data.hourlyHistogram.days} days, local time)
+              </div>
+              <HourlyBars counts={data.hourlyHistogram.counts} />
+            </section>
+
+            <section style={cardStyle}>
+              <div style={{ fontWeight: 600, marginBottom: 8 }}>Busy hours by weekday</div>
+              <BusyHeatmap cafeId={cafe.id} refreshKey={version} />
+            </section>
+
+            <section style={cardStyle}>
+              <div style={{ fontWeight: 600, marginBottom: 6 }}>Recent check-ins</div>
+              {data.recentCheckins.length === 0 ? (
+                <div style={{ fontSize: 13, opacity: 0.6 }}>No check-ins yet.</div>
+              ) : (
+                <ul style={{ margin: 0, paddingLeft: 18, fontSize: 13 }}>
+                  {data.recentCheckins.map((c) => (
+                    <li key={c.id} style={{ marginTop: 2 }}>
+                      {new Date(c.created_at).toLocaleString()}{" "}
+                      <span style={{ opacity: 0.65 }}>
+                        · {ratingText(c)}
+                        {c.verification_status && c.verification_status !== "verified"
+                          ? ` · ${c.verification_status}`
+                          : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { authHeaders, supabaseBrowser } from "../../lib/supabase/browser";
+import { fetchApi } from "../../lib/api/client";
+import { myCheckinsResponseSchema, type MyCheckin } from "../../lib/api/contracts";
+
+const inputStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,0.2)",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+};
+
+// Sign-in/out plus the signed-in user's check-in history.
+// refreshKey bumps whenever the page records a new check-in.
+export default function AccountPanel({
+  session,
+  refreshKey,
+}: {
+  session: Session | null;
+  refreshKey: number;
+}) {
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [history, setHistory] = useState<MyCheckin[] | null>(null);
+
+  useEffect(() => {
+    if (!session) {
+      setHistory(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchApi("/api/checkins?limit=10", myCheckinsResponseSchema, {
+      headers: authHeaders(session),
+    })
+      .then((json) => {
+        if (!cancelled) setHistory(json.checkins);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setMessage(e?.message ?? "Could not load your check-ins.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session, refreshKey]);
+
+  async function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+    setSending(true);
+
+    try {
+      const { error } = await supabaseBrowser().auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: window.location.href },
+      });
+      if (error) throw error;
+      setMessage("Check your email for a sign-in link.");
+    } catch (e: any) {
+      setMessage(e?.message ?? "Could not send sign-in link.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function signOut() {
+    setMessage(null);
+    await supabaseBrowser().auth.signOut();
+  }
+
+  return (
+    <section
+      style={{
+        marginTop: 14,
+        padding: 12,
+        borderRadius: 14,
+        border: "1px solid rgba(0,0,0,0.08)",
+        background: "rgba(255,255,255,0.6)",
+        fontSize: 13,
+      }}
+    >
+      {session ? (
+        <>
+          <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+            <span style={{ opacity: 0.8 }}>
+              Signed in as <strong>{session.user.email ?? "you"}</strong>
+            </span>
+            <button onClick={signOut} style={{ ...buttonStyle, marginLeft: "auto" }}>
+              Sign out
+            </button>
+          </div>
+
+          <div style={{ marginTop: 10 }}>
+            <div style={{ fontWeight: 600, marginBottom: 6 }}>My recent check-ins</div>
+            {history == null ? (
+              <div style={{ opacity: 0.6 }}>Loading…</div>
+            ) : history.length === 0 ? (
+              <div style={{ opacity: 0.6 }}>No check-ins yet.</div>
+            ) : (
+              <ul style={{ margin: 0, paddingLeft: 18 }}>
+                {history.map((c) => (
+                  <li key={c.id} style={{ marginTop: 2 }}>
+                    {c.cafe?.name ?? "Unknown café"}{" "}
+                    <span style={{ opacity: 0.6 }}>
+                      · {new Date(c.created_at).toLocaleString()}
+                      {c.verification_status && c.verification_status !== "verified"
+                        ? ` · ${c.verification_status}`
+                        : ""}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      ) : (
+        <form onSubmit={signIn} style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <span style={{ opacity: 0.8 }}>Sign in to check in:</span>
+          <input
+            type="email"
+            required
+            placeholder="you@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            style={{ ...inputStyle, flex: 1, minWidth: 180 }}
+          />
+          <button type="submit" disabled={sending} style={buttonStyle}>
+            {sending ? "Sending…" : "Email me a link"}
+          </button>
+        </form>
+      )}
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+    </section>
+  );
+}
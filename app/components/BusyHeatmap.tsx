@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import { fetchApi } from "../../lib/api/client";
+import { busyHoursResponseSchema, type BusyHoursResponse } from "../../lib/api/contracts";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Darker = more check-ins in that weekday/hour slot (café local time)
+function cellColor(n: number, max: number) {
+  if (!n) return "rgba(0,0,0,0.04)";
+  return `rgba(0,0,0,${(0.12 + 0.7 * (n / max)).toFixed(2)})`;
+}
+
+export default function BusyHeatmap({ cafeId, refreshKey }: { cafeId: string; refreshKey?: number }) {
+  const [data, setData] = useState<BusyHoursResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchApi(`/api/cafes/${encodeURIComponent(cafeId)}/busy-hours`, busyHoursResponseSchema)
+      .then((json) => {
+        if (!cancelled) setData(json);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? "Could not load busy hours.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cafeId, refreshKey]);
+
+  if (error) return <div style={{ fontSize: 13, color: "crimson" }}>{error}</div>;
+  if (!data) return <div style={{ fontSize: 13, opacity: 0.6 }}>Loading…</div>;
+  if (data.total === 0) {
+    return <div style={{ fontSize: 13, opacity: 0.6 }}>Not enough check-ins yet.</div>;
+  }
+
+  const max = Math.max(1, ...data.counts.flat());
+
+  return (
+    <div style={{ overflowX: "auto" }}>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "32px repeat(24, minmax(12px, 1fr))",
+          gap: 2,
+          fontSize: 10,
+          minWidth: 420,
+        }}
+      >
+        <span />
+        {Array.from({ length: 24 }, (_, h) => (
+          <span key={h} style={{ textAlign: "center", opacity: 0.6 }}>
+            {h % 6 === 0 ? h : ""}
+          </span>
+        ))}
+
+        {data.counts.map((row, d) => (
+          <React.Fragment key={d}>
+            <span style={{ opacity: 0.7 }}>{WEEKDAYS[d]}</span>
+            {row.map((n, h) => {
+              const quiet = data.quiet[d]![h];
+              return (
+                <span
+                  key={h}
+                  title={`${WEEKDAYS[d]} ${h}:00 – ${n} check-in${n === 1 ? "" : "s"}${
+                    quiet != null ? `, quiet ${quiet}` : ""
+                  }`}
+                  style={{ height: 14, borderRadius: 3, background: cellColor(n, max) }}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      <div style={{ marginTop: 6, fontSize: 11, opacity: 0.6 }}>
+        Last {data.days} days · {data.total} check-ins · local time
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import type { Session } from "@supabase/supabase-js";
+import CheckinForm from "./CheckinForm";
+import SaveControl from "./SaveControl";
+import {
+  attributePills,
+  formatRating,
+  mapsLink,
+  pillStyle,
+  priceLabel,
+  quietKind,
+  quietLabel,
+} from "./cafeFormat";
+import type { CafeListItem } from "../../lib/api/contracts";
+
+function quietAtLabel(p: NonNullable<CafeListItem["quiet_at"]>) {
+  const when = new Date(p.at).toLocaleString([], { weekday: "short", hour: "numeric" });
+  const busy = `${Math.round(p.busyness * 100)}% busy`;
+  if (p.predicted_quiet_score == null) return `${when}: ${busy}`;
+  return `${when}: quiet ${p.predicted_quiet_score} · ${busy}`;
+}
+
+function reviewSnippet(body: string) {
+  return body.length > 140 ? `${body.slice(0, 139).trimEnd()}…` : body;
+}
+
+function formatDistance(m: number) {
+  return m < 1000 ? `${m} m` : `${(m / 1000).toFixed(1)} km`;
+}
+
+// One café in the results, used by both the grid and the map popup
+export default function CafeCard({
+  cafe: c,
+  session,
+  checkingIn,
+  onToggleCheckIn,
+  onCheckedIn,
+  onSavedChange,
+  onClose,
+}: {
+  cafe: CafeListItem;
+  session: Session | null;
+  checkingIn: boolean;
+  onToggleCheckIn: () => void;
+  onCheckedIn: () => void;
+  onSavedChange: (saved: boolean) => void;
+  // Shows a close button (map popup)
+  onClose?: () => void;
+}) {
+  const pills = attributePills(c.attributes);
+
+  return (
+    <article
+      style={{
+        borderRadius: 16,
+        border: "1px solid rgba(0,0,0,0.10)",
+        background: "rgba(255,255,255,0.8)",
+        padding: 14,
+        boxShadow: "0 10px 22px rgba(0,0,0,0.05)",
+      }}
+    >
+      <div style={{ display: "flex", gap: 10, alignItems: "flex-start" }}>
+        <div style={{ flex: 1 }}>
+          <Link
+            href={`/cafes/${c.id}`}
+            style={{ fontWeight: 700, letterSpacing: -0.2, color: "inherit", textDecoration: "none" }}
+          >
+            {c.name}
+          </Link>
+          <div style={{ marginTop: 4, fontSize: 13, opacity: 0.8 }}>
+            {c.address ?? "No address"}
+          </div>
+        </div>
+        <div style={{ textAlign: "right", fontSize: 12, opacity: 0.85 }}>
+          <div>{formatRating(c.google_rating, c.user_ratings_total)}</div>
+          <div style={{ marginTop: 2 }}>{priceLabel(c.price_level)}</div>
+          <div style={{ marginTop: 2 }}>{formatDistance(c.distance_m)}</div>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            style={{
+              border: "none",
+              background: "transparent",
+              cursor: "pointer",
+              fontSize: 16,
+              lineHeight: 1,
+              opacity: 0.6,
+            }}
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      <div style={{ marginTop: 8 }}>
+        <span style={pillStyle(quietKind(c))}>{quietLabel(c)}</span>
+        {c.open_now != null && (
+          <span style={{ ...pillStyle(c.open_now ? "ok" : "neutral"), marginLeft: 6 }}>
+            {c.open_now ? "Open now" : "Closed"}
+          </span>
+        )}
+        {c.quiet_at && (
+          <span style={{ ...pillStyle("neutral"), marginLeft: 6 }}>{quietAtLabel(c.quiet_at)}</span>
+        )}
+      </div>
+
+      {pills.length > 0 && (
+        <div style={{ marginTop: 6, display: "flex", gap: 6, flexWrap: "wrap" }}>
+          {pills.map((p) => (
+            <span key={p.label} style={pillStyle(p.kind)}>
+              {p.label}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {c.reviews.latest && (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          <span style={{ opacity: 0.85 }}>“{reviewSnippet(c.reviews.latest.body)}”</span>{" "}
+          <Link href={`/cafes/${c.id}`} style={{ fontSize: 12, color: "rgba(0,0,0,0.6)" }}>
+            {c.reviews.count} review{c.reviews.count === 1 ? "" : "s"}
+            {c.reviews.avg_rating != null ? ` · ★ ${c.reviews.avg_rating.toFixed(1)}` : ""}
+          </Link>
+        </div>
+      )}
+
+      <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center" }}>
+        <a
+          href={mapsLink(c)}
+          target="_blank"
+          rel="noreferrer"
+          style={{
+            fontSize: 13,
+            textDecoration: "none",
+            padding: "8px 10px",
+            borderRadius: 12,
+            border: "1px solid rgba(0,0,0,0.12)",
+            background: "rgba(0,0,0,0.03)",
+            color: "rgba(0,0,0,0.85)",
+          }}
+        >
+          Open in Maps ↗
+        </a>
+
+        <SaveControl cafeId={c.id} saved={c.saved} session={session} onChange={onSavedChange} />
+
+        <button
+          onClick={onToggleCheckIn}
+          style={{
+            fontSize: 13,
+            padding: "8px 10px",
+            borderRadius: 12,
+            border: "1px solid rgba(0,0,0,0.12)",
+            background: checkingIn ? "rgba(0,0,0,0.06)" : "rgba(0, 128, 0, 0.1)",
+            color: checkingIn ? "rgba(0,0,0,0.5)" : "rgba(0, 128, 0, 0.9)",
+            cursor: "pointer",
+            fontWeight: 500,
+          }}
+        >
+          {checkingIn ? "Cancel" : "✓ Check in"}
+        </button>
+
+        <div style={{ marginLeft: "auto", fontSize: 12, opacity: 0.65 }}>
+          {c.types?.includes("cafe") ? "cafe" : ""}
+        </div>
+      </div>
+
+      {checkingIn && <CheckinForm cafeId={c.id} session={session} onCheckedIn={onCheckedIn} />}
+    </article>
+  );
+}
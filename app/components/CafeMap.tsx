@@ -0,0 +1,281 @@
+"use client";
+
+import React from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { LatLng } from "../../lib/geo";
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  TILE_SIZE,
+  mapTileConfig,
+  metersPerPixel,
+  project,
+  tileUrl,
+  unproject,
+  zoomForRadius,
+} from "../../lib/map";
+import type { CafeListItem } from "../../lib/api/contracts";
+
+export type MarkerColorBy = "quiet" | "rating";
+
+const MAP_HEIGHT = 420;
+const NO_DATA_COLOR = "#9a9a9a";
+
+// Red (0) → amber → green (1)
+function scaleColor(t: number) {
+  const hue = Math.round(Math.max(0, Math.min(1, t)) * 120);
+  return `hsl(${hue}, 65%, 42%)`;
+}
+
+export function markerColor(c: CafeListItem, by: MarkerColorBy) {
+  if (by === "rating") {
+    // Almost everything on Google is 3.5–5, so stretch that range
+    return c.google_rating == null ? NO_DATA_COLOR : scaleColor((c.google_rating - 3) / 2);
+  }
+  if (c.quiet_score == null || c.quiet_confidence < 0.3) return NO_DATA_COLOR;
+  return scaleColor(c.quiet_score / 100);
+}
+
+// Dependency-free slippy map: raster XYZ tiles (OSM by default, see
+// NEXT_PUBLIC_MAP_TILE_URL) with an SVG overlay for the search circle,
+// the user's location and café markers. Drag to pan; onMoveEnd reports
+// the new center once the drag ends.
+export default function CafeMap({
+  center,
+  radiusM,
+  userLocation,
+  cafes,
+  colorBy,
+  selectedId,
+  onSelect,
+  onMoveEnd,
+}: {
+  // Center of the current search; the radius circle is drawn around it
+  center: LatLng;
+  radiusM: number;
+  userLocation: LatLng | null;
+  cafes: CafeListItem[];
+  colorBy: MarkerColorBy;
+  selectedId: string | null;
+  onSelect: (cafeId: string | null) => void;
+  onMoveEnd: (center: LatLng) => void;
+}) {
+  const tiles = useMemo(mapTileConfig, []);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<{ center: LatLng; zoom: number } | null>(null);
+  const drag = useRef<{ x: number; y: number; origin: { x: number; y: number }; moved: boolean } | null>(
+    null
+  );
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry!.contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Recenter (and refit the zoom) whenever a new search area comes in
+  useEffect(() => {
+    if (!width) return;
+    setView({
+      center,
+      zoom: zoomForRadius(center.lat, radiusM, Math.min(width, MAP_HEIGHT)),
+    });
+  }, [center.lat, center.lng, radiusM, width]);
+
+  if (!view || !width) {
+    return <div ref={containerRef} style={{ height: MAP_HEIGHT, borderRadius: 16 }} />;
+  }
+
+  const { zoom } = view;
+  const mid = project(view.center, zoom);
+  const left = mid.x - width / 2;
+  const top = mid.y - MAP_HEIGHT / 2;
+  const toScreen = (p: LatLng) => {
+    const pt = project(p, zoom);
+    return { x: pt.x - left, y: pt.y - top };
+  };
+
+  const tileCount = 2 ** zoom;
+  const tileImages: { key: string; src: string; x: number; y: number }[] = [];
+  if (tiles.url) {
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= tileCount) continue;
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tileImages.push({
+          key: `${zoom}/${tx}/${ty}`,
+          src: tileUrl(tiles.url, zoom, wrappedX, ty),
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  const circleCenter = toScreen(center);
+  const circleR = radiusM / metersPerPixel(center.lat, zoom);
+  const you = userLocation ? toScreen(userLocation) : null;
+
+  function onPointerDown(e: React.PointerEvent<HTMLDivElement>) {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY, origin: mid, moved: false };
+  }
+
+  function onPointerMove(e: React.PointerEvent<HTMLDivElement>) {
+    const d = drag.current;
+    if (!d) return;
+    const dx = e.clientX - d.x;
+    const dy = e.clientY - d.y;
+    if (!d.moved && Math.hypot(dx, dy) < 4) return; // a click, not a drag
+    d.moved = true;
+    setView({ zoom, center: unproject({ x: d.origin.x - dx, y: d.origin.y - dy }, zoom) });
+  }
+
+  function onPointerUp() {
+    const d = drag.current;
+    drag.current = null;
+    if (!d) return;
+    if (d.moved) onMoveEnd(view!.center);
+    else onSelect(null); // click on the map itself
+  }
+
+  function zoomBy(delta: number) {
+    const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom + delta));
+    if (next !== zoom) setView({ center: view!.center, zoom: next });
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      style={{
+        position: "relative",
+        height: MAP_HEIGHT,
+        overflow: "hidden",
+        borderRadius: 16,
+        border: "1px solid rgba(0,0,0,0.10)",
+        touchAction: "none",
+        userSelect: "none",
+        cursor: "grab",
+        // Without tiles this grid is the whole map
+        backgroundColor: "#eef0ea",
+        backgroundImage:
+          "linear-gradient(rgba(0,0,0,0.05) 1px, transparent 1px), linear-gradient(90deg, rgba(0,0,0,0.05) 1px, transparent 1px)",
+        backgroundSize: "32px 32px",
+        backgroundPosition: `${-left % 32}px ${-top % 32}px`,
+      }}
+    >
+      {tileImages.map((t) => (
+        <img
+          key={t.key}
+          src={t.src}
+          alt=""
+          draggable={false}
+          style={{
+            position: "absolute",
+            left: t.x,
+            top: t.y,
+            width: TILE_SIZE,
+            height: TILE_SIZE,
+            pointerEvents: "none",
+          }}
+        />
+      ))}
+
+      <svg
+        width={width}
+        height={MAP_HEIGHT}
+        style={{ position: "absolute", inset: 0 }}
+      >
+        <circle
+          cx={circleCenter.x}
+          cy={circleCenter.y}
+          r={circleR}
+          fill="rgba(30, 90, 200, 0.08)"
+          stroke="rgba(30, 90, 200, 0.6)"
+          strokeWidth={1.5}
+          pointerEvents="none"
+        />
+
+        {cafes.map((c) => {
+          const p = toScreen(c);
+          const selected = c.id === selectedId;
+          return (
+            <circle
+              key={c.place_id}
+              cx={p.x}
+              cy={p.y}
+              r={selected ? 10 : 7}
+              fill={markerColor(c, colorBy)}
+              stroke="white"
+              strokeWidth={selected ? 3 : 2}
+              style={{ cursor: "pointer" }}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onSelect(selected ? null : c.id)}
+            >
+              <title>{c.name}</title>
+            </circle>
+          );
+        })}
+
+        {you && (
+          <g pointerEvents="none">
+            <circle cx={you.x} cy={you.y} r={11} fill="rgba(30, 110, 255, 0.2)" />
+            <circle cx={you.x} cy={you.y} r={6} fill="rgb(30, 110, 255)" stroke="white" strokeWidth={2} />
+          </g>
+        )}
+      </svg>
+
+      <div
+        style={{ position: "absolute", top: 10, right: 10, display: "flex", flexDirection: "column", gap: 4 }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {[
+          { label: "+", delta: 1 },
+          { label: "−", delta: -1 },
+        ].map((b) => (
+          <button
+            key={b.label}
+            onClick={() => zoomBy(b.delta)}
+            aria-label={b.delta > 0 ? "Zoom in" : "Zoom out"}
+            style={{
+              width: 30,
+              height: 30,
+              borderRadius: 8,
+              border: "1px solid rgba(0,0,0,0.15)",
+              background: "white",
+              cursor: "pointer",
+              fontSize: 16,
+              lineHeight: 1,
+            }}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+
+      {tiles.attribution && (
+        <div
+          style={{
+            position: "absolute",
+            right: 0,
+            bottom: 0,
+            padding: "2px 6px",
+            fontSize: 11,
+            background: "rgba(255,255,255,0.75)",
+            pointerEvents: "none",
+          }}
+        >
+          {tiles.attribution}
+        </div>
+      )}
+    </div>
+  );
+}
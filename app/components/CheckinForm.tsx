@@ -0,0 +1,220 @@
+"use client";
+
+import React from "react";
+import { useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { authHeaders } from "../../lib/supabase/browser";
+import { fetchApi } from "../../lib/api/client";
+import { checkinResponseSchema, type CheckinRequest } from "../../lib/api/contracts";
+import { hasAnyAttribute, type AttributeVote } from "../../lib/attributes";
+
+type CheckinRatings = {
+  noiseLevel: number | null;
+  crowdedness: number | null;
+  seatAvailability: number | null;
+};
+
+const EMPTY_RATINGS: CheckinRatings = {
+  noiseLevel: null,
+  crowdedness: null,
+  seatAvailability: null,
+};
+
+const RATING_INPUTS: { field: keyof CheckinRatings; label: string; low: string; high: string }[] = [
+  { field: "noiseLevel", label: "Noise", low: "silent", high: "loud" },
+  { field: "crowdedness", label: "Crowd", low: "empty", high: "packed" },
+  { field: "seatAvailability", label: "Seats", low: "none", high: "plenty" },
+];
+
+const EMPTY_ATTRIBUTES: AttributeVote = {
+  wifi: null,
+  outlets: null,
+  laptops: null,
+  tables: null,
+  calls: null,
+};
+
+// Select value ("" = not rated) for each option
+const ATTRIBUTE_INPUTS: {
+  field: keyof AttributeVote;
+  label: string;
+  options: [string, string][];
+}[] = [
+  { field: "wifi", label: "Wifi", options: [["none", "none"], ["poor", "poor"], ["good", "good"]] },
+  { field: "outlets", label: "Outlets", options: [["true", "yes"], ["false", "no"]] },
+  { field: "laptops", label: "Laptops", options: [["true", "welcome"], ["false", "not welcome"]] },
+  { field: "tables", label: "Tables", options: [["few", "few"], ["some", "some"], ["many", "many"]] },
+  { field: "calls", label: "Calls", options: [["true", "OK"], ["false", "not OK"]] },
+];
+
+function attributeValue(v: string) {
+  if (v === "") return null;
+  if (v === "true" || v === "false") return v === "true";
+  return v;
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderRadius: 8,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+};
+
+// Best-effort fix for geofenced check-ins; null if unavailable or denied
+async function currentLocation(): Promise<{ lat: number; lng: number; accuracy: number } | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) return null;
+  try {
+    const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, {
+        enableHighAccuracy: true,
+        timeout: 8000,
+        maximumAge: 60000,
+      });
+    });
+    return {
+      lat: pos.coords.latitude,
+      lng: pos.coords.longitude,
+      accuracy: pos.coords.accuracy,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Noise/crowd/seat ratings, optional workspace details (wifi, outlets, ...)
+// + submit; posts to /api/checkins with the caller's session and current
+// location.
+export default function CheckinForm({
+  cafeId,
+  session,
+  onCheckedIn,
+}: {
+  cafeId: string;
+  session: Session | null;
+  onCheckedIn?: () => void;
+}) {
+  const [ratings, setRatings] = useState<CheckinRatings>(EMPTY_RATINGS);
+  const [attributes, setAttributes] = useState<AttributeVote>(EMPTY_ATTRIBUTES);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function submit() {
+    if (!session) {
+      alert("Sign in to check in.");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const location = await currentLocation();
+      const body: CheckinRequest = {
+        cafeId,
+        ...ratings,
+        ...location,
+        attributes: hasAnyAttribute(attributes) ? attributes : null,
+      };
+      const json = await fetchApi("/api/checkins", checkinResponseSchema, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(session),
+        },
+        body: JSON.stringify(body),
+      });
+
+      // Success! You could show a toast notification here
+      setRatings(EMPTY_RATINGS);
+      setAttributes(EMPTY_ATTRIBUTES);
+      onCheckedIn?.();
+      alert(
+        json.checkIn.verification_status === "verified"
+          ? "Checked in successfully!"
+          : "Checked in! We couldn't confirm you're at this café, so it counts for less."
+      );
+    } catch (e: any) {
+      const msg =
+        e?.message ||
+        (typeof e === "string" ? e : "Something went wrong checking in.");
+      alert(`Error: ${msg}`);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: 10,
+        padding: 10,
+        borderRadius: 12,
+        border: "1px solid rgba(0,0,0,0.10)",
+        background: "rgba(0,0,0,0.02)",
+        display: "flex",
+        flexWrap: "wrap",
+        gap: 8,
+        alignItems: "center",
+      }}
+    >
+      {RATING_INPUTS.map((r) => (
+        <label key={r.field} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+          <span style={{ opacity: 0.8 }}>{r.label}</span>
+          <select
+            value={ratings[r.field] ?? ""}
+            onChange={(e) =>
+              setRatings((prev) => ({
+                ...prev,
+                [r.field]: e.target.value ? Number(e.target.value) : null,
+              }))
+            }
+            style={selectStyle}
+          >
+            <option value="">–</option>
+            <option value={1}>1 ({r.low})</option>
+            <option value={2}>2</option>
+            <option value={3}>3</option>
+            <option value={4}>4</option>
+            <option value={5}>5 ({r.high})</option>
+          </select>
+        </label>
+      ))}
+
+      <div style={{ flexBasis: "100%", fontSize: 12, opacity: 0.7 }}>Workspace (optional)</div>
+      {ATTRIBUTE_INPUTS.map((a) => (
+        <label key={a.field} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+          <span style={{ opacity: 0.8 }}>{a.label}</span>
+          <select
+            value={attributes[a.field] == null ? "" : String(attributes[a.field])}
+            onChange={(e) =>
+              setAttributes((prev) => ({ ...prev, [a.field]: attributeValue(e.target.value) }))
+            }
+            style={selectStyle}
+          >
+            <option value="">–</option>
+            {a.options.map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <button
+        onClick={submit}
+        disabled={submitting}
+        style={{
+          marginLeft: "auto",
+          fontSize: 12,
+          padding: "6px 10px",
+          borderRadius: 10,
+          border: "1px solid rgba(0,0,0,0.2)",
+          background: submitting ? "rgba(0,0,0,0.06)" : "rgba(0,0,0,0.9)",
+          color: submitting ? "rgba(0,0,0,0.6)" : "white",
+          cursor: submitting ? "not-allowed" : "pointer",
+        }}
+      >
+        {submitting ? "Checking in..." : "Submit"}
+      </button>
+    </div>
+  );
+}
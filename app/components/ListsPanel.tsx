@@ -0,0 +1,189 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Session } from "@supabase/supabase-js";
+import { authHeaders } from "../../lib/supabase/browser";
+import { fetchApi } from "../../lib/api/client";
+import {
+  listResponseSchema,
+  listsResponseSchema,
+  type CafeList,
+} from "../../lib/api/contracts";
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: "2px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 12,
+};
+
+// The signed-in user's saved lists: reorder/remove cafés, share, delete.
+// refreshKey bumps whenever a card saves or unsaves a café.
+export default function ListsPanel({
+  session,
+  refreshKey,
+}: {
+  session: Session | null;
+  refreshKey: number;
+}) {
+  const [lists, setLists] = useState<CafeList[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) {
+      setLists(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchApi("/api/lists", listsResponseSchema, { headers: authHeaders(session) })
+      .then((json) => {
+        if (!cancelled) setLists(json.lists);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setMessage(e?.message ?? "Could not load your lists.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session, refreshKey]);
+
+  if (!session || !lists || lists.length === 0) return null;
+
+  async function update(listId: string, path: string, init: RequestInit) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { list } = await fetchApi(`/api/lists/${listId}${path}`, listResponseSchema, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...authHeaders(session) },
+      });
+      setLists((prev) => prev && prev.map((l) => (l.id === list.id ? list : l)));
+    } catch (e: any) {
+      setMessage(e?.message ?? "Could not update the list.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function move(list: CafeList, index: number, by: -1 | 1) {
+    const ids = list.cafes.map((c) => c.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + by, 0, id!);
+    return update(list.id, "/items", { method: "PUT", body: JSON.stringify({ cafeIds: ids }) });
+  }
+
+  async function remove(list: CafeList) {
+    if (!confirm(`Delete “${list.name}”?`)) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/lists/${list.id}`, {
+        method: "DELETE",
+        headers: authHeaders(session),
+      });
+      if (!res.ok) throw new Error(`Could not delete the list (${res.status})`);
+      setLists((prev) => prev && prev.filter((l) => l.id !== list.id));
+    } catch (e: any) {
+      setMessage(e?.message ?? "Could not delete the list.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section
+      style={{
+        marginTop: 14,
+        padding: 12,
+        borderRadius: 14,
+        border: "1px solid rgba(0,0,0,0.08)",
+        background: "rgba(255,255,255,0.6)",
+        fontSize: 13,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>My lists</div>
+
+      {lists.map((list) => (
+        <div key={list.id} style={{ marginTop: 10 }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <strong>{list.name}</strong>
+            <span style={{ opacity: 0.6 }}>
+              {list.cafes.length} café{list.cafes.length === 1 ? "" : "s"}
+            </span>
+            <label style={{ marginLeft: "auto", display: "flex", alignItems: "center", gap: 4 }}>
+              <input
+                type="checkbox"
+                checked={list.shareToken != null}
+                disabled={busy}
+                onChange={(e) =>
+                  update(list.id, "", {
+                    method: "PATCH",
+                    body: JSON.stringify({ shared: e.target.checked }),
+                  })
+                }
+              />
+              Public link
+            </label>
+            <button onClick={() => remove(list)} disabled={busy} style={smallButtonStyle}>
+              Delete
+            </button>
+          </div>
+
+          {list.shareToken && (
+            <div style={{ marginTop: 4, fontSize: 12, opacity: 0.75 }}>
+              <Link href={`/lists/${list.shareToken}`}>/lists/{list.shareToken}</Link>
+            </div>
+          )}
+
+          {list.cafes.length > 0 && (
+            <ol style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+              {list.cafes.map((c, i) => (
+                <li key={c.id} style={{ marginTop: 2 }}>
+                  <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                    <Link href={`/cafes/${c.id}`} style={{ color: "inherit", flex: 1 }}>
+                      {c.name}
+                    </Link>
+                    <button
+                      onClick={() => move(list, i, -1)}
+                      disabled={busy || i === 0}
+                      aria-label="Move up"
+                      style={smallButtonStyle}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(list, i, 1)}
+                      disabled={busy || i === list.cafes.length - 1}
+                      aria-label="Move down"
+                      style={smallButtonStyle}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => update(list.id, `/items/${c.id}`, { method: "DELETE" })}
+                      disabled={busy}
+                      aria-label="Remove"
+                      style={smallButtonStyle}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { authHeaders } from "../../lib/supabase/browser";
+import { fetchApi } from "../../lib/api/client";
+import {
+  reviewResponseSchema,
+  reviewsResponseSchema,
+  type PublicReviewItem,
+  type ReviewRequest,
+} from "../../lib/api/contracts";
+
+const REPORT_LABELS: Record<string, string> = {
+  spam: "Spam",
+  offensive: "Offensive",
+  off_topic: "Off topic",
+  other: "Other",
+};
+
+const controlStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+  fontSize: 12,
+};
+
+// Approved reviews for a café, plus writing your own and reporting others'
+export default function ReviewsSection({
+  cafeId,
+  session,
+}: {
+  cafeId: string;
+  session: Session | null;
+}) {
+  const [reviews, setReviews] = useState<PublicReviewItem[] | null>(null);
+  const [text, setText] = useState("");
+  const [rating, setRating] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reported, setReported] = useState<Set<string>>(new Set());
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchApi(`/api/cafes/${encodeURIComponent(cafeId)}/reviews`, reviewsResponseSchema)
+      .then((json) => {
+        if (!cancelled) setReviews(json.reviews);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setMessage(e?.message ?? "Could not load reviews.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cafeId, version]);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setMessage(null);
+
+    try {
+      const body: ReviewRequest = { body: text, rating };
+      const { review } = await fetchApi(`/api/cafes/${encodeURIComponent(cafeId)}/reviews`, reviewResponseSchema, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders(session) },
+        body: JSON.stringify(body),
+      });
+
+      setText("");
+      setRating(null);
+      setMessage(
+        review.status === "approved"
+          ? "Thanks for your review!"
+          : "Thanks! Your review will appear once a moderator has checked it."
+      );
+      setVersion((v) => v + 1);
+    } catch (e: any) {
+      setMessage(e?.message ?? "Could not post your review.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function report(reviewId: string, reason: string) {
+    try {
+      const res = await fetch(`/api/reviews/${reviewId}/report`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders(session) },
+        body: JSON.stringify({ reason }),
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error ?? `HTTP ${res.status}`);
+      setReported((prev) => new Set(prev).add(reviewId));
+    } catch (e: any) {
+      setMessage(e?.message ?? "Could not report the review.");
+    }
+  }
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      {reviews == null ? (
+        <div style={{ opacity: 0.6 }}>Loading…</div>
+      ) : reviews.length === 0 ? (
+        <div style={{ opacity: 0.6 }}>No reviews yet.</div>
+      ) : (
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {reviews.map((r) => (
+            <li key={r.id} style={{ padding: "8px 0", borderTop: "1px solid rgba(0,0,0,0.06)" }}>
+              <div>{r.body}</div>
+              <div style={{ marginTop: 4, display: "flex", gap: 8, alignItems: "center", fontSize: 12, opacity: 0.7 }}>
+                {r.rating != null && <span>{"★".repeat(r.rating)}</span>}
+                <span>{new Date(r.created_at).toLocaleDateString()}</span>
+                {session &&
+                  (reported.has(r.id) ? (
+                    <span style={{ marginLeft: "auto" }}>Reported</span>
+                  ) : (
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && report(r.id, e.target.value)}
+                      aria-label="Report this review"
+                      style={{ ...controlStyle, marginLeft: "auto", padding: "2px 4px" }}
+                    >
+                      <option value="">Report…</option>
+                      {Object.entries(REPORT_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {session && (
+        <form onSubmit={submit} style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 6 }}>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="How's it for working? Noise, seats, wifi…"
+            style={{ ...controlStyle, fontSize: 13, resize: "vertical" }}
+          />
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <select
+              value={rating ?? ""}
+              onChange={(e) => setRating(e.target.value ? Number(e.target.value) : null)}
+              style={controlStyle}
+            >
+              <option value="">No rating</option>
+              {[5, 4, 3, 2, 1].map((n) => (
+                <option key={n} value={n}>
+                  {"★".repeat(n)}
+                </option>
+              ))}
+            </select>
+            <span style={{ fontSize: 12, opacity: 0.5 }}>{text.length}/500</span>
+            <button
+              type="submit"
+              disabled={submitting || text.trim().length < 3}
+              style={{ ...controlStyle, marginLeft: "auto", cursor: "pointer" }}
+            >
+              {submitting ? "Posting…" : "Post review"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { authHeaders } from "../../lib/supabase/browser";
+import { fetchApi } from "../../lib/api/client";
+import {
+  listResponseSchema,
+  listsResponseSchema,
+  type CafeList,
+} from "../../lib/api/contracts";
+
+const DEFAULT_LIST_NAME = "Favorites";
+
+const menuButtonStyle: React.CSSProperties = {
+  fontSize: 13,
+  padding: "8px 10px",
+  borderRadius: 12,
+  border: "1px solid rgba(0,0,0,0.12)",
+  cursor: "pointer",
+  fontWeight: 500,
+};
+
+// "Save" on a café card: a menu of the user's lists with a checkbox each,
+// plus creating a new list on the spot. onChange reports whether the café
+// is now in any list.
+export default function SaveControl({
+  cafeId,
+  saved,
+  session,
+  onChange,
+}: {
+  cafeId: string;
+  saved: boolean;
+  session: Session | null;
+  onChange: (saved: boolean) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [lists, setLists] = useState<CafeList[] | null>(null);
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !session) return;
+
+    let cancelled = false;
+    fetchApi("/api/lists", listsResponseSchema, { headers: authHeaders(session) })
+      .then((json) => {
+        if (!cancelled) setLists(json.lists);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? "Could not load your lists.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, session]);
+
+  function replaceList(list: CafeList) {
+    const prev = lists ?? [];
+    const next = prev.some((l) => l.id === list.id)
+      ? prev.map((l) => (l.id === list.id ? list : l))
+      : [...prev, list];
+    setLists(next);
+    onChange(next.some((l) => l.cafes.some((c) => c.id === cafeId)));
+  }
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (e: any) {
+      setError(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggle(list: CafeList) {
+    const inList = list.cafes.some((c) => c.id === cafeId);
+    return run(async () => {
+      const { list: updated } = await fetchApi(
+        inList ? `/api/lists/${list.id}/items/${cafeId}` : `/api/lists/${list.id}/items`,
+        listResponseSchema,
+        {
+          method: inList ? "DELETE" : "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders(session) },
+          body: inList ? undefined : JSON.stringify({ cafeId }),
+        }
+      );
+      replaceList(updated);
+    });
+  }
+
+  function createAndAdd(name: string) {
+    return run(async () => {
+      const headers = { "Content-Type": "application/json", ...authHeaders(session) };
+      const { list } = await fetchApi("/api/lists", listResponseSchema, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ name }),
+      });
+      const { list: updated } = await fetchApi(`/api/lists/${list.id}/items`, listResponseSchema, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ cafeId }),
+      });
+      replaceList(updated);
+      setNewName("");
+    });
+  }
+
+  function onClick() {
+    if (!session) {
+      alert("Sign in to save cafés.");
+      return;
+    }
+    setOpen((v) => !v);
+  }
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        onClick={onClick}
+        aria-expanded={open}
+        style={{
+          ...menuButtonStyle,
+          background: saved ? "rgba(255, 190, 0, 0.15)" : "rgba(0,0,0,0.03)",
+          color: "rgba(0,0,0,0.85)",
+        }}
+      >
+        {saved ? "★ Saved" : "☆ Save"}
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: "absolute",
+            zIndex: 10,
+            top: "calc(100% + 6px)",
+            left: 0,
+            minWidth: 220,
+            padding: 10,
+            borderRadius: 12,
+            border: "1px solid rgba(0,0,0,0.12)",
+            background: "white",
+            boxShadow: "0 10px 22px rgba(0,0,0,0.12)",
+            fontSize: 13,
+          }}
+        >
+          {!lists ? (
+            <div style={{ opacity: 0.7 }}>Loading lists…</div>
+          ) : lists.length === 0 ? (
+            <button
+              onClick={() => createAndAdd(DEFAULT_LIST_NAME)}
+              disabled={busy}
+              style={{ ...menuButtonStyle, width: "100%", background: "rgba(0,0,0,0.03)" }}
+            >
+              Save to “{DEFAULT_LIST_NAME}”
+            </button>
+          ) : (
+            lists.map((l) => (
+              <label key={l.id} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0" }}>
+                <input
+                  type="checkbox"
+                  checked={l.cafes.some((c) => c.id === cafeId)}
+                  disabled={busy}
+                  onChange={() => toggle(l)}
+                />
+                <span>{l.name}</span>
+                <span style={{ marginLeft: "auto", opacity: 0.5 }}>{l.cafes.length}</span>
+              </label>
+            ))
+          )}
+
+          {lists && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newName.trim()) createAndAdd(newName.trim());
+              }}
+              style={{ marginTop: 8, display: "flex", gap: 6 }}
+            >
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New list"
+                maxLength={60}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  padding: "6px 8px",
+                  borderRadius: 8,
+                  border: "1px solid rgba(0,0,0,0.15)",
+                }}
+              />
+              <button type="submit" disabled={busy || !newName.trim()} style={{ ...menuButtonStyle, padding: "6px 8px" }}>
+                Add
+              </button>
+            </form>
+          )}
+
+          {error && <div style={{ marginTop: 6, color: "crimson" }}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
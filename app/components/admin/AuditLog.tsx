@@ -0,0 +1,93 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import { adminAuditResponseSchema, type AuditEntry } from "../../../lib/api/contracts";
+import {
+  adminFetch,
+  buttonStyle,
+  cellStyle,
+  formatTime,
+  inputStyle,
+  tableStyle,
+  type AdminPanelProps,
+} from "./shared";
+
+// Who did what, newest first
+export default function AuditLog({ session }: AdminPanelProps) {
+  const [action, setAction] = useState("");
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function load() {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (action.trim()) params.set("action", action.trim());
+      const json = await adminFetch(session, `/api/admin/audit?${params}`, adminAuditResponseSchema);
+      setEntries(json.entries);
+    } catch (e: any) {
+      setMessage(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load();
+        }}
+        style={{ display: "flex", gap: 8 }}
+      >
+        <input
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          placeholder="Action (cafe.merge, cache.purge, checkin.void, review.hide, ...)"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button type="submit" disabled={busy} style={buttonStyle}>
+          Filter
+        </button>
+      </form>
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+
+      <table style={tableStyle}>
+        <thead>
+          <tr>
+            {["When", "Admin", "Action", "Target", "Details"].map((h) => (
+              <th key={h} style={cellStyle}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((e) => (
+            <tr key={e.id}>
+              <td style={cellStyle}>{formatTime(e.created_at)}</td>
+              <td style={cellStyle}>{e.admin_email ?? e.admin_id}</td>
+              <td style={cellStyle}>{e.action}</td>
+              <td style={{ ...cellStyle, fontFamily: "monospace" }}>
+                {e.target_type}
+                {e.target_id && ` ${e.target_id}`}
+              </td>
+              <td style={{ ...cellStyle, fontFamily: "monospace", whiteSpace: "pre-wrap", maxWidth: 360 }}>
+                {JSON.stringify(e.details)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import {
+  adminCacheResponseSchema,
+  purgeCacheResponseSchema,
+  type AdminCacheEntry,
+} from "../../../lib/api/contracts";
+import {
+  adminFetch,
+  buttonStyle,
+  cellStyle,
+  formatTime,
+  inputStyle,
+  tableStyle,
+  type AdminPanelProps,
+} from "./shared";
+
+// places_cache by key or by area; purging forces the next search upstream
+export default function CacheAdmin({ session }: AdminPanelProps) {
+  const [key, setKey] = useState("");
+  const [area, setArea] = useState({ lat: "", lng: "", radius: "" });
+  const [entries, setEntries] = useState<AdminCacheEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function query() {
+    const params = new URLSearchParams();
+    if (key.trim()) params.set("key", key.trim());
+    for (const [name, value] of Object.entries(area)) {
+      if (value.trim()) params.set(name, value.trim());
+    }
+    return params.toString();
+  }
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMessage(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const list = (q = query()) =>
+    run(async () => {
+      const json = await adminFetch(session, `/api/admin/cache?${q}`, adminCacheResponseSchema);
+      setEntries(json.entries);
+    });
+
+  function purge(q = query()) {
+    if (!confirm("Purge the matching cache entries?")) return;
+    run(async () => {
+      const json = await adminFetch(session, `/api/admin/cache?${q}`, purgeCacheResponseSchema, {
+        method: "DELETE",
+      });
+      const purged = new Set(json.keys);
+      setEntries((prev) => prev.filter((e) => !purged.has(e.cache_key)));
+      setMessage(`Purged ${json.purged} entr${json.purged === 1 ? "y" : "ies"}.`);
+    });
+  }
+
+  useEffect(() => {
+    list("");
+  }, []);
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          list();
+        }}
+        style={{ display: "flex", gap: 8, flexWrap: "wrap" }}
+      >
+        <input
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder="Cache key (nearby:37.761:-122.421:r=1500)"
+          style={{ ...inputStyle, flex: 1, minWidth: 240 }}
+        />
+        <span style={{ alignSelf: "center", opacity: 0.6 }}>or</span>
+        {(["lat", "lng", "radius"] as const).map((name) => (
+          <input
+            key={name}
+            value={area[name]}
+            onChange={(e) => setArea({ ...area, [name]: e.target.value })}
+            placeholder={name === "radius" ? "radius (m)" : name}
+            style={{ ...inputStyle, width: 90 }}
+          />
+        ))}
+        <button type="submit" disabled={busy} style={buttonStyle}>
+          Find
+        </button>
+        <button type="button" disabled={busy} onClick={() => purge()} style={buttonStyle}>
+          Purge
+        </button>
+      </form>
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+
+      <table style={tableStyle}>
+        <thead>
+          <tr>
+            {["Key", "Center", "Radius", "Places", "Fetched", "Expires", ""].map((h) => (
+              <th key={h} style={cellStyle}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((e) => (
+            <tr key={e.cache_key} style={{ opacity: e.expired ? 0.6 : 1 }}>
+              <td style={{ ...cellStyle, fontFamily: "monospace" }}>{e.cache_key}</td>
+              <td style={cellStyle}>
+                {e.lat_center.toFixed(4)}, {e.lng_center.toFixed(4)}
+              </td>
+              <td style={cellStyle}>{e.radius_m} m</td>
+              <td style={cellStyle}>{e.place_count}</td>
+              <td style={cellStyle}>{formatTime(e.fetched_at)}</td>
+              <td style={cellStyle}>
+                {formatTime(e.expires_at)}
+                {e.expired && " (expired)"}
+              </td>
+              <td style={cellStyle}>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => purge(new URLSearchParams({ key: e.cache_key }).toString())}
+                  style={buttonStyle}
+                >
+                  Purge
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import {
+  adminCafeResponseSchema,
+  adminCafesResponseSchema,
+  type AdminCafe,
+  type AdminCafeResponse,
+  type UpdateCafeRequest,
+} from "../../../lib/api/contracts";
+import {
+  adminFetch,
+  buttonStyle,
+  cellStyle,
+  formatTime,
+  inputStyle,
+  tableStyle,
+  type AdminPanelProps,
+} from "./shared";
+
+type Draft = { name: string; address: string; lat: string; lng: string; price_level: string; locked: boolean };
+
+function draftFor(cafe: AdminCafe): Draft {
+  return {
+    name: cafe.name,
+    address: cafe.address ?? "",
+    lat: String(cafe.lat),
+    lng: String(cafe.lng),
+    price_level: cafe.price_level == null ? "" : String(cafe.price_level),
+    locked: cafe.locked,
+  };
+}
+
+// Search, edit (which locks the café against Places refreshes) and merge
+export default function CafesAdmin({ session }: AdminPanelProps) {
+  const [q, setQ] = useState("");
+  const [cafes, setCafes] = useState<AdminCafe[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<AdminCafeResponse | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [duplicateId, setDuplicateId] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMessage(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const search = () =>
+    run(async () => {
+      const json = await adminFetch(
+        session,
+        `/api/admin/cafes?q=${encodeURIComponent(q)}`,
+        adminCafesResponseSchema
+      );
+      setCafes(json.cafes);
+      setTotal(json.total);
+    });
+
+  const open = (id: string) =>
+    run(async () => {
+      const json = await adminFetch(session, `/api/admin/cafes/${id}`, adminCafeResponseSchema);
+      setSelected(json);
+      setDraft(draftFor(json.cafe));
+      setDuplicateId("");
+    });
+
+  // Newest cafés on first load; later searches are explicit
+  useEffect(() => {
+    search();
+  }, []);
+
+  function save(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selected || !draft) return;
+
+    const body: UpdateCafeRequest = {
+      name: draft.name,
+      address: draft.address,
+      lat: Number(draft.lat),
+      lng: Number(draft.lng),
+      price_level: draft.price_level === "" ? null : Number(draft.price_level),
+      locked: draft.locked,
+    };
+    run(async () => {
+      const json = await adminFetch(session, `/api/admin/cafes/${selected.cafe.id}`, adminCafeResponseSchema, {
+        method: "PATCH",
+        body,
+      });
+      setSelected(json);
+      setDraft(draftFor(json.cafe));
+      setCafes((prev) => prev.map((c) => (c.id === json.cafe.id ? json.cafe : c)));
+      setMessage("Saved.");
+    });
+  }
+
+  function merge() {
+    if (!selected) return;
+    const id = duplicateId.trim();
+    if (!confirm(`Merge ${id} into “${selected.cafe.name}”? The duplicate is deleted.`)) return;
+
+    run(async () => {
+      const json = await adminFetch(session, `/api/admin/cafes/${selected.cafe.id}/merge`, adminCafeResponseSchema, {
+        method: "POST",
+        body: { duplicateId: id },
+      });
+      setSelected(json);
+      setCafes((prev) => prev.filter((c) => c.id !== id));
+      setDuplicateId("");
+      setMessage("Merged.");
+    });
+  }
+
+  const field = (key: keyof Omit<Draft, "locked">, label: string, width = 160) => (
+    <label style={{ display: "flex", flexDirection: "column", gap: 2, fontSize: 12 }}>
+      {label}
+      <input
+        value={draft![key]}
+        onChange={(e) => setDraft({ ...draft!, [key]: e.target.value })}
+        style={{ ...inputStyle, width }}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          search();
+        }}
+        style={{ display: "flex", gap: 8 }}
+      >
+        <input
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          placeholder="Name, café id or place id"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button type="submit" disabled={busy} style={buttonStyle}>
+          Search
+        </button>
+      </form>
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+
+      {selected && draft && (
+        <div style={{ marginTop: 12, padding: 12, borderRadius: 12, background: "rgba(0,0,0,0.03)" }}>
+          <div style={{ fontWeight: 600 }}>{selected.cafe.name}</div>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>
+            {selected.cafe.id} · {selected.cafe.place_id}
+            {selected.aliases.length > 0 && ` · also ${selected.aliases.join(", ")}`} ·{" "}
+            {selected.counts.checkins} check-ins, {selected.counts.reviews} reviews,{" "}
+            {selected.counts.attributeVotes} attribute votes
+          </div>
+
+          <form onSubmit={save} style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap", alignItems: "flex-end" }}>
+            {field("name", "Name", 220)}
+            {field("address", "Address", 260)}
+            {field("lat", "Lat", 100)}
+            {field("lng", "Lng", 100)}
+            {field("price_level", "Price (0-4)", 70)}
+            <label style={{ fontSize: 12, display: "flex", gap: 4, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={draft.locked}
+                onChange={(e) => setDraft({ ...draft, locked: e.target.checked })}
+              />
+              Locked
+            </label>
+            <button type="submit" disabled={busy} style={buttonStyle}>
+              Save
+            </button>
+          </form>
+
+          <div style={{ marginTop: 10, display: "flex", gap: 8 }}>
+            <input
+              value={duplicateId}
+              onChange={(e) => setDuplicateId(e.target.value)}
+              placeholder="Duplicate café id to merge into this one"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button type="button" disabled={busy || !duplicateId.trim()} onClick={merge} style={buttonStyle}>
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={{ marginTop: 10, fontSize: 12, opacity: 0.6 }}>
+        {total} café{total === 1 ? "" : "s"}
+        {total > cafes.length ? `, showing ${cafes.length}` : ""}
+      </div>
+      <table style={tableStyle}>
+        <thead>
+          <tr>
+            {["Name", "Address", "Place id", "Fetched", ""].map((h) => (
+              <th key={h} style={cellStyle}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {cafes.map((c) => (
+            <tr key={c.id} style={{ background: selected?.cafe.id === c.id ? "rgba(0,0,0,0.04)" : undefined }}>
+              <td style={cellStyle}>
+                {c.name}
+                {c.locked && <span title="Locked against Places refreshes"> 🔒</span>}
+              </td>
+              <td style={cellStyle}>{c.address ?? "—"}</td>
+              <td style={{ ...cellStyle, fontFamily: "monospace" }}>{c.place_id}</td>
+              <td style={cellStyle}>{formatTime(c.last_fetched_at)}</td>
+              <td style={cellStyle}>
+                <button type="button" onClick={() => open(c.id)} disabled={busy} style={buttonStyle}>
+                  Edit
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import {
+  adminCheckinResponseSchema,
+  adminCheckinsResponseSchema,
+  type AdminCheckin,
+} from "../../../lib/api/contracts";
+import {
+  adminFetch,
+  buttonStyle,
+  cellStyle,
+  formatTime,
+  inputStyle,
+  tableStyle,
+  type AdminPanelProps,
+} from "./shared";
+
+// Recent check-ins, filterable by café or user, with a void button
+export default function CheckinsAdmin({ session }: AdminPanelProps) {
+  const [filters, setFilters] = useState({ cafeId: "", userId: "" });
+  const [checkins, setCheckins] = useState<AdminCheckin[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMessage(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const load = () =>
+    run(async () => {
+      const params = new URLSearchParams();
+      for (const [name, value] of Object.entries(filters)) {
+        if (value.trim()) params.set(name, value.trim());
+      }
+      const json = await adminFetch(session, `/api/admin/checkins?${params}`, adminCheckinsResponseSchema);
+      setCheckins(json.checkins);
+    });
+
+  function voidCheckin(id: string) {
+    const reason = prompt("Why is this check-in being voided?");
+    if (!reason?.trim()) return;
+
+    run(async () => {
+      const { checkIn } = await adminFetch(session, `/api/admin/checkins/${id}/void`, adminCheckinResponseSchema, {
+        method: "POST",
+        body: { reason },
+      });
+      setCheckins((prev) => prev.map((c) => (c.id === id ? checkIn : c)));
+    });
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load();
+        }}
+        style={{ display: "flex", gap: 8, flexWrap: "wrap" }}
+      >
+        {(["cafeId", "userId"] as const).map((name) => (
+          <input
+            key={name}
+            value={filters[name]}
+            onChange={(e) => setFilters({ ...filters, [name]: e.target.value })}
+            placeholder={name === "cafeId" ? "Café id" : "User id"}
+            style={{ ...inputStyle, flex: 1, minWidth: 200 }}
+          />
+        ))}
+        <button type="submit" disabled={busy} style={buttonStyle}>
+          Filter
+        </button>
+      </form>
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+
+      <table style={tableStyle}>
+        <thead>
+          <tr>
+            {["When", "Café", "User", "Noise / crowd / seats", "Verification", ""].map((h) => (
+              <th key={h} style={cellStyle}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {checkins.map((c) => (
+            <tr key={c.id} style={{ opacity: c.voided_at ? 0.55 : 1 }}>
+              <td style={cellStyle}>{formatTime(c.created_at)}</td>
+              <td style={cellStyle}>{c.cafe?.name ?? c.cafe_id}</td>
+              <td style={{ ...cellStyle, fontFamily: "monospace" }}>{c.user_id?.slice(0, 8) ?? "—"}</td>
+              <td style={cellStyle}>
+                {[c.noise_level, c.crowdedness, c.seat_availability].map((v) => v ?? "–").join(" / ")}
+              </td>
+              <td style={cellStyle}>
+                {c.verification_status ?? "—"}
+                {c.distance_m != null && ` · ${Math.round(c.distance_m)} m`}
+              </td>
+              <td style={cellStyle}>
+                {c.voided_at ? (
+                  <span title={c.void_reason ?? undefined}>Voided</span>
+                ) : (
+                  <button type="button" disabled={busy} onClick={() => voidCheckin(c.id)} style={buttonStyle}>
+                    Void
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
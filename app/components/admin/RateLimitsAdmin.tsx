@@ -0,0 +1,110 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import { adminRateLimitsResponseSchema, type AdminRateLimitsResponse } from "../../../lib/api/contracts";
+import {
+  adminFetch,
+  buttonStyle,
+  cellStyle,
+  formatTime,
+  inputStyle,
+  tableStyle,
+  type AdminPanelProps,
+} from "./shared";
+
+// Busiest (and most limited) route + client pairs over the last N hours
+export default function RateLimitsAdmin({ session }: AdminPanelProps) {
+  const [filters, setFilters] = useState({ route: "", ip: "", hours: "24" });
+  const [data, setData] = useState<AdminRateLimitsResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function load() {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const params = new URLSearchParams();
+      for (const [name, value] of Object.entries(filters)) {
+        if (value.trim()) params.set(name, value.trim());
+      }
+      setData(await adminFetch(session, `/api/admin/rate-limits?${params}`, adminRateLimitsResponseSchema));
+    } catch (e: any) {
+      setMessage(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load();
+        }}
+        style={{ display: "flex", gap: 8, flexWrap: "wrap" }}
+      >
+        <input
+          value={filters.route}
+          onChange={(e) => setFilters({ ...filters, route: e.target.value })}
+          placeholder="Route (GET /api/cafes)"
+          style={{ ...inputStyle, flex: 1, minWidth: 200 }}
+        />
+        <input
+          value={filters.ip}
+          onChange={(e) => setFilters({ ...filters, ip: e.target.value })}
+          placeholder="Client IP"
+          style={{ ...inputStyle, width: 140 }}
+        />
+        <label style={{ display: "flex", gap: 4, alignItems: "center", fontSize: 12 }}>
+          Last
+          <input
+            value={filters.hours}
+            onChange={(e) => setFilters({ ...filters, hours: e.target.value })}
+            style={{ ...inputStyle, width: 50 }}
+          />
+          hours
+        </label>
+        <button type="submit" disabled={busy} style={buttonStyle}>
+          Show
+        </button>
+      </form>
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+      {data?.backend === "memory" && (
+        <div style={{ marginTop: 8, opacity: 0.75 }}>
+          RATE_LIMIT_BACKEND is "memory": hits aren't recorded anywhere shared.
+        </div>
+      )}
+
+      <table style={tableStyle}>
+        <thead>
+          <tr>
+            {["Route", "IP hash", "Requests", "Windows", "Over limit", "Last seen"].map((h) => (
+              <th key={h} style={cellStyle}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {data?.usage.map((u) => (
+            <tr key={`${u.route}|${u.ip_hash}`}>
+              <td style={cellStyle}>{u.route}</td>
+              <td style={{ ...cellStyle, fontFamily: "monospace" }}>{u.ip_hash.slice(0, 12)}…</td>
+              <td style={cellStyle}>{u.requests}</td>
+              <td style={cellStyle}>{u.windows}</td>
+              <td style={{ ...cellStyle, color: u.limited_windows ? "crimson" : undefined }}>{u.limited_windows}</td>
+              <td style={cellStyle}>{formatTime(u.last_seen)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
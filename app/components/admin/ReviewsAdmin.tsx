@@ -0,0 +1,107 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import {
+  adminReviewResponseSchema,
+  adminReviewsResponseSchema,
+  type AdminReview,
+} from "../../../lib/api/contracts";
+import { authHeaders } from "../../../lib/supabase/browser";
+import { REVIEW_STATUSES, type ReviewStatus } from "../../../lib/reviews/reviews";
+import { adminFetch, buttonStyle, formatTime, inputStyle, type AdminPanelProps } from "./shared";
+
+// The moderation queue (pending by default): approve, hide or delete
+export default function ReviewsAdmin({ session }: AdminPanelProps) {
+  const [status, setStatus] = useState<ReviewStatus>("pending");
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMessage(e?.message ?? "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    run(async () => {
+      const json = await adminFetch(session, `/api/admin/reviews?status=${status}`, adminReviewsResponseSchema);
+      setReviews(json.reviews);
+    });
+  }, [session, status]);
+
+  const moderate = (id: string, next: "approved" | "hidden") =>
+    run(async () => {
+      await adminFetch(session, `/api/admin/reviews/${id}`, adminReviewResponseSchema, {
+        method: "PATCH",
+        body: { status: next },
+      });
+      setReviews((prev) => prev.filter((r) => r.id !== id));
+    });
+
+  function remove(id: string) {
+    if (!confirm("Delete this review for good?")) return;
+    run(async () => {
+      const res = await fetch(`/api/admin/reviews/${id}`, {
+        method: "DELETE",
+        headers: authHeaders(session),
+      });
+      if (!res.ok) throw new Error(`Could not delete the review (${res.status})`);
+      setReviews((prev) => prev.filter((r) => r.id !== id));
+    });
+  }
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <select value={status} onChange={(e) => setStatus(e.target.value as ReviewStatus)} style={inputStyle}>
+        {REVIEW_STATUSES.map((s) => (
+          <option key={s} value={s}>
+            {s}
+          </option>
+        ))}
+      </select>
+
+      {message && <div style={{ marginTop: 8, opacity: 0.75 }}>{message}</div>}
+      {reviews.length === 0 && !busy && <div style={{ marginTop: 10, opacity: 0.6 }}>Nothing here.</div>}
+
+      <ul style={{ margin: "10px 0 0", padding: 0, listStyle: "none" }}>
+        {reviews.map((r) => (
+          <li key={r.id} style={{ padding: "10px 0", borderTop: "1px solid rgba(0,0,0,0.06)" }}>
+            <div>{r.body}</div>
+            <div style={{ marginTop: 4, fontSize: 12, opacity: 0.7 }}>
+              {r.cafe?.name ?? r.cafe_id}
+              {r.rating != null && ` · ${"★".repeat(r.rating)}`} · {formatTime(r.created_at)}
+              {r.moderation_reason && ` · ${r.moderation_reason}`}
+              {r.report_count > 0 &&
+                ` · ${r.report_count} report${r.report_count === 1 ? "" : "s"} (${r.reports
+                  .map((rep) => rep.reason)
+                  .join(", ")})`}
+            </div>
+            <div style={{ marginTop: 6, display: "flex", gap: 6 }}>
+              {r.status !== "approved" && (
+                <button type="button" disabled={busy} onClick={() => moderate(r.id, "approved")} style={buttonStyle}>
+                  Approve
+                </button>
+              )}
+              {r.status !== "hidden" && (
+                <button type="button" disabled={busy} onClick={() => moderate(r.id, "hidden")} style={buttonStyle}>
+                  Hide
+                </button>
+              )}
+              <button type="button" disabled={busy} onClick={() => remove(r.id)} style={buttonStyle}>
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
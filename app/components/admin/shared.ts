@@ -0,0 +1,55 @@
+import type React from "react";
+import type { z } from "zod";
+import type { Session } from "@supabase/supabase-js";
+import { authHeaders } from "../../../lib/supabase/browser";
+import { fetchApi } from "../../../lib/api/client";
+
+export type AdminPanelProps = { session: Session };
+
+// fetchApi with the admin's token (and a JSON body when one is given)
+export function adminFetch<S extends z.ZodTypeAny>(
+  session: Session,
+  url: string,
+  schema: S,
+  init: { method?: string; body?: unknown } = {}
+) {
+  return fetchApi(url, schema, {
+    method: init.method,
+    headers: {
+      ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...authHeaders(session),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+}
+
+export const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+  fontSize: 13,
+};
+
+export const buttonStyle: React.CSSProperties = {
+  ...inputStyle,
+  cursor: "pointer",
+};
+
+export const tableStyle: React.CSSProperties = {
+  width: "100%",
+  marginTop: 10,
+  borderCollapse: "collapse",
+  fontSize: 12,
+};
+
+export const cellStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderTop: "1px solid rgba(0,0,0,0.06)",
+  textAlign: "left",
+  verticalAlign: "top",
+};
+
+export function formatTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
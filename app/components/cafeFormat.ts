@@ -0,0 +1,74 @@
+import React from "react";
+import type { CafeAttributes } from "../../lib/attributes";
+
+// Display helpers shared by the list and detail pages
+
+type RatedCafe = { quiet_score: number | null; quiet_confidence: number };
+
+export function formatRating(r: number | null, n: number | null) {
+  if (r == null) return "No rating";
+  if (n == null) return `★ ${r.toFixed(1)}`;
+  return `★ ${r.toFixed(1)} (${n.toLocaleString()})`;
+}
+
+export function priceLabel(level: number | null) {
+  if (level == null) return "Price ?";
+  return "$".repeat(Math.max(1, Math.min(4, level + 1)));
+}
+
+export function quietLabel(c: RatedCafe) {
+  if (c.quiet_score == null) return "No quiet data yet";
+  return `Quiet ${c.quiet_score} · ${Math.round(c.quiet_confidence * 100)}% confidence`;
+}
+
+export function quietKind(c: RatedCafe): "ok" | "warn" | "neutral" {
+  if (c.quiet_score == null || c.quiet_confidence < 0.3) return "neutral";
+  return c.quiet_score >= 60 ? "ok" : "warn";
+}
+
+// Pills for the attributes people agree on; unknown ones are left out
+export function attributePills(a: CafeAttributes): { label: string; kind: "ok" | "warn" }[] {
+  const pills: { label: string; kind: "ok" | "warn" }[] = [];
+  if (a.wifi.value) {
+    const wifi = { none: "No wifi", poor: "Weak wifi", good: "Good wifi" }[a.wifi.value];
+    pills.push({ label: wifi, kind: a.wifi.value === "good" ? "ok" : "warn" });
+  }
+  if (a.outlets.value != null) {
+    pills.push({ label: a.outlets.value ? "Outlets" : "Few outlets", kind: a.outlets.value ? "ok" : "warn" });
+  }
+  if (a.laptops.value != null) {
+    pills.push({ label: a.laptops.value ? "Laptop-friendly" : "No laptops", kind: a.laptops.value ? "ok" : "warn" });
+  }
+  if (a.tables.value) {
+    const tables = { few: "Few tables", some: "Some tables", many: "Lots of tables" }[a.tables.value];
+    pills.push({ label: tables, kind: a.tables.value === "few" ? "warn" : "ok" });
+  }
+  if (a.calls.value != null) {
+    pills.push({ label: a.calls.value ? "Calls OK" : "No calls", kind: a.calls.value ? "ok" : "warn" });
+  }
+  return pills;
+}
+
+export function mapsLink(c: { name: string; place_id: string }) {
+  // Uses query + coordinates to open reliably
+  const q = encodeURIComponent(c.name);
+  return `https://www.google.com/maps/search/?api=1&query=${q}&query_place_id=${encodeURIComponent(
+    c.place_id
+  )}`;
+}
+
+export function pillStyle(kind: "ok" | "warn" | "neutral") {
+  const base: React.CSSProperties = {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: 6,
+    padding: "4px 10px",
+    borderRadius: 999,
+    fontSize: 12,
+    border: "1px solid rgba(0,0,0,0.12)",
+    background: "rgba(0,0,0,0.03)",
+  };
+  if (kind === "ok") return { ...base, background: "rgba(0, 128, 0, 0.08)" };
+  if (kind === "warn") return { ...base, background: "rgba(255, 165, 0, 0.10)" };
+  return base;
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { formatRating, mapsLink, priceLabel } from "../../components/cafeFormat";
+import { fetchApi } from "../../../lib/api/client";
+import { sharedListResponseSchema, type SharedListResponse } from "../../../lib/api/contracts";
+
+const cardStyle: React.CSSProperties = {
+  marginTop: 14,
+  padding: 14,
+  borderRadius: 16,
+  border: "1px solid rgba(0,0,0,0.10)",
+  background: "rgba(255,255,255,0.8)",
+};
+
+// Public, read-only view of a shared list
+export default function SharedListPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const [data, setData] = useState<SharedListResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchApi(`/api/lists/shared/${encodeURIComponent(token)}`, sharedListResponseSchema)
+      .then((json) => {
+        if (!cancelled) setData(json);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? "Something went wrong.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const list = data?.list;
+
+  return (
+    <main style={{ minHeight: "100vh", padding: "40px 16px" }}>
+      <div style={{ maxWidth: 760, margin: "0 auto" }}>
+        <Link href="/" style={{ fontSize: 13, color: "rgba(0,0,0,0.7)" }}>
+          ← Find quiet cafés
+        </Link>
+
+        {error && (
+          <div
+            style={{
+              marginTop: 14,
+              padding: 12,
+              borderRadius: 12,
+              border: "1px solid rgba(220, 20, 60, 0.25)",
+              background: "rgba(220, 20, 60, 0.06)",
+              color: "crimson",
+            }}
+          >
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {!list && !error && <div style={{ marginTop: 14, opacity: 0.7 }}>Loading…</div>}
+
+        {list && (
+          <>
+            <h1 style={{ fontSize: 24, margin: "14px 0 0", letterSpacing: -0.3 }}>{list.name}</h1>
+            <div style={{ marginTop: 4, fontSize: 13, opacity: 0.7 }}>
+              {list.cafes.length} café{list.cafes.length === 1 ? "" : "s"} · updated{" "}
+              {new Date(list.updated_at).toLocaleDateString()}
+            </div>
+
+            {list.cafes.length === 0 && (
+              <div style={{ ...cardStyle, fontSize: 13, opacity: 0.7 }}>This list is empty.</div>
+            )}
+
+            {list.cafes.map((c) => (
+              <section key={c.id} style={cardStyle}>
+                <div style={{ display: "flex", gap: 10, alignItems: "flex-start" }}>
+                  <div style={{ flex: 1 }}>
+                    <Link
+                      href={`/cafes/${c.id}`}
+                      style={{ fontWeight: 700, color: "inherit", textDecoration: "none" }}
+                    >
+                      {c.name}
+                    </Link>
+                    <div style={{ marginTop: 4, fontSize: 13, opacity: 0.8 }}>
+                      {c.address ?? "No address"}
+                    </div>
+                  </div>
+                  <div style={{ textAlign: "right", fontSize: 12, opacity: 0.85 }}>
+                    <div>{formatRating(c.google_rating, c.user_ratings_total)}</div>
+                    <div style={{ marginTop: 2 }}>{priceLabel(c.price_level)}</div>
+                    <a href={mapsLink(c)} target="_blank" rel="noreferrer" style={{ marginTop: 2, display: "inline-block" }}>
+                      Maps ↗
+                    </a>
+                  </div>
+                </div>
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,87 +1,233 @@
 "use client";
 
 import React from "react";
-import { useMemo, useState } from "react";
-
-type Cafe = {
-  id: string;
-  place_id: string;
-  name: string;
-  address: string | null;
+import { useEffect, useRef, useState } from "react";
+import AccountPanel from "./components/AccountPanel";
+import CafeCard from "./components/CafeCard";
+import CafeMap, { type MarkerColorBy } from "./components/CafeMap";
+import { pillStyle } from "./components/cafeFormat";
+import ListsPanel from "./components/ListsPanel";
+import { authHeaders, useSupabaseSession } from "../lib/supabase/browser";
+import { haversineMeters, type LatLng } from "../lib/geo";
+import { fetchApi } from "../lib/api/client";
+import {
+  cafesQuerySchema,
+  cafesResponseSchema,
+  geocodeResponseSchema,
+  parseRequest,
+  type CafesResponse,
+} from "../lib/api/contracts";
+import type { CafeSort } from "../lib/cafes/listing";
+import { ATTRIBUTE_KEYS, type AttributeFilters } from "../lib/attributes";
+
+type CafeQuery = {
   lat: number;
   lng: number;
-  google_rating: number | null;
-  user_ratings_total: number | null;
-  price_level: number | null;
-  types: string[] | null;
+  radiusM: number;
+  sort: CafeSort;
+  minRating: number | null;
+  maxPrice: number | null;
+  openNow: boolean;
+  work: AttributeFilters;
+  at: string | null;
 };
 
-type CafesResponse = {
-  source: "google" | "cache";
-  cacheKey: string;
-  radiusM: number;
-  cafes: Cafe[];
+const NO_WORK_FILTERS: AttributeFilters = {
+  wifi: null,
+  outlets: null,
+  laptops: null,
+  tables: null,
+  calls: null,
 };
 
-function formatRating(r: number | null, n: number | null) {
-  if (r == null) return "No rating";
-  if (n == null) return `★ ${r.toFixed(1)}`;
-  return `★ ${r.toFixed(1)} (${n.toLocaleString()})`;
-}
+const selectStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+};
 
-function priceLabel(level: number | null) {
-  if (level == null) return "Price ?";
-  return "$".repeat(Math.max(1, Math.min(4, level + 1)));
+const PAGE_SIZE = 20;
+
+// Same params as GET /api/cafes, so the page URL doubles as the API query
+function queryParams(q: CafeQuery) {
+  const params = new URLSearchParams({
+    lat: q.lat.toFixed(5),
+    lng: q.lng.toFixed(5),
+    radius: String(q.radiusM),
+    sort: q.sort,
+  });
+  if (q.minRating != null) params.set("minRating", String(q.minRating));
+  if (q.maxPrice != null) params.set("maxPrice", String(q.maxPrice));
+  if (q.openNow) params.set("openNow", "true");
+  for (const key of ATTRIBUTE_KEYS) {
+    const v = q.work[key];
+    if (v != null) params.set(key, String(v));
+  }
+  if (q.at) params.set("at", q.at);
+  return params;
 }
 
-function mapsLink(c: Cafe) {
-  // Uses query + coordinates to open reliably
-  const q = encodeURIComponent(c.name);
-  return `https://www.google.com/maps/search/?api=1&query=${q}&query_place_id=${encodeURIComponent(
-    c.place_id
-  )}`;
+function cafesUrl(q: CafeQuery, cursor?: string | null) {
+  const params = queryParams(q);
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+  return `/api/cafes?${params.toString()}`;
 }
 
-function pillStyle(kind: "ok" | "warn" | "neutral") {
-  const base: React.CSSProperties = {
-    display: "inline-flex",
-    alignItems: "center",
-    gap: 6,
-    padding: "4px 10px",
-    borderRadius: 999,
-    fontSize: 12,
-    border: "1px solid rgba(0,0,0,0.12)",
-    background: "rgba(0,0,0,0.03)",
+// Restores a search from a shared or bookmarked page URL; null when the URL
+// doesn't hold one
+function queryFromUrl(search: string): CafeQuery | null {
+  const parsed = parseRequest(cafesQuerySchema, new URLSearchParams(search));
+  if (!parsed.ok) return null;
+
+  const { lat, lng, radius, sort, minRating, maxPrice, openNow, at } = parsed.data;
+  const { wifi, outlets, laptops, tables, calls } = parsed.data;
+  return {
+    lat,
+    lng,
+    radiusM: radius ?? 1500,
+    sort,
+    minRating,
+    maxPrice,
+    openNow,
+    work: { wifi, outlets, laptops, tables, calls },
+    // Whole minutes, like the datetime-local input the page fills from it
+    at: at ? new Date(Math.floor(at.getTime() / 60_000) * 60_000).toISOString() : null,
   };
-  if (kind === "ok") return { ...base, background: "rgba(0, 128, 0, 0.08)" };
-  if (kind === "warn") return { ...base, background: "rgba(255, 165, 0, 0.10)" };
-  return base;
+}
+
+// Date → "YYYY-MM-DDTHH:mm" in local time, for datetime-local inputs
+function toLocalInput(d: Date) {
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Panning the map re-searches once the center moves this share of the radius
+const PAN_REQUERY_FRACTION = 0.25;
+
+function ageLabel(fetchedAt: string) {
+  const mins = Math.max(0, Math.round((Date.now() - new Date(fetchedAt).getTime()) / 60000));
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins} min ago`;
+  const hours = Math.round(mins / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} d ago`;
+}
+
+function sourceLabel({ source, degraded }: CafesResponse) {
+  if (source === "cache") return "Cached";
+  if (source === "stale") return degraded ? "Stale" : "Stale · refreshing";
+  if (source === "fixture") return "Fixtures";
+  if (source === "db") return "Saved cafés only";
+  return "Google";
 }
 
 export default function Home() {
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<CafesResponse | null>(null);
-  const [coords, setCoords] = useState<{ lat: number; lng: number } | null>(null);
-  const [checkingIn, setCheckingIn] = useState<Set<string>>(new Set());
+  // Center of the current search: the user's location, or wherever the map was panned to
+  const [coords, setCoords] = useState<LatLng | null>(null);
+  const [userLocation, setUserLocation] = useState<LatLng | null>(null);
+  // What the user typed to search, and where it resolved to
+  const [place, setPlace] = useState("");
+  const [placeLabel, setPlaceLabel] = useState<string | null>(null);
+  const [view, setView] = useState<"list" | "map">("list");
+  const [colorBy, setColorBy] = useState<MarkerColorBy>("quiet");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [ratingFor, setRatingFor] = useState<string | null>(null);
+  const [checkinsVersion, setCheckinsVersion] = useState(0);
+  const [listsVersion, setListsVersion] = useState(0);
+  const { session, ready } = useSupabaseSession();
 
   const [radiusM, setRadiusM] = useState(1500);
-  const [sort, setSort] = useState<"rating" | "name">("rating");
-
-  const cafes = useMemo(() => {
-    const list = data?.cafes ?? [];
-    if (sort === "name") return [...list].sort((a, b) => a.name.localeCompare(b.name));
-
-    // rating sort (desc), then ratings count
-    return [...list].sort((a, b) => {
-      const ar = a.google_rating ?? -1;
-      const br = b.google_rating ?? -1;
-      if (br !== ar) return br - ar;
-      const an = a.user_ratings_total ?? -1;
-      const bn = b.user_ratings_total ?? -1;
-      return bn - an;
-    });
-  }, [data, sort]);
+  const [sort, setSort] = useState<CafeSort>("distance");
+  const [minRating, setMinRating] = useState<number | null>(null);
+  const [maxPrice, setMaxPrice] = useState<number | null>(null);
+  const [openNow, setOpenNow] = useState(false);
+  const [work, setWork] = useState<AttributeFilters>(NO_WORK_FILTERS);
+  // datetime-local value ("2026-01-31T15:00"), local to the browser
+  const [goingAt, setGoingAt] = useState("");
+
+  // Results come back sorted + filtered by the API
+  const cafes = data?.cafes ?? [];
+  const selected = cafes.find((c) => c.id === selectedId) ?? null;
+
+  function currentQuery(lat: number, lng: number): CafeQuery {
+    const at = goingAt ? new Date(goingAt).toISOString() : null;
+    return { lat, lng, radiusM, sort, minRating, maxPrice, openNow, work, at };
+  }
+
+  // URL of the last search, so the filter effect doesn't repeat it
+  const lastSearch = useRef<string | null>(null);
+
+  async function runSearch(q: CafeQuery) {
+    const url = cafesUrl(q);
+    lastSearch.current = url;
+    setData(await fetchApi(url, cafesResponseSchema, { headers: authHeaders(session) }));
+    // Keep the page URL shareable; replace, so filter tweaks don't pile up in history
+    window.history.replaceState(null, "", `?${queryParams(q).toString()}`);
+  }
+
+  async function search(lat: number, lng: number) {
+    await runSearch(currentQuery(lat, lng));
+  }
+
+  // Restore a search from the URL on first load, once the session is known
+  // so the results come back with saved flags
+  const restored = useRef(false);
+  useEffect(() => {
+    if (!ready || restored.current) return;
+    restored.current = true;
+
+    const q = queryFromUrl(window.location.search);
+    if (!q) return;
+
+    setRadiusM(q.radiusM);
+    setSort(q.sort);
+    setMinRating(q.minRating);
+    setMaxPrice(q.maxPrice);
+    setOpenNow(q.openNow);
+    setWork(q.work);
+    setGoingAt(q.at ? toLocalInput(new Date(q.at)) : "");
+    setCoords({ lat: q.lat, lng: q.lng });
+
+    setLoading(true);
+    runSearch(q)
+      .catch((e: any) => setError(e?.message ?? "Something went wrong."))
+      .finally(() => setLoading(false));
+  }, [ready]);
+
+  async function searchPlace(e: React.FormEvent) {
+    e.preventDefault();
+    const text = place.trim();
+    if (!text) return;
+
+    setError(null);
+    setLoading(true);
+    try {
+      const { results } = await fetchApi(
+        `/api/geocode?q=${encodeURIComponent(text)}`,
+        geocodeResponseSchema
+      );
+      const best = results[0];
+      if (!best) {
+        setError(`No matches for "${text}". Try a street address or neighborhood.`);
+        return;
+      }
+
+      setCoords({ lat: best.lat, lng: best.lng });
+      setPlaceLabel(best.label);
+      setSelectedId(null);
+      await search(best.lat, best.lng);
+    } catch (e: any) {
+      setError(e?.message ?? "Something went wrong.");
+    } finally {
+      setLoading(false);
+    }
+  }
 
   async function findCafesNearMe() {
     setError(null);
@@ -98,20 +244,15 @@ export default function Home() {
       const lat = pos.coords.latitude;
       const lng = pos.coords.longitude;
       setCoords({ lat, lng });
+      setUserLocation({ lat, lng });
+      setPlaceLabel(null);
+      setSelectedId(null);
 
-      const res = await fetch(
-        `/api/cafes?lat=${encodeURIComponent(lat)}&lng=${encodeURIComponent(lng)}&radius=${radiusM}`,
-        { cache: "no-store" }
-      );
-
-      const json = await res.json();
-      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
-
-      setData(json as CafesResponse);
+      await search(lat, lng);
     } catch (e: any) {
       // Better geolocation messaging
       if (e?.code === 1) {
-        setError("Location permission denied. Please allow location access and try again.");
+        setError("Location permission denied. Allow location access, or search for an address instead.");
       } else if (e?.code === 3) {
         setError("Location request timed out. Try again or move to a better signal area.");
       } else {
@@ -123,38 +264,83 @@ export default function Home() {
     }
   }
 
-  async function handleCheckIn(cafeId: string) {
-    setCheckingIn((prev) => new Set(prev).add(cafeId));
+  // Re-run the last search when the radius, sort or filters change (not on first render)
+  const firstRender = useRef(true);
+  useEffect(() => {
+    if (firstRender.current) {
+      firstRender.current = false;
+      return;
+    }
+    if (!coords) return;
+    const q = currentQuery(coords.lat, coords.lng);
+    if (cafesUrl(q) === lastSearch.current) return;
+
+    setError(null);
+    setLoading(true);
+    runSearch(q)
+      .catch((e: any) => setError(e?.message ?? "Something went wrong."))
+      .finally(() => setLoading(false));
+  }, [radiusM, sort, minRating, maxPrice, openNow, work, goingAt]);
+
+  async function loadMore() {
+    if (!coords || !data?.nextCursor) return;
+    setError(null);
+    setLoadingMore(true);
 
     try {
-      const res = await fetch("/api/checkins", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ cafeId }),
+      const q = { ...currentQuery(coords.lat, coords.lng), radiusM: data.radiusM };
+      const next = await fetchApi(cafesUrl(q, data.nextCursor), cafesResponseSchema, {
+        headers: authHeaders(session),
       });
+      setData((prev) => (prev ? { ...next, cafes: [...prev.cafes, ...next.cafes] } : next));
+    } catch (e: any) {
+      setError(e?.message ?? "Something went wrong.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
 
-      const json = await res.json();
-
-      if (!res.ok) {
-        throw new Error(json?.error ?? `Check-in failed (${res.status})`);
-      }
+  async function onMapMoveEnd(center: LatLng) {
+    if (!coords) return;
+    const radius = data?.radiusM ?? radiusM;
+    if (haversineMeters(coords, center) < radius * PAN_REQUERY_FRACTION) return;
 
-      // Success! You could show a toast notification here
-      alert(`Checked in successfully!`);
+    setCoords(center);
+    setPlaceLabel(null);
+    setSelectedId(null);
+    setError(null);
+    setLoading(true);
+    try {
+      await search(center.lat, center.lng);
     } catch (e: any) {
-      const msg =
-        e?.message ||
-        (typeof e === "string" ? e : "Something went wrong checking in.");
-      alert(`Error: ${msg}`);
+      setError(e?.message ?? "Something went wrong.");
     } finally {
-      setCheckingIn((prev) => {
-        const next = new Set(prev);
-        next.delete(cafeId);
-        return next;
-      });
+      setLoading(false);
+    }
+  }
+
+  function onCheckedIn() {
+    setRatingFor(null);
+    setCheckinsVersion((v) => v + 1);
+  }
+
+  function onSavedChange(cafeId: string, saved: boolean) {
+    setData((prev) =>
+      prev && {
+        ...prev,
+        cafes: prev.cafes.map((c) => (c.id === cafeId ? { ...c, saved } : c)),
+      }
+    );
+    setListsVersion((v) => v + 1);
+  }
+
+  function openCheckIn(cafeId: string) {
+    // The sign-in form is right above the error banner
+    if (!session) {
+      setError("Sign in above to check in.");
+      return;
     }
+    setRatingFor((prev) => (prev === cafeId ? null : cafeId));
   }
 
   return (
@@ -205,8 +391,18 @@ export default function Home() {
           {data && (
             <div style={{ display: "flex", gap: 8, flexWrap: "wrap", justifyContent: "flex-end" }}>
               <span style={pillStyle(data.source === "cache" ? "ok" : "warn")}>
-                {data.source === "cache" ? "Cached" : "Google"}
+                {sourceLabel(data)}
               </span>
+              {data.degraded && (
+                <span style={pillStyle("warn")} title={data.degraded}>
+                  Live search paused
+                </span>
+              )}
+              {data.fetchedAt && (
+                <span style={pillStyle("neutral")} title={`Fetched ${data.fetchedAt}`}>
+                  Updated {ageLabel(data.fetchedAt)}
+                </span>
+              )}
               <span style={pillStyle("neutral")}>{data.radiusM}m</span>
             </div>
           )}
@@ -245,7 +441,7 @@ export default function Home() {
             <span style={{ fontSize: 13, opacity: 0.8 }}>Sort</span>
             <select
               value={sort}
-              onChange={(e) => setSort(e.target.value as any)}
+              onChange={(e) => setSort(e.target.value as CafeSort)}
               style={{
                 padding: "8px 10px",
                 borderRadius: 10,
@@ -253,11 +449,118 @@ export default function Home() {
                 background: "white",
               }}
             >
+              <option value="distance">Distance</option>
               <option value="rating">Rating</option>
+              <option value="quiet">Quietest</option>
               <option value="name">Name</option>
             </select>
           </label>
 
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ fontSize: 13, opacity: 0.8 }}>Min rating</span>
+            <select
+              value={minRating ?? ""}
+              onChange={(e) => setMinRating(e.target.value ? Number(e.target.value) : null)}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.15)",
+                background: "white",
+              }}
+            >
+              <option value="">Any</option>
+              <option value={3.5}>3.5+</option>
+              <option value={4}>4.0+</option>
+              <option value={4.5}>4.5+</option>
+            </select>
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ fontSize: 13, opacity: 0.8 }}>Max price</span>
+            <select
+              value={maxPrice ?? ""}
+              onChange={(e) => setMaxPrice(e.target.value ? Number(e.target.value) : null)}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.15)",
+                background: "white",
+              }}
+            >
+              <option value="">Any</option>
+              <option value={1}>$</option>
+              <option value={2}>$$</option>
+              <option value={3}>$$$</option>
+            </select>
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+            <input type="checkbox" checked={openNow} onChange={(e) => setOpenNow(e.target.checked)} />
+            <span style={{ opacity: 0.8 }}>Open now</span>
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ fontSize: 13, opacity: 0.8 }}>Wifi</span>
+            <select
+              value={work.wifi ?? ""}
+              onChange={(e) =>
+                setWork((w) => ({ ...w, wifi: (e.target.value || null) as AttributeFilters["wifi"] }))
+              }
+              style={selectStyle}
+            >
+              <option value="">Any</option>
+              <option value="poor">Works</option>
+              <option value="good">Good</option>
+            </select>
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ fontSize: 13, opacity: 0.8 }}>Tables</span>
+            <select
+              value={work.tables ?? ""}
+              onChange={(e) =>
+                setWork((w) => ({ ...w, tables: (e.target.value || null) as AttributeFilters["tables"] }))
+              }
+              style={selectStyle}
+            >
+              <option value="">Any</option>
+              <option value="some">Some+</option>
+              <option value="many">Many</option>
+            </select>
+          </label>
+
+          {(
+            [
+              ["outlets", "Outlets"],
+              ["laptops", "Laptop-friendly"],
+              ["calls", "Calls OK"],
+            ] as const
+          ).map(([key, label]) => (
+            <label key={key} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+              <input
+                type="checkbox"
+                checked={work[key] === true}
+                onChange={(e) => setWork((w) => ({ ...w, [key]: e.target.checked || null }))}
+              />
+              <span style={{ opacity: 0.8 }}>{label}</span>
+            </label>
+          ))}
+
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ fontSize: 13, opacity: 0.8 }}>Going at</span>
+            <input
+              type="datetime-local"
+              value={goingAt}
+              onChange={(e) => setGoingAt(e.target.value)}
+              style={{
+                padding: "6px 8px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.15)",
+                background: "white",
+              }}
+            />
+          </label>
+
           <button
             onClick={findCafesNearMe}
             disabled={loading}
@@ -276,9 +579,45 @@ export default function Home() {
           </button>
         </section>
 
+        <form onSubmit={searchPlace} style={{ marginTop: 10, display: "flex", gap: 8 }}>
+          <input
+            type="search"
+            value={place}
+            onChange={(e) => setPlace(e.target.value)}
+            placeholder="…or search an address or neighborhood"
+            aria-label="Address or neighborhood"
+            style={{
+              flex: 1,
+              padding: "9px 12px",
+              borderRadius: 12,
+              border: "1px solid rgba(0,0,0,0.15)",
+              background: "white",
+            }}
+          />
+          <button
+            type="submit"
+            disabled={loading || !place.trim()}
+            style={{
+              padding: "9px 14px",
+              borderRadius: 12,
+              border: "1px solid rgba(0,0,0,0.2)",
+              background: "white",
+              color: "rgba(0,0,0,0.85)",
+              cursor: loading || !place.trim() ? "not-allowed" : "pointer",
+              fontWeight: 600,
+            }}
+          >
+            Search
+          </button>
+        </form>
+
+        <AccountPanel session={session} refreshKey={checkinsVersion} />
+        <ListsPanel session={session} refreshKey={listsVersion} />
+
         {coords && (
           <div style={{ marginTop: 10, fontSize: 12, opacity: 0.7 }}>
-            Using location: {coords.lat.toFixed(4)}, {coords.lng.toFixed(4)}
+            {placeLabel ? <>Near: {placeLabel} · </> : "Using location: "}
+            {coords.lat.toFixed(4)}, {coords.lng.toFixed(4)}
             {data?.cacheKey ? <> · cache key: {data.cacheKey}</> : null}
           </div>
         )}
@@ -300,8 +639,54 @@ export default function Home() {
 
         <section style={{ marginTop: 18 }}>
           {data && (
-            <div style={{ marginBottom: 10, opacity: 0.75, fontSize: 13 }}>
-              Showing <strong>{cafes.length}</strong> cafés
+            <div style={{ marginBottom: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+              <div style={{ opacity: 0.75, fontSize: 13 }}>
+                Showing <strong>{cafes.length}</strong> of <strong>{data.total}</strong> cafés
+              </div>
+
+              {view === "map" && (
+                <label style={{ display: "flex", alignItems: "center", gap: 8, marginLeft: "auto" }}>
+                  <span style={{ fontSize: 13, opacity: 0.8 }}>Color by</span>
+                  <select
+                    value={colorBy}
+                    onChange={(e) => setColorBy(e.target.value as MarkerColorBy)}
+                    style={{
+                      padding: "6px 8px",
+                      borderRadius: 10,
+                      border: "1px solid rgba(0,0,0,0.15)",
+                      background: "white",
+                    }}
+                  >
+                    <option value="quiet">Quiet score</option>
+                    <option value="rating">Rating</option>
+                  </select>
+                </label>
+              )}
+
+              <div
+                role="group"
+                aria-label="View"
+                style={{ display: "flex", marginLeft: view === "map" ? 0 : "auto" }}
+              >
+                {(["list", "map"] as const).map((v) => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    aria-pressed={view === v}
+                    style={{
+                      padding: "6px 12px",
+                      border: "1px solid rgba(0,0,0,0.15)",
+                      borderRadius: v === "list" ? "10px 0 0 10px" : "0 10px 10px 0",
+                      background: view === v ? "rgba(0,0,0,0.9)" : "white",
+                      color: view === v ? "white" : "rgba(0,0,0,0.85)",
+                      cursor: "pointer",
+                      fontSize: 13,
+                    }}
+                  >
+                    {v === "list" ? "List" : "Map"}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
 
@@ -317,6 +702,36 @@ export default function Home() {
             >
               Click <strong>Find cafés near me</strong> to load results.
             </div>
+          ) : view === "map" && coords ? (
+            <div>
+              <CafeMap
+                center={coords}
+                radiusM={data.radiusM}
+                userLocation={userLocation}
+                cafes={cafes}
+                colorBy={colorBy}
+                selectedId={selectedId}
+                onSelect={setSelectedId}
+                onMoveEnd={onMapMoveEnd}
+              />
+              <div style={{ marginTop: 6, fontSize: 12, opacity: 0.65 }}>
+                Drag the map to search another area.
+                {cafes.length === 0 && " No cafés found in this radius."}
+              </div>
+              {selected && (
+                <div style={{ marginTop: 12 }}>
+                  <CafeCard
+                    cafe={selected}
+                    session={session}
+                    checkingIn={ratingFor === selected.id}
+                    onToggleCheckIn={() => openCheckIn(selected.id)}
+                    onCheckedIn={onCheckedIn}
+                    onSavedChange={(saved) => onSavedChange(selected.id, saved)}
+                    onClose={() => setSelectedId(null)}
+                  />
+                </div>
+              )}
+            </div>
           ) : cafes.length === 0 ? (
             <div
               style={{
@@ -337,79 +752,43 @@ export default function Home() {
               }}
             >
               {cafes.map((c) => (
-                <article
+                <CafeCard
                   key={c.place_id}
-                  style={{
-                    borderRadius: 16,
-                    border: "1px solid rgba(0,0,0,0.10)",
-                    background: "rgba(255,255,255,0.8)",
-                    padding: 14,
-                    boxShadow: "0 10px 22px rgba(0,0,0,0.05)",
-                  }}
-                >
-                  <div style={{ display: "flex", gap: 10, alignItems: "flex-start" }}>
-                    <div style={{ flex: 1 }}>
-                      <div style={{ fontWeight: 700, letterSpacing: -0.2 }}>{c.name}</div>
-                      <div style={{ marginTop: 4, fontSize: 13, opacity: 0.8 }}>
-                        {c.address ?? "No address"}
-                      </div>
-                    </div>
-                    <div style={{ textAlign: "right", fontSize: 12, opacity: 0.85 }}>
-                      <div>{formatRating(c.google_rating, c.user_ratings_total)}</div>
-                      <div style={{ marginTop: 2 }}>{priceLabel(c.price_level)}</div>
-                    </div>
-                  </div>
-
-                  <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center" }}>
-                    <a
-                      href={mapsLink(c)}
-                      target="_blank"
-                      rel="noreferrer"
-                      style={{
-                        fontSize: 13,
-                        textDecoration: "none",
-                        padding: "8px 10px",
-                        borderRadius: 12,
-                        border: "1px solid rgba(0,0,0,0.12)",
-                        background: "rgba(0,0,0,0.03)",
-                        color: "rgba(0,0,0,0.85)",
-                      }}
-                    >
-                      Open in Maps ↗
-                    </a>
-
-                    <button
-                      onClick={() => handleCheckIn(c.id)}
-                      disabled={checkingIn.has(c.id)}
-                      style={{
-                        fontSize: 13,
-                        padding: "8px 10px",
-                        borderRadius: 12,
-                        border: "1px solid rgba(0,0,0,0.12)",
-                        background: checkingIn.has(c.id)
-                          ? "rgba(0,0,0,0.06)"
-                          : "rgba(0, 128, 0, 0.1)",
-                        color: checkingIn.has(c.id) ? "rgba(0,0,0,0.5)" : "rgba(0, 128, 0, 0.9)",
-                        cursor: checkingIn.has(c.id) ? "not-allowed" : "pointer",
-                        fontWeight: 500,
-                      }}
-                    >
-                      {checkingIn.has(c.id) ? "Checking in..." : "✓ Check in"}
-                    </button>
-
-                    <div style={{ marginLeft: "auto", fontSize: 12, opacity: 0.65 }}>
-                      {c.types?.includes("cafe") ? "cafe" : ""}
-                    </div>
-                  </div>
-                </article>
+                  cafe={c}
+                  session={session}
+                  checkingIn={ratingFor === c.id}
+                  onToggleCheckIn={() => openCheckIn(c.id)}
+                  onCheckedIn={onCheckedIn}
+                  onSavedChange={(saved) => onSavedChange(c.id, saved)}
+                />
               ))}
             </div>
           )}
+
+          {data?.nextCursor && (
+            <div style={{ marginTop: 14, textAlign: "center" }}>
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                style={{
+                  padding: "10px 14px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(0,0,0,0.2)",
+                  background: loadingMore ? "rgba(0,0,0,0.06)" : "white",
+                  color: loadingMore ? "rgba(0,0,0,0.6)" : "rgba(0,0,0,0.85)",
+                  cursor: loadingMore ? "not-allowed" : "pointer",
+                  fontWeight: 600,
+                }}
+              >
+                {loadingMore ? "Loading…" : "Load more"}
+              </button>
+            </div>
+          )}
         </section>
       </div>
 
       <footer style={{ maxWidth: 900, margin: "12px auto 0", padding: "0 6px", opacity: 0.6, fontSize: 12 }}>
-        Tip: once we add check-ins, we’ll show “quiet score” + confidence next to each café.
+        Quiet score (0–100) blends recent check-in ratings; older check-ins count less, and confidence grows with more of them.
       </footer>
     </main>
   );
@@ -0,0 +1,73 @@
+import type { NextRequest } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import type { Json } from "./supabase/database.types";
+import { getRequestUser, type TypedSupabaseClient } from "./supabase/server";
+import { apiError } from "./api/errors";
+import type { AuditTargetType } from "./api/contracts";
+import { log } from "./log";
+import { adminActions } from "./metrics";
+
+// ADMIN_EMAILS: comma-separated, case-insensitive. Empty = no admins.
+function adminEmails() {
+  return new Set(
+    (process.env.ADMIN_EMAILS ?? "")
+      .split(",")
+      .map((e) => e.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+// app_metadata.role "admin" (only the service role can set it), or a
+// confirmed ADMIN_EMAILS address. An unconfirmed address proves nothing, and
+// a project that doesn't require confirmation should use the role instead.
+export function isAdmin(user: Pick<User, "email" | "email_confirmed_at" | "app_metadata"> | null) {
+  if (!user) return false;
+  if (user.app_metadata?.role === "admin") return true;
+  const email = user.email?.toLowerCase();
+  return email != null && user.email_confirmed_at != null && adminEmails().has(email);
+}
+
+// The signed-in admin, or the 401/403 to send back
+export async function requireAdmin(
+  req: NextRequest
+): Promise<{ ok: true; user: User } | { ok: false; response: Response }> {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return { ok: false, response: apiError(401, "unauthorized", "Sign in as an admin") };
+  }
+  if (!isAdmin(user)) {
+    return { ok: false, response: apiError(403, "forbidden", "Admins only") };
+  }
+  return { ok: true, user };
+}
+
+// limit/offset for the admin list endpoints; `to` is for .range()
+export function adminPage(q: { limit: number | null; offset: number | null }, defaultLimit = 50) {
+  const limit = Math.max(1, Math.min(200, Math.floor(q.limit ?? defaultLimit)));
+  const offset = Math.max(0, Math.floor(q.offset ?? 0));
+  return { limit, offset, to: offset + limit - 1 };
+}
+
+// One row in admin_audit_log per admin action, written after the action
+// succeeds. Failing to write it fails the request, so nothing goes unrecorded
+// without a 500 to show for it.
+export async function recordAudit(
+  supabase: TypedSupabaseClient,
+  admin: Pick<User, "id" | "email">,
+  action: string, // "cafe.update", "cache.purge", ...
+  target: { type: AuditTargetType; id: string | null },
+  details: Record<string, Json | undefined> = {}
+) {
+  const { error } = await supabase.from("admin_audit_log").insert({
+    admin_id: admin.id,
+    admin_email: admin.email ?? null,
+    action,
+    target_type: target.type,
+    target_id: target.id,
+    details,
+  });
+  if (error) throw error;
+
+  adminActions.inc({ action });
+  log.info("admin.action", { action, target: target.type, targetId: target.id, adminId: admin.id });
+}
@@ -0,0 +1,12 @@
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+// "Authorization: Bearer <secret>", compared in constant time. An unset
+// secret matches nothing, so whatever it guards stays off until configured.
+export function hasBearerSecret(req: NextRequest, secret: string | undefined) {
+  if (!secret) return false;
+
+  const given = Buffer.from(req.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,50 @@
+import type { z } from "zod";
+import { apiErrorSchema, type ApiErrorCode } from "./contracts";
+
+// Non-2xx response from one of our API routes. body is the parsed JSON, so
+// callers can read extra fields (availableAt, distanceM, ...).
+// code and requestId come from the error body when the route sent them.
+export class ApiRequestError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  readonly code: ApiErrorCode | null;
+  readonly requestId: string | null;
+
+  constructor(status: number, message: string, body: unknown) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.body = body;
+
+    const parsed = apiErrorSchema.safeParse(body);
+    this.code = parsed.success ? parsed.data.code ?? null : null;
+    this.requestId = parsed.success ? parsed.data.requestId ?? null : null;
+  }
+}
+
+// fetch + JSON + validation against the route's response schema. A response
+// that doesn't match means client and server have drifted apart.
+export async function fetchApi<S extends z.ZodTypeAny>(
+  url: string,
+  schema: S,
+  init?: RequestInit
+): Promise<z.output<S>> {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    const parsed = apiErrorSchema.safeParse(json);
+    throw new ApiRequestError(
+      res.status,
+      parsed.success ? parsed.data.error : `Request failed (${res.status})`,
+      json
+    );
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    console.error("Unexpected API response", { url, issues: result.error.issues });
+    throw new Error(`Unexpected response from ${new URL(url, "http://x").pathname}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,778 @@
+import { z } from "zod";
+import { SORT_OPTIONS } from "../cafes/listing";
+import { RATING_MAX, RATING_MIN, isValidRating } from "../quietScore";
+import { VERIFICATION_STATUSES } from "../geofence";
+import { TABLE_LEVELS, WIFI_LEVELS, hasAnyAttribute } from "../attributes";
+import { REPORT_REASONS, REVIEW_STATUSES } from "../reviews/reviews";
+
+// Request/response shapes shared by the API routes and the client. Routes
+// parse requests with these schemas and type their responses with the
+// inferred types; the client validates responses against the same schemas.
+
+// ---------- shared pieces ----------
+
+// Stable, machine-readable error codes. Messages are for humans and may
+// change; clients should branch on code.
+export const API_ERROR_CODES = [
+  "invalid_request",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "rate_limited",
+  "cooldown",
+  "upstream_unavailable",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export const apiErrorSchema = z
+  .object({
+    error: z.string(),
+    // Optional so older or non-API responses still parse
+    code: z.enum(API_ERROR_CODES).optional(),
+    requestId: z.string().optional(),
+  })
+  .passthrough();
+export type ApiError = z.infer<typeof apiErrorSchema>;
+
+const upstreamFailureSchema = z.enum(["budget_exhausted", "circuit_open", "upstream_error"]);
+const verificationStatusSchema = z.enum(VERIFICATION_STATUSES);
+
+export const quietScoreSchema = z.object({
+  quiet_score: z.number().nullable(), // 0..100, higher = quieter
+  quiet_confidence: z.number(), // 0..1
+  checkin_count: z.number(),
+});
+
+export const quietPredictionSchema = z.object({
+  at: z.string(),
+  predicted_quiet_score: z.number().nullable(),
+  busyness: z.number(),
+  samples: z.number(),
+});
+
+function attributeConsensusSchema<T extends z.ZodTypeAny>(value: T) {
+  return z.object({
+    value: value.nullable(),
+    agreement: z.number(), // 0..1
+    votes: z.number(),
+  });
+}
+
+export const cafeAttributesSchema = z.object({
+  wifi: attributeConsensusSchema(z.enum(WIFI_LEVELS)),
+  outlets: attributeConsensusSchema(z.boolean()),
+  laptops: attributeConsensusSchema(z.boolean()),
+  tables: attributeConsensusSchema(z.enum(TABLE_LEVELS)),
+  calls: attributeConsensusSchema(z.boolean()),
+});
+export type CafeAttributesItem = z.infer<typeof cafeAttributesSchema>;
+
+export const publicReviewSchema = z.object({
+  id: z.string(),
+  body: z.string(),
+  rating: z.number().nullable(),
+  created_at: z.string(),
+});
+export type PublicReviewItem = z.infer<typeof publicReviewSchema>;
+
+// Approved reviews only
+export const reviewSummarySchema = z.object({
+  count: z.number(),
+  avg_rating: z.number().nullable(),
+  latest: publicReviewSchema.nullable(),
+});
+
+export const openingHoursSchema = z
+  .object({
+    periods: z.array(z.unknown()).optional(),
+    weekdayDescriptions: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const cafeBaseSchema = z.object({
+  id: z.string(),
+  place_id: z.string(),
+  name: z.string(),
+  address: z.string().nullable(),
+  lat: z.number(),
+  lng: z.number(),
+  google_rating: z.number().nullable(),
+  user_ratings_total: z.number().nullable(),
+  price_level: z.number().nullable(),
+  types: z.array(z.string()).nullable(),
+  utc_offset_minutes: z.number().nullable(),
+});
+
+// Query params arrive as strings; unparseable optional numbers are ignored
+function toNumber(value: string | undefined): number | null {
+  if (value == null || value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+const optionalNumberParam = z.string().optional().transform(toNumber);
+
+function levelParam<L extends string>(field: string, levels: readonly [L, ...L[]]) {
+  return z
+    .enum(levels, {
+      errorMap: () => ({ message: `Invalid ${field} (expected one of ${levels.join(", ")})` }),
+    })
+    .optional()
+    .transform((v) => v ?? null);
+}
+
+function booleanParam(field: string) {
+  return z
+    .enum(["true", "false"], {
+      errorMap: () => ({ message: `Invalid ${field} (expected true or false)` }),
+    })
+    .optional()
+    .transform((v) => (v == null ? null : v === "true"));
+}
+
+// Parses URLSearchParams or a JSON body; on failure returns the first
+// issue's message, which is what the routes send back as { error }.
+export function parseRequest<S extends z.ZodTypeAny>(
+  schema: S,
+  input: unknown
+): { ok: true; data: z.output<S> } | { ok: false; error: string } {
+  const value =
+    input instanceof URLSearchParams ? Object.fromEntries(input.entries()) : input;
+  const result = schema.safeParse(value);
+  if (result.success) return { ok: true, data: result.data };
+  return { ok: false, error: result.error.issues[0]?.message ?? "Invalid request" };
+}
+
+// ---------- GET /api/cafes ----------
+
+const LATLNG_ERROR = "Missing/invalid lat or lng";
+
+// Out-of-range coordinates would still be sent to Google (and cost budget)
+function coordinateParam(max: number) {
+  return z.string({ required_error: LATLNG_ERROR }).transform((v, ctx) => {
+    const n = toNumber(v);
+    if (n == null || n < -max || n > max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: LATLNG_ERROR });
+      return z.NEVER;
+    }
+    return n;
+  });
+}
+
+export const cafesQuerySchema = z.object({
+  lat: coordinateParam(90),
+  lng: coordinateParam(180),
+  radius: optionalNumberParam,
+  limit: optionalNumberParam,
+  cursor: z.string().optional(),
+  minRating: optionalNumberParam,
+  maxPrice: optionalNumberParam,
+  openNow: z
+    .string()
+    .optional()
+    .transform((v) => v === "true"),
+  at: z
+    .string()
+    .optional()
+    .transform((v, ctx) => {
+      if (!v) return null;
+      const at = new Date(v);
+      if (Number.isNaN(at.getTime())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Invalid at (expected an ISO 8601 timestamp)",
+        });
+        return z.NEVER;
+      }
+      return at;
+    }),
+  // Workability filters; levels are minimums, unknown cafés never match
+  wifi: levelParam("wifi", WIFI_LEVELS),
+  outlets: booleanParam("outlets"),
+  laptops: booleanParam("laptops"),
+  tables: levelParam("tables", TABLE_LEVELS),
+  calls: booleanParam("calls"),
+  sort: z
+    .enum(SORT_OPTIONS, {
+      errorMap: () => ({
+        message: `Invalid sort (expected one of ${SORT_OPTIONS.join(", ")})`,
+      }),
+    })
+    .default("distance"),
+});
+export type CafesQuery = z.infer<typeof cafesQuerySchema>;
+
+export const cafeListItemSchema = cafeBaseSchema.merge(quietScoreSchema).extend({
+  opening_hours: z.unknown(),
+  distance_m: z.number(),
+  open_now: z.boolean().nullable(),
+  // Only when the request had ?at=
+  quiet_at: quietPredictionSchema.optional(),
+  // In any of the signed-in user's lists; always false when signed out
+  saved: z.boolean(),
+  attributes: cafeAttributesSchema,
+  reviews: reviewSummarySchema,
+});
+export type CafeListItem = z.infer<typeof cafeListItemSchema>;
+
+export const cafesResponseSchema = z.object({
+  source: z.enum(["google", "fixture", "cache", "stale", "db"]),
+  cacheMatch: z.enum(["exact", "contained"]).optional(),
+  cacheKey: z.string(),
+  radiusM: z.number(),
+  fetchedAt: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  // Set when Google couldn't be called and we served stale/DB-only results
+  degraded: upstreamFailureSchema.optional(),
+  total: z.number(),
+  nextCursor: z.string().nullable(),
+  cafes: z.array(cafeListItemSchema),
+});
+export type CafesResponse = z.infer<typeof cafesResponseSchema>;
+
+// ---------- GET /api/geocode ----------
+
+export const geocodeQuerySchema = z.object({
+  q: z
+    .string({ required_error: "Missing q (an address or neighborhood)" })
+    .trim()
+    .min(2, "Missing q (an address or neighborhood)")
+    .max(200, "q is too long (max 200 characters)"),
+  limit: optionalNumberParam,
+});
+export type GeocodeQuery = z.infer<typeof geocodeQuerySchema>;
+
+export const geocodeResultSchema = z.object({
+  label: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+});
+export type GeocodeResultItem = z.infer<typeof geocodeResultSchema>;
+
+export const geocodeResponseSchema = z.object({
+  source: z.enum(["google", "fixture"]),
+  query: z.string(),
+  results: z.array(geocodeResultSchema),
+});
+export type GeocodeResponse = z.infer<typeof geocodeResponseSchema>;
+
+// ---------- GET /api/cafes/[id] ----------
+
+export const publicCheckinSchema = z.object({
+  id: z.string(),
+  created_at: z.string(),
+  noise_level: z.number().nullable(),
+  crowdedness: z.number().nullable(),
+  seat_availability: z.number().nullable(),
+  verification_status: verificationStatusSchema.nullable(),
+});
+export type PublicCheckin = z.infer<typeof publicCheckinSchema>;
+
+export const cafeDetailSchema = cafeBaseSchema.merge(quietScoreSchema).extend({
+  opening_hours: openingHoursSchema.nullable(),
+  last_fetched_at: z.string().nullable(),
+  // Closed cafés drop out of listings but stay reachable here
+  permanently_closed: z.boolean(),
+  attributes: cafeAttributesSchema,
+});
+export type CafeDetail = z.infer<typeof cafeDetailSchema>;
+
+export const cafeDetailResponseSchema = z.object({
+  cafe: cafeDetailSchema,
+  recentCheckins: z.array(publicCheckinSchema),
+  hourlyHistogram: z.object({
+    days: z.number(),
+    utcOffsetMinutes: z.number().nullable(),
+    counts: z.array(z.number()),
+  }),
+});
+export type CafeDetailResponse = z.infer<typeof cafeDetailResponseSchema>;
+
+// ---------- GET /api/cafes/[id]/busy-hours ----------
+
+export const busyHoursResponseSchema = z.object({
+  cafeId: z.string(),
+  days: z.number(),
+  utcOffsetMinutes: z.number().nullable(),
+  total: z.number(),
+  // [weekday 0=Sunday..6][hour 0..23]
+  counts: z.array(z.array(z.number())),
+  quiet: z.array(z.array(z.number().nullable())),
+});
+export type BusyHoursResponse = z.infer<typeof busyHoursResponseSchema>;
+
+// ---------- workability votes ----------
+
+function attributeVoteField<T extends z.ZodTypeAny>(field: string, schema: T, expected: string) {
+  return z
+    .union([schema, z.null(), z.undefined()], {
+      errorMap: () => ({ message: `Invalid ${field} (expected ${expected})` }),
+    })
+    .transform((v): z.output<T> | null => v ?? null);
+}
+
+// Any attribute may be left out (or null)
+const attributeVoteFieldsSchema = z.object({
+  wifi: attributeVoteField("wifi", z.enum(WIFI_LEVELS), WIFI_LEVELS.join(", ")),
+  outlets: attributeVoteField("outlets", z.boolean(), "true or false"),
+  laptops: attributeVoteField("laptops", z.boolean(), "true or false"),
+  tables: attributeVoteField("tables", z.enum(TABLE_LEVELS), TABLE_LEVELS.join(", ")),
+  calls: attributeVoteField("calls", z.boolean(), "true or false"),
+});
+
+// POST /api/cafes/[id]/attributes
+export const attributeVoteRequestSchema = attributeVoteFieldsSchema.refine(hasAnyAttribute, {
+  message: "Send at least one of wifi, outlets, laptops, tables or calls",
+});
+export type AttributeVoteRequest = z.input<typeof attributeVoteRequestSchema>;
+
+export const attributeVoteResponseSchema = z.object({
+  success: z.literal(true),
+  attributes: cafeAttributesSchema,
+});
+export type AttributeVoteResponse = z.infer<typeof attributeVoteResponseSchema>;
+
+// ---------- /api/checkins ----------
+
+const LOCATION_ERROR = "Invalid lat, lng or accuracy";
+
+const cafeIdSchema = z
+  .string({ required_error: "Missing or invalid cafeId", invalid_type_error: "Missing or invalid cafeId" })
+  .uuid("Missing or invalid cafeId");
+
+function ratingParam(field: string) {
+  return z
+    .custom<number>(isValidRating, {
+      message: `Invalid ${field} (expected integer ${RATING_MIN}-${RATING_MAX})`,
+    })
+    .nullish()
+    .transform((v) => v ?? null);
+}
+
+// Ratings are optional but must be 1..5 when present. Location is optional
+// too; when sent, lat/lng must both be valid coordinates.
+export const checkinRequestSchema = z
+  .object({
+    cafeId: cafeIdSchema,
+    noiseLevel: ratingParam("noiseLevel"),
+    crowdedness: ratingParam("crowdedness"),
+    seatAvailability: ratingParam("seatAvailability"),
+    lat: z.number({ message: LOCATION_ERROR }).finite().min(-90).max(90).nullish(),
+    lng: z.number({ message: LOCATION_ERROR }).finite().min(-180).max(180).nullish(),
+    accuracy: z.number({ message: LOCATION_ERROR }).min(0, LOCATION_ERROR).nullish(),
+    // Optional workability vote sent along with the check-in
+    attributes: attributeVoteFieldsSchema
+      .nullish()
+      .transform((v) => (v && hasAnyAttribute(v) ? v : null)),
+  })
+  .superRefine((body, ctx) => {
+    if ((body.lat == null) !== (body.lng == null)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: LOCATION_ERROR });
+    }
+  })
+  .transform(({ lat, lng, accuracy, ...rest }) => ({
+    ...rest,
+    location: lat != null && lng != null ? { lat, lng, accuracyM: accuracy ?? null } : null,
+  }));
+export type CheckinRequest = z.input<typeof checkinRequestSchema>;
+
+export const checkinSchema = z.object({
+  id: z.string(),
+  cafe_id: z.string(),
+  created_at: z.string(),
+  noise_level: z.number().nullable(),
+  crowdedness: z.number().nullable(),
+  seat_availability: z.number().nullable(),
+  verification_status: verificationStatusSchema.nullable(),
+  distance_m: z.number().nullable(),
+});
+export type Checkin = z.infer<typeof checkinSchema>;
+
+export const checkinResponseSchema = z.object({
+  success: z.literal(true),
+  checkIn: checkinSchema,
+});
+export type CheckinResponse = z.infer<typeof checkinResponseSchema>;
+
+export const myCheckinSchema = checkinSchema.extend({
+  cafe: z.object({ id: z.string(), name: z.string(), address: z.string().nullable() }).nullable(),
+});
+export type MyCheckin = z.infer<typeof myCheckinSchema>;
+
+export const myCheckinsResponseSchema = z.object({
+  checkins: z.array(myCheckinSchema),
+});
+export type MyCheckinsResponse = z.infer<typeof myCheckinsResponseSchema>;
+
+// ---------- reviews ----------
+
+// POST /api/cafes/[id]/reviews; writing again replaces your review (its
+// moderation status and reports stay)
+export const reviewRequestSchema = z.object({
+  body: z
+    .string({ required_error: "Missing body", invalid_type_error: "Missing body" })
+    .trim()
+    .min(3, "Review is too short (min 3 characters)")
+    .max(500, "Review is too long (max 500 characters)"),
+  rating: ratingParam("rating"),
+});
+export type ReviewRequest = z.input<typeof reviewRequestSchema>;
+
+export const reviewStatusSchema = z.enum(REVIEW_STATUSES);
+
+// The author's own view: includes whether it's waiting for a moderator
+export const myReviewSchema = publicReviewSchema.extend({
+  cafe_id: z.string(),
+  status: reviewStatusSchema,
+});
+export type MyReview = z.infer<typeof myReviewSchema>;
+
+export const reviewResponseSchema = z.object({ review: myReviewSchema });
+export type ReviewResponse = z.infer<typeof reviewResponseSchema>;
+
+// GET /api/cafes/[id]/reviews
+export const reviewsResponseSchema = z.object({ reviews: z.array(publicReviewSchema) });
+export type ReviewsResponse = z.infer<typeof reviewsResponseSchema>;
+
+// POST /api/reviews/[id]/report
+export const reportReviewRequestSchema = z.object({
+  reason: z.enum(REPORT_REASONS, {
+    errorMap: () => ({ message: `Invalid reason (expected one of ${REPORT_REASONS.join(", ")})` }),
+  }),
+});
+export type ReportReviewRequest = z.input<typeof reportReviewRequestSchema>;
+
+// ---------- /api/admin/reviews ----------
+
+export const adminReviewsQuerySchema = z.object({
+  status: z
+    .enum(REVIEW_STATUSES, {
+      errorMap: () => ({ message: `Invalid status (expected one of ${REVIEW_STATUSES.join(", ")})` }),
+    })
+    .default("pending"),
+  limit: optionalNumberParam,
+});
+
+export const moderateReviewRequestSchema = z.object({
+  status: z.enum(["approved", "hidden"], {
+    errorMap: () => ({ message: "Invalid status (expected approved or hidden)" }),
+  }),
+});
+export type ModerateReviewRequest = z.input<typeof moderateReviewRequestSchema>;
+
+export const adminReviewSchema = myReviewSchema.extend({
+  user_id: z.string(),
+  moderation_reason: z.string().nullable(),
+  report_count: z.number(),
+  moderated_at: z.string().nullable(),
+  updated_at: z.string(),
+  cafe: z.object({ id: z.string(), name: z.string() }).nullable(),
+  reports: z.array(z.object({ reason: z.string(), created_at: z.string() })),
+});
+export type AdminReview = z.infer<typeof adminReviewSchema>;
+
+export const adminReviewsResponseSchema = z.object({ reviews: z.array(adminReviewSchema) });
+export type AdminReviewsResponse = z.infer<typeof adminReviewsResponseSchema>;
+
+export const adminReviewResponseSchema = z.object({ review: adminReviewSchema });
+export type AdminReviewResponse = z.infer<typeof adminReviewResponseSchema>;
+
+// ---------- /api/lists ----------
+
+const listNameSchema = z
+  .string({ required_error: "Missing name", invalid_type_error: "Missing name" })
+  .trim()
+  .min(1, "Missing name")
+  .max(60, "Invalid name (max 60 characters)");
+
+export const createListRequestSchema = z.object({ name: listNameSchema });
+export type CreateListRequest = z.input<typeof createListRequestSchema>;
+
+// shared: true creates the public link, false revokes it
+export const updateListRequestSchema = z
+  .object({
+    name: listNameSchema.optional(),
+    shared: z.boolean({ invalid_type_error: "Invalid shared (expected a boolean)" }).optional(),
+  })
+  .refine((b) => b.name !== undefined || b.shared !== undefined, {
+    message: "Nothing to update (expected name or shared)",
+  });
+export type UpdateListRequest = z.input<typeof updateListRequestSchema>;
+
+export const addListItemRequestSchema = z.object({ cafeId: cafeIdSchema });
+export type AddListItemRequest = z.input<typeof addListItemRequestSchema>;
+
+// The list's full new order: every café in it, each exactly once
+export const reorderListRequestSchema = z.object({
+  cafeIds: z.array(cafeIdSchema, {
+    required_error: "Missing cafeIds",
+    invalid_type_error: "Missing cafeIds",
+  }),
+});
+export type ReorderListRequest = z.input<typeof reorderListRequestSchema>;
+
+export const listCafeSchema = cafeBaseSchema
+  .pick({
+    id: true,
+    place_id: true,
+    name: true,
+    address: true,
+    lat: true,
+    lng: true,
+    google_rating: true,
+    user_ratings_total: true,
+    price_level: true,
+  })
+  .extend({ added_at: z.string() });
+export type ListCafe = z.infer<typeof listCafeSchema>;
+
+export const cafeListSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // null while the list is private
+  shareToken: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  cafes: z.array(listCafeSchema),
+});
+export type CafeList = z.infer<typeof cafeListSchema>;
+
+export const listsResponseSchema = z.object({ lists: z.array(cafeListSchema) });
+export type ListsResponse = z.infer<typeof listsResponseSchema>;
+
+export const listResponseSchema = z.object({ list: cafeListSchema });
+export type ListResponse = z.infer<typeof listResponseSchema>;
+
+// Public view behind a share link: no ids that identify the owner
+export const sharedListResponseSchema = z.object({
+  list: cafeListSchema.pick({ name: true, updated_at: true, cafes: true }),
+});
+export type SharedListResponse = z.infer<typeof sharedListResponseSchema>;
+
+// ---------- /api/admin (cafés, cache, rate limits, check-ins, audit) ----------
+
+const adminPagingSchema = z.object({
+  limit: optionalNumberParam,
+  offset: optionalNumberParam,
+});
+
+// GET /api/admin/cafes?q=: name contains q, or q is a café id / place id
+export const adminCafesQuerySchema = adminPagingSchema.extend({
+  q: z
+    .string()
+    .optional()
+    .transform((v) => v?.trim() || null),
+});
+
+export const adminCafeSchema = cafeBaseSchema.extend({
+  // Hand-edited: Places refreshes leave its fields alone
+  locked: z.boolean(),
+  last_fetched_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type AdminCafe = z.infer<typeof adminCafeSchema>;
+
+export const adminCafesResponseSchema = z.object({
+  cafes: z.array(adminCafeSchema),
+  total: z.number(),
+});
+export type AdminCafesResponse = z.infer<typeof adminCafesResponseSchema>;
+
+export const adminCafeResponseSchema = z.object({
+  cafe: adminCafeSchema,
+  // Place ids of cafés merged into this one
+  aliases: z.array(z.string()),
+  counts: z.object({ checkins: z.number(), reviews: z.number(), attributeVotes: z.number() }),
+});
+export type AdminCafeResponse = z.infer<typeof adminCafeResponseSchema>;
+
+// PATCH /api/admin/cafes/[id]. Edits lock the café unless locked is sent.
+export const updateCafeRequestSchema = z
+  .object({
+    name: z
+      .string({ invalid_type_error: "Invalid name" })
+      .trim()
+      .min(1, "Invalid name")
+      .max(200, "Invalid name (max 200 characters)")
+      .optional(),
+    address: z
+      .string({ invalid_type_error: "Invalid address" })
+      .trim()
+      .max(300, "Invalid address (max 300 characters)")
+      .nullable()
+      .optional()
+      .transform((v) => (v === "" ? null : v)),
+    lat: z.number({ message: LATLNG_ERROR }).finite().min(-90, LATLNG_ERROR).max(90, LATLNG_ERROR).optional(),
+    lng: z.number({ message: LATLNG_ERROR }).finite().min(-180, LATLNG_ERROR).max(180, LATLNG_ERROR).optional(),
+    price_level: z
+      .number({ message: "Invalid price_level (expected integer 0-4)" })
+      .int("Invalid price_level (expected integer 0-4)")
+      .min(0, "Invalid price_level (expected integer 0-4)")
+      .max(4, "Invalid price_level (expected integer 0-4)")
+      .nullable()
+      .optional(),
+    locked: z.boolean({ invalid_type_error: "Invalid locked (expected a boolean)" }).optional(),
+  })
+  .refine((b) => Object.values(b).some((v) => v !== undefined), {
+    message: "Nothing to update (expected name, address, lat, lng, price_level or locked)",
+  });
+export type UpdateCafeRequest = z.input<typeof updateCafeRequestSchema>;
+
+// POST /api/admin/cafes/[id]/merge: duplicateId is folded into [id]
+export const mergeCafeRequestSchema = z.object({
+  duplicateId: z
+    .string({ required_error: "Missing or invalid duplicateId", invalid_type_error: "Missing or invalid duplicateId" })
+    .uuid("Missing or invalid duplicateId"),
+});
+export type MergeCafeRequest = z.input<typeof mergeCafeRequestSchema>;
+
+// GET/DELETE /api/admin/cache: one entry by key, or every entry centered
+// within radius of lat/lng. GET with neither lists the newest entries.
+export const adminCacheQuerySchema = adminPagingSchema
+  .extend({
+    key: z
+      .string()
+      .optional()
+      .transform((v) => v?.trim() || null),
+    lat: optionalNumberParam,
+    lng: optionalNumberParam,
+    radius: optionalNumberParam,
+  })
+  .superRefine((q, ctx) => {
+    const area = [q.lat, q.lng, q.radius].filter((v) => v != null).length;
+    if (area !== 0 && area !== 3) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Area needs lat, lng and radius" });
+    } else if (q.key && area) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Send key or an area, not both" });
+    }
+  });
+
+export const adminCacheEntrySchema = z.object({
+  cache_key: z.string(),
+  lat_center: z.number(),
+  lng_center: z.number(),
+  radius_m: z.number(),
+  place_count: z.number(),
+  fetched_at: z.string(),
+  expires_at: z.string(),
+  expired: z.boolean(),
+});
+export type AdminCacheEntry = z.infer<typeof adminCacheEntrySchema>;
+
+export const adminCacheResponseSchema = z.object({ entries: z.array(adminCacheEntrySchema) });
+export type AdminCacheResponse = z.infer<typeof adminCacheResponseSchema>;
+
+export const purgeCacheResponseSchema = z.object({
+  purged: z.number(),
+  keys: z.array(z.string()),
+});
+export type PurgeCacheResponse = z.infer<typeof purgeCacheResponseSchema>;
+
+// GET /api/admin/rate-limits: hits per ip_hash and route over the last
+// `hours`. ip is hashed server-side, to look up a known address.
+export const adminRateLimitsQuerySchema = z
+  .object({
+    route: z
+      .string()
+      .optional()
+      .transform((v) => v?.trim() || null),
+    ipHash: z
+      .string()
+      .optional()
+      .transform((v) => v?.trim() || null),
+    ip: z
+      .string()
+      .optional()
+      .transform((v) => v?.trim() || null),
+    hours: optionalNumberParam,
+    limit: optionalNumberParam,
+  })
+  .refine((q) => !(q.ip && q.ipHash), { message: "Send ip or ipHash, not both" });
+
+export const rateLimitUsageSchema = z.object({
+  route: z.string(),
+  ip_hash: z.string(),
+  requests: z.number(),
+  windows: z.number(),
+  // Windows where the count went over the route's current limit
+  limited_windows: z.number(),
+  last_seen: z.string(),
+});
+export type RateLimitUsage = z.infer<typeof rateLimitUsageSchema>;
+
+export const adminRateLimitsResponseSchema = z.object({
+  // Only the supabase backend records hits; with "memory" this is empty
+  backend: z.enum(["supabase", "memory"]),
+  since: z.string(),
+  usage: z.array(rateLimitUsageSchema),
+});
+export type AdminRateLimitsResponse = z.infer<typeof adminRateLimitsResponseSchema>;
+
+// GET /api/admin/checkins?cafeId=&userId=
+export const adminCheckinsQuerySchema = adminPagingSchema.extend({
+  cafeId: z.string().uuid("Invalid cafeId").optional(),
+  userId: z.string().uuid("Invalid userId").optional(),
+});
+
+export const adminCheckinSchema = myCheckinSchema.extend({
+  user_id: z.string().nullable(),
+  location_accuracy_m: z.number().nullable(),
+  voided_at: z.string().nullable(),
+  voided_by: z.string().nullable(),
+  void_reason: z.string().nullable(),
+});
+export type AdminCheckin = z.infer<typeof adminCheckinSchema>;
+
+export const adminCheckinsResponseSchema = z.object({ checkins: z.array(adminCheckinSchema) });
+export type AdminCheckinsResponse = z.infer<typeof adminCheckinsResponseSchema>;
+
+// POST /api/admin/checkins/[id]/void
+export const voidCheckinRequestSchema = z.object({
+  reason: z
+    .string({ required_error: "Missing reason", invalid_type_error: "Missing reason" })
+    .trim()
+    .min(1, "Missing reason")
+    .max(200, "Invalid reason (max 200 characters)"),
+});
+export type VoidCheckinRequest = z.input<typeof voidCheckinRequestSchema>;
+
+export const adminCheckinResponseSchema = z.object({ checkIn: adminCheckinSchema });
+export type AdminCheckinResponse = z.infer<typeof adminCheckinResponseSchema>;
+
+// GET /api/admin/audit
+export const AUDIT_TARGET_TYPES = ["cafe", "cache", "checkin", "review"] as const;
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export const adminAuditQuerySchema = adminPagingSchema.extend({
+  action: z
+    .string()
+    .optional()
+    .transform((v) => v?.trim() || null),
+  targetType: z
+    .enum(AUDIT_TARGET_TYPES, {
+      errorMap: () => ({ message: `Invalid targetType (expected one of ${AUDIT_TARGET_TYPES.join(", ")})` }),
+    })
+    .optional(),
+  targetId: z
+    .string()
+    .optional()
+    .transform((v) => v?.trim() || null),
+});
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  admin_id: z.string(),
+  admin_email: z.string().nullable(),
+  action: z.string(),
+  target_type: z.string(),
+  target_id: z.string().nullable(),
+  details: z.record(z.unknown()),
+  created_at: z.string(),
+});
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+export const adminAuditResponseSchema = z.object({ entries: z.array(auditEntrySchema) });
+export type AdminAuditResponse = z.infer<typeof adminAuditResponseSchema>;
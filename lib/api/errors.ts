@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { currentRequestContext } from "../log";
+import type { ApiErrorCode } from "./contracts";
+
+// { error, code, requestId, ...extra } with the given status
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  extra?: Record<string, unknown>,
+  init?: { headers?: Record<string, string> }
+) {
+  return NextResponse.json(
+    { error: message, code, requestId: currentRequestContext()?.requestId, ...extra },
+    { status, headers: init?.headers }
+  );
+}
+
+// Never echo the underlying error: DB messages can leak schema details.
+// The real error is logged under the same requestId.
+export function internalError() {
+  return apiError(500, "internal_error", "Internal server error");
+}
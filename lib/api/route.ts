@@ -0,0 +1,66 @@
+import { randomUUID } from "node:crypto";
+import { performance } from "node:perf_hooks";
+import type { NextRequest } from "next/server";
+import { log, runWithRequestContext } from "../log";
+import { httpRequestDuration, httpRequests } from "../metrics";
+import { policyFor, withRateLimit, type RateLimitPolicy } from "../rateLimit";
+import { internalError } from "./errors";
+
+// Accept a caller's (or the proxy's) id when it looks sane, so one id
+// follows the request across services; otherwise mint one.
+const REQUEST_ID_RE = /^[A-Za-z0-9._:-]{1,128}$/;
+
+function requestIdFor(req: NextRequest | undefined) {
+  const incoming = req?.headers.get("x-request-id")?.trim();
+  return incoming && REQUEST_ID_RE.test(incoming) ? incoming : randomUUID();
+}
+
+type RouteOptions = {
+  // Defaults to the route's policy in RATE_LIMIT_POLICIES; false skips it
+  rateLimit?: RateLimitPolicy | false;
+};
+
+// Every API route goes through this: request id (X-Request-Id), request
+// log line, metrics, rate limiting, and one place that turns a thrown
+// error into a 500 { code: "internal_error" } without leaking its message.
+//
+//   export const GET = apiRoute("GET /api/cafes", getCafes);
+export function apiRoute<C>(
+  route: string, // "METHOD /path", as in RATE_LIMIT_POLICIES
+  handler: (req: NextRequest, ctx: C) => Promise<Response>,
+  opts: RouteOptions = {}
+) {
+  const [method = "GET", path = route] = route.split(" ");
+  const limited =
+    opts.rateLimit === false
+      ? handler
+      : withRateLimit(route, handler, opts.rateLimit ?? policyFor(route));
+
+  return (req: NextRequest, ctx: C): Promise<Response> => {
+    const requestId = requestIdFor(req);
+
+    return runWithRequestContext({ requestId, route }, async () => {
+      const started = performance.now();
+
+      let res: Response;
+      try {
+        res = await limited(req, ctx);
+      } catch (err) {
+        log.error("request.failed", { err });
+        res = internalError();
+      }
+
+      const seconds = (performance.now() - started) / 1000;
+      res.headers.set("X-Request-Id", requestId);
+      httpRequests.inc({ route: path, method, status: res.status });
+      httpRequestDuration.observe(seconds, { route: path, method });
+      log.info("request", {
+        method,
+        status: res.status,
+        durationMs: Math.round(seconds * 1000),
+      });
+
+      return res;
+    });
+  };
+}
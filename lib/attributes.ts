@@ -0,0 +1,197 @@
+import type { TypedSupabaseClient } from "./supabase/server";
+import { recencyWeight } from "./quietScore";
+
+// Workability attributes, crowd-sourced per café:
+//   wifi:    none < poor < good
+//   outlets: enough outlets to plug in
+//   laptops: laptops welcome
+//   tables:  few < some < many
+//   calls:   OK to take calls
+export const WIFI_LEVELS = ["none", "poor", "good"] as const;
+export type WifiLevel = (typeof WIFI_LEVELS)[number];
+
+export const TABLE_LEVELS = ["few", "some", "many"] as const;
+export type TableLevel = (typeof TABLE_LEVELS)[number];
+
+export const ATTRIBUTE_KEYS = ["wifi", "outlets", "laptops", "tables", "calls"] as const;
+export type AttributeKey = (typeof ATTRIBUTE_KEYS)[number];
+
+export type AttributeVote = {
+  wifi: WifiLevel | null;
+  outlets: boolean | null;
+  laptops: boolean | null;
+  tables: TableLevel | null;
+  calls: boolean | null;
+};
+
+// value is null with no votes, or when the vote is split evenly
+export type AttributeConsensus<V> = {
+  value: V | null;
+  agreement: number; // 0..1, winning value's share of the weighted vote
+  votes: number; // voters counted (one per user)
+};
+
+export type CafeAttributes = {
+  wifi: AttributeConsensus<WifiLevel>;
+  outlets: AttributeConsensus<boolean>;
+  laptops: AttributeConsensus<boolean>;
+  tables: AttributeConsensus<TableLevel>;
+  calls: AttributeConsensus<boolean>;
+};
+
+// Same shape as a vote: null = don't filter on it. Levels are minimums
+// (wifi=poor also matches good).
+export type AttributeFilters = AttributeVote;
+
+type VoteRow = {
+  user_id: string;
+  created_at: string;
+  wifi: string | null;
+  outlets: boolean | null;
+  laptops: boolean | null;
+  tables: string | null;
+  calls: boolean | null;
+};
+
+const VOTE_COLUMNS = "cafe_id, user_id, created_at, wifi, outlets, laptops, tables, calls";
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Attributes change slowly (a café rarely loses its wifi overnight), so
+// votes decay much more slowly than check-in ratings
+function halfLifeHours() {
+  return envNumber("ATTRIBUTES_HALF_LIFE_DAYS", 60) * 24;
+}
+
+function lookbackDays() {
+  return envNumber("ATTRIBUTES_LOOKBACK_DAYS", 365);
+}
+
+// True if the vote (or filter set) has at least one attribute
+export function hasAnyAttribute(v: AttributeVote) {
+  return ATTRIBUTE_KEYS.some((k) => v[k] != null);
+}
+
+export function emptyAttributes(): CafeAttributes {
+  const none = { value: null, agreement: 0, votes: 0 };
+  return { wifi: none, outlets: none, laptops: none, tables: none, calls: none };
+}
+
+function consensus(tally: Map<string | boolean, number>, votes: number) {
+  let total = 0;
+  let best: string | boolean | null = null;
+  let bestWeight = 0;
+  let tied = false;
+
+  for (const [value, w] of tally) {
+    total += w;
+    if (w > bestWeight) {
+      best = value;
+      bestWeight = w;
+      tied = false;
+    } else if (w === bestWeight) {
+      tied = true;
+    }
+  }
+
+  if (total === 0) return { value: null, agreement: 0, votes };
+  return {
+    value: tied ? null : best,
+    agreement: Math.round((bestWeight / total) * 100) / 100,
+    votes,
+  };
+}
+
+// Weighted majority per attribute. Each user counts once per attribute
+// (their latest vote), weighted by how recent it is.
+export function computeAttributes(rows: VoteRow[], now = new Date()): CafeAttributes {
+  const newestFirst = [...rows].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+  const halfLife = halfLifeHours();
+  const result: Record<string, AttributeConsensus<string | boolean>> = {};
+
+  for (const key of ATTRIBUTE_KEYS) {
+    const voted = new Set<string>();
+    const tally = new Map<string | boolean, number>();
+
+    for (const row of newestFirst) {
+      const value = row[key];
+      if (value == null || voted.has(row.user_id)) continue;
+      voted.add(row.user_id);
+      tally.set(value, (tally.get(value) ?? 0) + recencyWeight(row.created_at, now, halfLife));
+    }
+
+    result[key] = consensus(tally, voted.size);
+  }
+
+  return result as CafeAttributes;
+}
+
+export async function getCafeAttributes(
+  supabase: TypedSupabaseClient,
+  cafeIds: string[]
+): Promise<Map<string, CafeAttributes>> {
+  const attributes = new Map<string, CafeAttributes>();
+  if (cafeIds.length === 0) return attributes;
+
+  const since = new Date(Date.now() - lookbackDays() * 86_400_000).toISOString();
+
+  const { data, error } = await supabase
+    .from("cafe_attribute_votes")
+    .select(VOTE_COLUMNS)
+    .in("cafe_id", cafeIds)
+    .gte("created_at", since);
+
+  if (error) throw error;
+
+  const byCafe = new Map<string, VoteRow[]>();
+  for (const row of data ?? []) {
+    const list = byCafe.get(row.cafe_id) ?? [];
+    list.push(row);
+    byCafe.set(row.cafe_id, list);
+  }
+
+  const now = new Date();
+  for (const id of cafeIds) {
+    attributes.set(id, computeAttributes(byCafe.get(id) ?? [], now));
+  }
+
+  return attributes;
+}
+
+export async function recordAttributeVote(
+  supabase: TypedSupabaseClient,
+  vote: AttributeVote & { cafeId: string; userId: string; checkinId: string | null }
+) {
+  const { error } = await supabase.from("cafe_attribute_votes").insert({
+    cafe_id: vote.cafeId,
+    user_id: vote.userId,
+    checkin_id: vote.checkinId,
+    wifi: vote.wifi,
+    outlets: vote.outlets,
+    laptops: vote.laptops,
+    tables: vote.tables,
+    calls: vote.calls,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+}
+
+function atLeast<L extends string>(levels: readonly L[], value: L | null, min: L) {
+  return value != null && levels.indexOf(value) >= levels.indexOf(min);
+}
+
+// Unknown (no consensus yet) fails every filter, like openNow
+export function matchesAttributeFilters(a: CafeAttributes, f: AttributeFilters) {
+  if (f.wifi != null && !atLeast(WIFI_LEVELS, a.wifi.value, f.wifi)) return false;
+  if (f.tables != null && !atLeast(TABLE_LEVELS, a.tables.value, f.tables)) return false;
+  if (f.outlets != null && a.outlets.value !== f.outlets) return false;
+  if (f.laptops != null && a.laptops.value !== f.laptops) return false;
+  if (f.calls != null && a.calls.value !== f.calls) return false;
+  return true;
+}
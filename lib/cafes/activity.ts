@@ -0,0 +1,176 @@
+import { selectAllRows, type TypedSupabaseClient } from "../supabase/server";
+import { checkinQuietness, type CheckinRatings } from "../quietScore";
+
+// How far back the weekly profile looks; 8 weeks gives each weekday/hour
+// slot a handful of samples without mixing in last season's patterns.
+export const PROFILE_DAYS = 56;
+
+type ActivityCheckin = CheckinRatings & { created_at: string };
+
+// Local wall-clock time for a UTC instant. utcOffsetMinutes is the café's
+// offset when last fetched (so DST shifts can put a check-in an hour off);
+// without one we fall back to UTC.
+function localTime(createdAt: string | Date, utcOffsetMinutes: number | null) {
+  const t = new Date(createdAt).getTime() + (utcOffsetMinutes ?? 0) * 60_000;
+  const d = new Date(t);
+  return { weekday: d.getUTCDay(), hour: d.getUTCHours() };
+}
+
+// Hour of day (0..23) in the café's local time
+export function localHour(createdAt: string, utcOffsetMinutes: number | null) {
+  return localTime(createdAt, utcOffsetMinutes).hour;
+}
+
+// Check-in counts per local hour of day
+export function hourlyHistogram(
+  checkins: { created_at: string }[],
+  utcOffsetMinutes: number | null
+): number[] {
+  const hours = new Array<number>(24).fill(0);
+  for (const c of checkins) {
+    hours[localHour(c.created_at, utcOffsetMinutes)]! += 1;
+  }
+  return hours;
+}
+
+export type WeeklyProfile = {
+  // [weekday 0=Sunday..6][hour 0..23]
+  counts: number[][];
+  // Mean quietness 0..100 of rated check-ins in the slot, null when none
+  quiet: (number | null)[][];
+};
+
+function grid<T>(fill: T): T[][] {
+  return Array.from({ length: 7 }, () => new Array<T>(24).fill(fill));
+}
+
+export function weeklyProfile(
+  checkins: ActivityCheckin[],
+  utcOffsetMinutes: number | null
+): WeeklyProfile {
+  const counts = grid(0);
+  const quietSum = grid(0);
+  const quietN = grid(0);
+
+  for (const c of checkins) {
+    const { weekday, hour } = localTime(c.created_at, utcOffsetMinutes);
+    counts[weekday]![hour]! += 1;
+
+    const q = checkinQuietness(c);
+    if (q != null) {
+      quietSum[weekday]![hour]! += q;
+      quietN[weekday]![hour]! += 1;
+    }
+  }
+
+  const quiet = quietSum.map((row, d) =>
+    row.map((sum, h) => {
+      const n = quietN[d]![h]!;
+      return n ? Math.round((sum / n) * 100) : null;
+    })
+  );
+
+  return { counts, quiet };
+}
+
+export type QuietPrediction = {
+  at: string;
+  // 0..100 from ratings around that weekday/hour, null without any
+  predicted_quiet_score: number | null;
+  // Check-ins in that slot relative to the café's busiest slot, 0..1
+  busyness: number;
+  samples: number;
+};
+
+const HOURS_PER_WEEK = 7 * 24;
+
+// "Quiet at this time": looks at the target weekday/hour in the café's local
+// time, borrowing half-weight from the neighbouring hours to smooth sparse data.
+export function predictQuietAt(
+  profile: WeeklyProfile,
+  checkins: ActivityCheckin[],
+  utcOffsetMinutes: number | null,
+  at: Date
+): QuietPrediction {
+  const { weekday, hour } = localTime(at, utcOffsetMinutes);
+
+  let sum = 0;
+  let weight = 0;
+  let samples = 0;
+
+  // Hours of the week, so 23:00 and the next day's 00:00 (Saturday night into
+  // Sunday included) are neighbours
+  const slotOf = (t: { weekday: number; hour: number }) => t.weekday * 24 + t.hour;
+  const target = slotOf({ weekday, hour });
+
+  for (const c of checkins) {
+    const diff = Math.abs(slotOf(localTime(c.created_at, utcOffsetMinutes)) - target);
+    const gap = Math.min(diff, HOURS_PER_WEEK - diff);
+    const w = gap === 0 ? 1 : gap === 1 ? 0.5 : 0;
+    if (!w) continue;
+
+    const q = checkinQuietness(c);
+    if (q == null) continue;
+    sum += w * q;
+    weight += w;
+    samples += 1;
+  }
+
+  const peak = Math.max(0, ...profile.counts.flat());
+  const slot = profile.counts[weekday]![hour]!;
+
+  return {
+    at: at.toISOString(),
+    predicted_quiet_score: weight ? Math.round((sum / weight) * 100) : null,
+    busyness: peak ? Math.round((slot / peak) * 100) / 100 : 0,
+    samples,
+  };
+}
+
+export async function loadProfileCheckins(
+  supabase: TypedSupabaseClient,
+  cafeIds: string[]
+) {
+  if (cafeIds.length === 0) return [];
+
+  const since = new Date(Date.now() - PROFILE_DAYS * 86_400_000).toISOString();
+  return selectAllRows((from, to) =>
+    supabase
+      .from("checkins")
+      .select("cafe_id, created_at, noise_level, crowdedness, seat_availability")
+      .in("cafe_id", cafeIds)
+      .gte("created_at", since)
+      .is("voided_at", null)
+      .order("id")
+      .range(from, to)
+  );
+}
+
+export async function withQuietPredictions<
+  T extends { id: string; utc_offset_minutes: number | null }
+>(
+  supabase: TypedSupabaseClient,
+  cafes: T[],
+  at: Date
+): Promise<(T & { quiet_at: QuietPrediction })[]> {
+  const rows = await loadProfileCheckins(
+    supabase,
+    cafes.map((c) => c.id)
+  );
+
+  const byCafe = new Map<string, ActivityCheckin[]>();
+  for (const row of rows) {
+    const list = byCafe.get(row.cafe_id) ?? [];
+    list.push(row);
+    byCafe.set(row.cafe_id, list);
+  }
+
+  return cafes.map((c) => {
+    const checkins = byCafe.get(c.id) ?? [];
+    const profile = weeklyProfile(checkins, c.utc_offset_minutes);
+    return {
+      ...c,
+      quiet_at: predictQuietAt(profile, checkins, c.utc_offset_minutes, at),
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import type { TypedSupabaseClient } from "../supabase/server";
+import type { AdminCafeResponse } from "../api/contracts";
+
+export const ADMIN_CAFE_COLUMNS =
+  "id, place_id, name, address, lat, lng, google_rating, user_ratings_total, price_level, types, utc_offset_minutes, locked, last_fetched_at, created_at, updated_at";
+
+export const ADMIN_CHECKIN_COLUMNS =
+  "id, cafe_id, user_id, created_at, noise_level, crowdedness, seat_availability, verification_status, distance_m, location_accuracy_m, voided_at, voided_by, void_reason, cafe:cafes(id, name, address)";
+
+// ilike wildcards and PostgREST list syntax have no business in a search box
+export function searchPattern(q: string) {
+  return `%${q.replace(/[%_*,()\\]/g, " ").trim()}%`;
+}
+
+async function countFor(
+  supabase: TypedSupabaseClient,
+  table: "checkins" | "cafe_reviews" | "cafe_attribute_votes",
+  cafeId: string
+) {
+  const { count, error } = await supabase
+    .from(table)
+    .select("cafe_id", { count: "exact", head: true })
+    .eq("cafe_id", cafeId);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// One café with what hangs off it, for the edit and merge screens
+export async function loadAdminCafe(
+  supabase: TypedSupabaseClient,
+  id: string
+): Promise<AdminCafeResponse | null> {
+  const { data: cafe, error } = await supabase
+    .from("cafes")
+    .select(ADMIN_CAFE_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!cafe) return null;
+
+  const [aliases, checkins, reviews, attributeVotes] = await Promise.all([
+    supabase.from("cafe_place_aliases").select("place_id").eq("cafe_id", id).order("created_at"),
+    countFor(supabase, "checkins", id),
+    countFor(supabase, "cafe_reviews", id),
+    countFor(supabase, "cafe_attribute_votes", id),
+  ]);
+  if (aliases.error) throw aliases.error;
+
+  return {
+    cafe,
+    aliases: (aliases.data ?? []).map((a) => a.place_id),
+    counts: { checkins, reviews, attributeVotes },
+  };
+}
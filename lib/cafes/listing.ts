@@ -0,0 +1,94 @@
+import { haversineMeters, type LatLng } from "../geo";
+import { isOpenAt, type OpeningHours } from "../openingHours";
+
+export const SORT_OPTIONS = ["distance", "rating", "name", "quiet"] as const;
+export type CafeSort = (typeof SORT_OPTIONS)[number];
+
+export type CafeFilters = {
+  minRating: number | null;
+  maxPrice: number | null;
+  openNow: boolean;
+};
+
+type ListableCafe = {
+  name: string;
+  lat: number;
+  lng: number;
+  google_rating: number | null;
+  user_ratings_total: number | null;
+  price_level: number | null;
+  opening_hours: unknown; // jsonb, stored verbatim from Places regularOpeningHours
+  utc_offset_minutes: number | null;
+};
+
+export function isCafeSort(v: string): v is CafeSort {
+  return (SORT_OPTIONS as readonly string[]).includes(v);
+}
+
+export function withDistanceAndHours<T extends ListableCafe>(
+  cafes: T[],
+  origin: LatLng,
+  now: Date
+): (T & { distance_m: number; open_now: boolean | null })[] {
+  return cafes.map((c) => ({
+    ...c,
+    distance_m: Math.round(haversineMeters(origin, c)),
+    open_now: isOpenAt(c.opening_hours as OpeningHours | null, c.utc_offset_minutes, now),
+  }));
+}
+
+// Unknown values fail minRating/openNow (we can't vouch for them) but pass
+// maxPrice, since Google omits priceLevel for a lot of small cafés.
+export function applyCafeFilters<
+  T extends ListableCafe & { open_now: boolean | null }
+>(cafes: T[], f: CafeFilters): T[] {
+  return cafes.filter((c) => {
+    if (f.minRating != null && (c.google_rating ?? -1) < f.minRating) return false;
+    if (f.maxPrice != null && c.price_level != null && c.price_level > f.maxPrice) return false;
+    if (f.openNow && c.open_now !== true) return false;
+    return true;
+  });
+}
+
+export function sortCafes<
+  T extends ListableCafe & {
+    distance_m: number;
+    quiet_score?: number | null;
+    quiet_confidence?: number;
+  }
+>(cafes: T[], sort: CafeSort): T[] {
+  const list = [...cafes];
+
+  switch (sort) {
+    case "name":
+      return list.sort((a, b) => a.name.localeCompare(b.name));
+
+    case "rating":
+      // rating (desc), then ratings count, then distance
+      return list.sort((a, b) => {
+        const ar = a.google_rating ?? -1;
+        const br = b.google_rating ?? -1;
+        if (br !== ar) return br - ar;
+        const an = a.user_ratings_total ?? -1;
+        const bn = b.user_ratings_total ?? -1;
+        if (bn !== an) return bn - an;
+        return a.distance_m - b.distance_m;
+      });
+
+    case "quiet":
+      // quiet score (desc, unscored last), then confidence, then distance
+      return list.sort((a, b) => {
+        const aq = a.quiet_score ?? -1;
+        const bq = b.quiet_score ?? -1;
+        if (bq !== aq) return bq - aq;
+        const ac = a.quiet_confidence ?? 0;
+        const bc = b.quiet_confidence ?? 0;
+        if (bc !== ac) return bc - ac;
+        return a.distance_m - b.distance_m;
+      });
+
+    case "distance":
+    default:
+      return list.sort((a, b) => a.distance_m - b.distance_m);
+  }
+}
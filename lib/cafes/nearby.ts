@@ -0,0 +1,59 @@
+import type { TypedSupabaseClient } from "../supabase/server";
+import type { LatLng } from "../geo";
+
+export type KnownCafe = {
+  place_id: string;
+  distance_m: number;
+  last_fetched_at: string | null;
+};
+
+// Cafés we already know about within the circle, nearest first, via the
+// cafes_nearby RPC (PostGIS ST_DWithin on cafes.geog, GiST-indexed).
+export async function findKnownCafesNearby(
+  supabase: TypedSupabaseClient,
+  params: LatLng & { radiusM: number }
+): Promise<KnownCafe[]> {
+  const { data, error } = await supabase.rpc("cafes_nearby", {
+    p_lat: params.lat,
+    p_lng: params.lng,
+    p_radius_m: params.radiusM,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+// PLACES_DB_MODE=primary (default) answers from the DB whenever local
+// coverage is good enough; "fallback" only uses it when Google can't be called.
+export function dbIsPrimary() {
+  return (process.env.PLACES_DB_MODE ?? "primary").trim().toLowerCase() !== "fallback";
+}
+
+// Coverage is good when we know enough cafés here and nearly all of them
+// were refreshed from Google recently. Sparse or stale areas go upstream.
+export function hasFreshCoverage(known: KnownCafe[], now = new Date()) {
+  const minResults = envNumber("PLACES_DB_MIN_RESULTS", 8);
+  const maxAgeMs = envNumber("PLACES_DB_MAX_AGE_SECONDS", 7 * 86400) * 1000;
+
+  if (known.length === 0 || known.length < minResults) return false;
+
+  const stale = known.filter(
+    (c) => !c.last_fetched_at || now.getTime() - new Date(c.last_fetched_at).getTime() > maxAgeMs
+  ).length;
+
+  return stale / known.length <= 0.2;
+}
+
+// Age of the stalest café in the set, so the UI can show data age for "db" results
+export function oldestFetchedAt(known: KnownCafe[]): string | null {
+  let oldest: string | null = null;
+  for (const c of known) {
+    if (c.last_fetched_at && (!oldest || c.last_fetched_at < oldest)) oldest = c.last_fetched_at;
+  }
+  return oldest;
+}
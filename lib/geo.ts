@@ -0,0 +1,28 @@
+export type LatLng = { lat: number; lng: number };
+
+const EARTH_RADIUS_M = 6_371_000;
+
+function toRad(deg: number) {
+  return (deg * Math.PI) / 180;
+}
+
+// Great-circle distance in meters
+export function haversineMeters(a: LatLng, b: LatLng) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Moves a point by the given meters north/east. Equirectangular
+// approximation — fine for the few-km distances we search over.
+export function offsetMeters(p: LatLng, northM: number, eastM: number): LatLng {
+  const dLat = northM / EARTH_RADIUS_M;
+  const dLng = eastM / (EARTH_RADIUS_M * Math.cos(toRad(p.lat)));
+  return {
+    lat: p.lat + (dLat * 180) / Math.PI,
+    lng: p.lng + (dLng * 180) / Math.PI,
+  };
+}
@@ -0,0 +1,50 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { GeocodeProvider, GeocodeResult } from "./provider";
+
+const DEFAULT_FIXTURE_PATH = "fixtures/geocode.json";
+
+type FixtureLocation = GeocodeResult & {
+  // Other names that should find this location ("the mission", "94110")
+  aliases?: string[];
+};
+
+let loaded: { file: string; locations: FixtureLocation[] } | null = null;
+
+async function loadFixtureLocations(): Promise<FixtureLocation[]> {
+  const file = path.resolve(
+    process.cwd(),
+    process.env.GEOCODE_FIXTURE_PATH ?? DEFAULT_FIXTURE_PATH
+  );
+  if (loaded?.file === file) return loaded.locations;
+
+  const json = JSON.parse(await readFile(file, "utf8"));
+  const locations: FixtureLocation[] = Array.isArray(json) ? json : json.locations ?? [];
+
+  loaded = { file, locations };
+  return locations;
+}
+
+function normalize(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Local stand-in for a geocoder: a location matches when every word of the
+// query appears in its label or one of its aliases.
+export const fixtureGeocodeProvider: GeocodeProvider = {
+  name: "fixture",
+  async geocode(query, limit) {
+    const words = normalize(query).split(" ").filter(Boolean);
+    const locations = await loadFixtureLocations();
+
+    return locations
+      .filter((loc) =>
+        [loc.label, ...(loc.aliases ?? [])].some((name) => {
+          const haystack = ` ${normalize(name)} `;
+          return words.every((w) => haystack.includes(w));
+        })
+      )
+      .slice(0, limit)
+      .map(({ label, lat, lng }) => ({ label, lat, lng }));
+  },
+};
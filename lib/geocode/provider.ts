@@ -0,0 +1,29 @@
+import { googleGeocodeProvider } from "../google/geocode";
+import { fixtureGeocodeProvider } from "./fixture";
+
+export type GeocodeResult = {
+  label: string;
+  lat: number;
+  lng: number;
+};
+
+export type GeocodeProvider = {
+  name: "google" | "fixture";
+  geocode(query: string, limit: number): Promise<GeocodeResult[]>;
+};
+
+// GEOCODE_PROVIDER=google|fixture, same defaults as PLACES_PROVIDER: Google
+// when a key is configured, local fixtures otherwise.
+export function getGeocodeProvider(): GeocodeProvider {
+  const configured = process.env.GEOCODE_PROVIDER?.trim().toLowerCase();
+
+  if (configured === "google") return googleGeocodeProvider;
+  if (configured === "fixture") return fixtureGeocodeProvider;
+  if (configured) {
+    throw new Error(`Unknown GEOCODE_PROVIDER "${configured}"`);
+  }
+
+  return process.env.GOOGLE_MAPS_API_KEY
+    ? googleGeocodeProvider
+    : fixtureGeocodeProvider;
+}
@@ -0,0 +1,53 @@
+import { haversineMeters, type LatLng } from "./geo";
+
+export const VERIFICATION_STATUSES = ["verified", "flagged", "unverified"] as const;
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+export type CheckinLocation = LatLng & { accuracyM: number | null };
+
+export type GeofenceResult =
+  | { ok: true; status: VerificationStatus; distanceM: number | null }
+  | { ok: false; distanceM: number };
+
+function envMeters(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Within this distance (plus reported accuracy) a check-in is verified
+function geofenceRadiusM() {
+  return envMeters("CHECKIN_GEOFENCE_M", 150);
+}
+
+// Beyond this distance a check-in is rejected outright
+function rejectDistanceM() {
+  return envMeters("CHECKIN_REJECT_DISTANCE_M", 2000);
+}
+
+// GPS fixes worse than this can't verify anything; cap how much slack they buy
+function maxAccuracyM() {
+  return envMeters("CHECKIN_MAX_ACCURACY_M", 500);
+}
+
+// Check-ins without a location are stored as "unverified"; ones outside the
+// geofence but not absurdly far are stored as "flagged" for the quiet score
+// to down-weight, rather than dropped. Any check-in with coordinates is held
+// to the reject distance.
+export function checkGeofence(
+  cafe: LatLng,
+  location: CheckinLocation | null
+): GeofenceResult {
+  if (!location) return { ok: true, status: "unverified", distanceM: null };
+
+  const distanceM = Math.round(haversineMeters(cafe, location));
+  if (distanceM > rejectDistanceM()) return { ok: false, distanceM };
+
+  // No reported accuracy buys no slack: verified only inside the bare geofence
+  const accuracy = location.accuracyM ?? 0;
+  if (accuracy > maxAccuracyM()) {
+    return { ok: true, status: "flagged", distanceM };
+  }
+
+  const status = distanceM <= geofenceRadiusM() + accuracy ? "verified" : "flagged";
+  return { ok: true, status, distanceM };
+}
@@ -0,0 +1,67 @@
+import type { GeocodeProvider, GeocodeResult } from "../geocode/provider";
+import { log } from "../log";
+import { placesUpstreamDuration, placesUpstreamRequests } from "../metrics";
+import { PlacesHttpError } from "./places";
+
+type GoogleGeocodeResponse = {
+  status: string; // OK, ZERO_RESULTS, OVER_QUERY_LIMIT, REQUEST_DENIED, ...
+  error_message?: string;
+  results?: {
+    formatted_address: string;
+    geometry: { location: { lat: number; lng: number } };
+    types?: string[];
+  }[];
+};
+
+// Overridable so tests and local stand-ins can point at a mock server
+function geocodingBaseUrl() {
+  return (process.env.GOOGLE_GEOCODING_BASE_URL ?? "https://maps.googleapis.com").replace(/\/+$/, "");
+}
+
+// Geocoding API (not Places): address or neighborhood → coordinates
+export async function geocodeAddress(query: string, limit: number): Promise<GeocodeResult[]> {
+  const params = new URLSearchParams({
+    address: query,
+    key: process.env.GOOGLE_MAPS_API_KEY!,
+  });
+  const region = process.env.GEOCODE_REGION?.trim();
+  if (region) params.set("region", region);
+
+  const started = performance.now();
+  const res = await fetch(`${geocodingBaseUrl()}/maps/api/geocode/json?${params}`, {
+    cache: "no-store",
+  });
+  const json = (await res.json().catch(() => null)) as GoogleGeocodeResponse | null;
+
+  // Geocoding reports most failures as 200 + status
+  const ok = res.ok && (json?.status === "OK" || json?.status === "ZERO_RESULTS");
+  const seconds = (performance.now() - started) / 1000;
+  placesUpstreamRequests.inc({ endpoint: "geocode", outcome: ok ? "ok" : "http_error" });
+  placesUpstreamDuration.observe(seconds, { endpoint: "geocode" });
+  log.info("places.upstream", {
+    endpoint: "geocode",
+    outcome: ok ? "ok" : "http_error",
+    status: res.status,
+    geocodeStatus: json?.status,
+    durationMs: Math.round(seconds * 1000),
+  });
+
+  if (!ok) {
+    throw new PlacesHttpError(
+      res.ok ? 502 : res.status,
+      json?.error_message ?? json?.status ?? "Unreadable response",
+      res.headers.get("retry-after")
+    );
+  }
+
+  return (json!.results ?? []).slice(0, limit).map((r) => ({
+    label: r.formatted_address,
+    lat: r.geometry.location.lat,
+    lng: r.geometry.location.lng,
+  }));
+}
+
+export const googleGeocodeProvider: GeocodeProvider = {
+  name: "google",
+  geocode: geocodeAddress,
+};
@@ -1,3 +1,11 @@
+import type { NearbySearchParams, PlaceProvider } from "../places/provider";
+import type { OpeningHours } from "../openingHours";
+import { log } from "../log";
+import { placesUpstreamDuration, placesUpstreamRequests } from "../metrics";
+
+// searchNearby returns at most 20 results and has no page token
+export const MAX_RESULTS_PER_SEARCH = 20;
+
 export type GooglePlace = {
   id: string; // place_id
   displayName?: { text?: string };
@@ -7,19 +15,84 @@ export type GooglePlace = {
   userRatingCount?: number;
   priceLevel?: string; // enum-like
   types?: string[];
+  regularOpeningHours?: OpeningHours;
+  utcOffsetMinutes?: number;
+  businessStatus?: string; // OPERATIONAL | CLOSED_TEMPORARILY | CLOSED_PERMANENTLY
 };
 
-export async function searchNearbyPlaces(params: {
-  lat: number;
-  lng: number;
-  radiusM: number;
-}) {
+// Same fields for nearby search (prefixed with "places.") and Place Details
+const PLACE_FIELDS = [
+  "id",
+  "displayName",
+  "formattedAddress",
+  "location",
+  "rating",
+  "userRatingCount",
+  "priceLevel",
+  "types",
+  "regularOpeningHours",
+  "utcOffsetMinutes",
+  "businessStatus",
+];
+
+export class PlacesHttpError extends Error {
+  readonly status: number;
+  // Seconds, when Google sends Retry-After
+  readonly retryAfter: number | null;
+
+  constructor(status: number, body: string, retryAfter: string | null) {
+    super(`Google Places error ${status}: ${body}`);
+    this.name = "PlacesHttpError";
+    this.status = status;
+    const n = retryAfter == null ? NaN : Number(retryAfter);
+    this.retryAfter = Number.isFinite(n) ? n : null;
+  }
+
+  // 429 and 5xx are worth retrying; other 4xx (bad key, bad request) aren't
+  get retryable() {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+// Overridable so tests and local stand-ins can point at a mock server
+function placesBaseUrl() {
+  return (process.env.GOOGLE_PLACES_BASE_URL ?? "https://places.googleapis.com").replace(/\/+$/, "");
+}
+
+// Per HTTP call. A hung call then fails like a network error, so the guard
+// retries it and counts it toward the breaker.
+function requestTimeout() {
+  const n = Number(process.env.PLACES_TIMEOUT_MS);
+  return AbortSignal.timeout(Number.isFinite(n) && n > 0 ? n : 8000);
+}
+
+function failureOutcome(err: unknown) {
+  return err instanceof Error && err.name === "TimeoutError" ? "timeout" : "network_error";
+}
+
+// Timed per HTTP call, so retries show up individually
+function observeUpstream(endpoint: string) {
+  const started = performance.now();
+  return (outcome: string, status?: number) => {
+    const seconds = (performance.now() - started) / 1000;
+    placesUpstreamRequests.inc({ endpoint, outcome });
+    placesUpstreamDuration.observe(seconds, { endpoint });
+    log.info("places.upstream", {
+      endpoint,
+      outcome,
+      status,
+      durationMs: Math.round(seconds * 1000),
+    });
+  };
+}
+
+export async function searchNearbyPlaces(params: NearbySearchParams) {
   const apiKey = process.env.GOOGLE_MAPS_API_KEY!;
-  const url = "https://places.googleapis.com/v1/places:searchNearby";
+  const url = `${placesBaseUrl()}/v1/places:searchNearby`;
 
   const body = {
     includedTypes: ["cafe"],
-    maxResultCount: 20,
+    maxResultCount: MAX_RESULTS_PER_SEARCH,
     locationRestriction: {
       circle: {
         center: { latitude: params.lat, longitude: params.lng },
@@ -28,26 +101,77 @@ export async function searchNearbyPlaces(params: {
     },
   };
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Goog-Api-Key": apiKey,
-      // FieldMask keeps responses small + cheaper
-      "X-Goog-FieldMask":
-        "places.id,places.displayName,places.formattedAddress,places.location,places.rating,places.userRatingCount,places.priceLevel,places.types",
-    },
-    body: JSON.stringify(body),
-    // For server routes, ensure no caching surprises:
-    cache: "no-store",
-  });
+  const observe = observeUpstream("searchNearby");
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": apiKey,
+        // FieldMask keeps responses small + cheaper
+        "X-Goog-FieldMask": PLACE_FIELDS.map((f) => `places.${f}`).join(","),
+      },
+      body: JSON.stringify(body),
+      // For server routes, ensure no caching surprises:
+      cache: "no-store",
+      signal: requestTimeout(),
+    });
+  } catch (err) {
+    observe(failureOutcome(err));
+    throw err;
+  }
+
+  observe(res.ok ? "ok" : "http_error", res.status);
 
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`Google Places error ${res.status}: ${text}`);
+    throw new PlacesHttpError(res.status, text, res.headers.get("retry-after"));
   }
 
   const json = await res.json();
   const places: GooglePlace[] = json.places ?? [];
   return places;
 }
+
+// null when Google no longer knows the place id (404)
+export async function getPlaceDetails(placeId: string): Promise<GooglePlace | null> {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY!;
+  const url = `${placesBaseUrl()}/v1/places/${encodeURIComponent(placeId)}`;
+  const observe = observeUpstream("placeDetails");
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      headers: {
+        "X-Goog-Api-Key": apiKey,
+        "X-Goog-FieldMask": PLACE_FIELDS.join(","),
+      },
+      cache: "no-store",
+      signal: requestTimeout(),
+    });
+  } catch (err) {
+    observe(failureOutcome(err));
+    throw err;
+  }
+
+  if (res.status === 404) {
+    observe("not_found", res.status);
+    return null;
+  }
+  observe(res.ok ? "ok" : "http_error", res.status);
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new PlacesHttpError(res.status, text, res.headers.get("retry-after"));
+  }
+
+  return (await res.json()) as GooglePlace;
+}
+
+export const googlePlaceProvider: PlaceProvider = {
+  name: "google",
+  searchNearby: searchNearbyPlaces,
+  getPlaceDetails,
+};
@@ -0,0 +1,201 @@
+import { performance } from "node:perf_hooks";
+import type { TypedSupabaseClient } from "./supabase/server";
+import type { Database } from "./supabase/database.types";
+import { getPlacesBudget } from "./places/budget";
+import { breakerStatus } from "./places/guard";
+import { cacheStats } from "./places/stats";
+import { log } from "./log";
+
+export type CheckStatus = "ok" | "degraded" | "down";
+
+export type CheckResult = {
+  status: CheckStatus;
+  latencyMs: number;
+  // Critical checks gate readiness; the others can only degrade status
+  critical: boolean;
+  // Ours, never a raw DB message (those go to the log)
+  message?: string;
+  details?: Record<string, unknown>;
+};
+
+export type HealthReport = {
+  status: CheckStatus;
+  live: true;
+  ready: boolean;
+  checkedAt: string;
+  checks: Record<string, CheckResult>;
+};
+
+type TableName = keyof Database["public"]["Tables"];
+
+export const REQUIRED_TABLES: TableName[] = [
+  "cafes",
+  "cafe_attribute_votes",
+  "cafe_lists",
+  "cafe_list_items",
+  "cafe_reviews",
+  "cafe_review_reports",
+  "cafe_place_aliases",
+  "checkins",
+  "places_cache",
+  "places_budget",
+  "rate_limit_hits",
+  "admin_audit_log",
+];
+
+function timeoutMs() {
+  const n = Number(process.env.HEALTH_CHECK_TIMEOUT_MS ?? 2000);
+  return Number.isFinite(n) && n > 0 ? n : 2000;
+}
+
+type Outcome = Omit<CheckResult, "latencyMs" | "critical">;
+
+// Runs one check with a deadline; a throw or timeout is "down"
+async function runCheck(
+  name: string,
+  critical: boolean,
+  fn: () => Promise<Outcome>
+): Promise<CheckResult> {
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Error(`Timed out after ${timeoutMs()}ms`);
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(timedOut), timeoutMs());
+  });
+
+  let outcome: Outcome;
+  try {
+    outcome = await Promise.race([fn(), deadline]);
+  } catch (err) {
+    if (err !== timedOut) log.warn("health.check_failed", { check: name, err });
+    outcome = { status: "down", message: err === timedOut ? timedOut.message : "Check failed" };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return { ...outcome, critical, latencyMs: Math.round(performance.now() - started) };
+}
+
+// Error codes (Postgres SQLSTATE or PGRST*) are safe to show; messages aren't
+function queryFailed(check: string, error: { code: string; message: string }): Outcome {
+  log.warn("health.check_failed", { check, code: error.code, err: error.message });
+  return { status: "down", message: "Query failed", details: { code: error.code } };
+}
+
+async function checkDatabase(supabase: TypedSupabaseClient): Promise<Outcome> {
+  const { error } = await supabase.from("cafes").select("id").limit(1);
+  if (error) return queryFailed("database", error);
+  return { status: "ok" };
+}
+
+async function checkTables(supabase: TypedSupabaseClient): Promise<Outcome> {
+  const results = await Promise.all(
+    REQUIRED_TABLES.map(async (table) => {
+      // Not a HEAD request: supabase-js reads an empty 404 as "no rows"
+      const { error } = await supabase.from(table).select("*").limit(0);
+      return { table, error };
+    })
+  );
+
+  const missing = results.filter((r) => r.error);
+  if (missing.length) {
+    log.warn("health.check_failed", {
+      check: "tables",
+      errors: Object.fromEntries(missing.map((r) => [r.table, r.error!.message])),
+    });
+    return {
+      status: "down",
+      message: `Missing or unreadable: ${missing.map((r) => r.table).join(", ")}`,
+      details: Object.fromEntries(missing.map((r) => [r.table, r.error!.code])),
+    };
+  }
+  return { status: "ok", details: { tables: REQUIRED_TABLES } };
+}
+
+// Calls the RPC for real, under a route/key no client can produce, so it
+// never eats into anyone's limit.
+async function checkRateLimitRpc(supabase: TypedSupabaseClient): Promise<Outcome> {
+  const { error } = await supabase.rpc("rate_limit_hit", {
+    p_route: "healthcheck",
+    p_ip_hash: "healthcheck",
+    p_window_seconds: 60,
+    p_limit: 1_000_000,
+  });
+  if (error) return queryFailed("rateLimitRpc", error);
+  return { status: "ok" };
+}
+
+async function checkPlaces(): Promise<Outcome> {
+  const configured = process.env.PLACES_PROVIDER?.trim().toLowerCase();
+  const hasKey = Boolean(process.env.GOOGLE_MAPS_API_KEY);
+  const provider = configured || (hasKey ? "google" : "fixture");
+  const breaker = breakerStatus();
+
+  if (provider === "fixture") {
+    return { status: "ok", message: "Using fixture places", details: { provider } };
+  }
+  if (!hasKey) {
+    return {
+      status: "down",
+      message: "GOOGLE_MAPS_API_KEY is not set",
+      details: { provider },
+    };
+  }
+  return {
+    status: breaker.state === "closed" ? "ok" : "degraded",
+    message: breaker.state === "closed" ? undefined : `Circuit ${breaker.state}`,
+    details: { provider, breaker },
+  };
+}
+
+async function checkBudget(supabase: TypedSupabaseClient): Promise<Outcome> {
+  const budget = await getPlacesBudget(supabase);
+  const details = {
+    day: {
+      used: budget.dayUsed,
+      limit: budget.dayLimit,
+      remaining: Math.max(0, budget.dayLimit - budget.dayUsed),
+    },
+    month: {
+      used: budget.monthUsed,
+      limit: budget.monthLimit,
+      remaining: Math.max(0, budget.monthLimit - budget.monthUsed),
+    },
+  };
+
+  if (!budget.allowed) {
+    return { status: "degraded", message: "Places budget exhausted", details };
+  }
+  return { status: "ok", details };
+}
+
+async function checkCache(): Promise<Outcome> {
+  return { status: "ok", details: cacheStats() };
+}
+
+// Deep check of every dependency. Ready means the critical ones (DB, tables,
+// rate-limit RPC) are up; Places problems only degrade, since the cafés
+// route falls back to cached and DB-only results.
+export async function healthReport(supabase: TypedSupabaseClient): Promise<HealthReport> {
+  const [database, tables, rateLimitRpc, places, placesBudget, placesCache] = await Promise.all([
+    runCheck("database", true, () => checkDatabase(supabase)),
+    runCheck("tables", true, () => checkTables(supabase)),
+    runCheck("rateLimitRpc", true, () => checkRateLimitRpc(supabase)),
+    runCheck("places", false, checkPlaces),
+    runCheck("placesBudget", false, () => checkBudget(supabase)),
+    runCheck("placesCache", false, checkCache),
+  ]);
+
+  const checks = { database, tables, rateLimitRpc, places, placesBudget, placesCache };
+  const results = Object.values(checks);
+  const ready = results.every((c) => !c.critical || c.status === "ok");
+
+  return {
+    status: !ready ? "down" : results.every((c) => c.status === "ok") ? "ok" : "degraded",
+    live: true,
+    ready,
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+}
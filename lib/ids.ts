@@ -0,0 +1,7 @@
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Path params aren't validated by Postgres until it errors; check first so a
+// bad id is a 404, not a 500
+export function isUuid(id: string) {
+  return UUID_RE.test(id);
+}
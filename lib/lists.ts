@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import type { TypedSupabaseClient } from "./supabase/server";
+import type { CafeList, ListCafe } from "./api/contracts";
+import { isUuid } from "./ids";
+
+export const MAX_LISTS_PER_USER = 20;
+export const MAX_ITEMS_PER_LIST = 200;
+
+const LIST_COLUMNS = "id, name, share_token, created_at, updated_at";
+const ITEM_COLUMNS =
+  "list_id, position, added_at, cafe:cafes(id, place_id, name, address, lat, lng, google_rating, user_ratings_total, price_level)";
+
+type ListRow = {
+  id: string;
+  name: string;
+  share_token: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Unguessable: the token is the only thing protecting a shared list
+export function newShareToken() {
+  return crypto.randomBytes(16).toString("base64url");
+}
+
+// Lists with their cafés in list order
+async function withCafes(supabase: TypedSupabaseClient, lists: ListRow[]): Promise<CafeList[]> {
+  if (lists.length === 0) return [];
+
+  const { data: items, error } = await supabase
+    .from("cafe_list_items")
+    .select(ITEM_COLUMNS)
+    .in(
+      "list_id",
+      lists.map((l) => l.id)
+    )
+    .order("position", { ascending: true })
+    .order("added_at", { ascending: true });
+
+  if (error) throw error;
+
+  const byList = new Map<string, ListCafe[]>();
+  for (const item of items ?? []) {
+    if (!item.cafe) continue;
+    const cafes = byList.get(item.list_id) ?? [];
+    cafes.push({ ...item.cafe, added_at: item.added_at });
+    byList.set(item.list_id, cafes);
+  }
+
+  return lists.map((l) => ({
+    id: l.id,
+    name: l.name,
+    shareToken: l.share_token,
+    created_at: l.created_at,
+    updated_at: l.updated_at,
+    cafes: byList.get(l.id) ?? [],
+  }));
+}
+
+export async function loadUserLists(supabase: TypedSupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("cafe_lists")
+    .select(LIST_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return withCafes(supabase, data ?? []);
+}
+
+// Someone else's list is "not found" too, so ids don't leak which lists exist
+export async function loadOwnedList(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  listId: string
+): Promise<CafeList | null> {
+  if (!isUuid(listId)) return null;
+
+  const { data, error } = await supabase
+    .from("cafe_lists")
+    .select(LIST_COLUMNS)
+    .eq("id", listId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return (await withCafes(supabase, [data]))[0]!;
+}
+
+export async function loadSharedList(
+  supabase: TypedSupabaseClient,
+  token: string
+): Promise<CafeList | null> {
+  const { data, error } = await supabase
+    .from("cafe_lists")
+    .select(LIST_COLUMNS)
+    .eq("share_token", token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return (await withCafes(supabase, [data]))[0]!;
+}
+
+// Item changes count as list edits (updated_at drives "Updated ..." on
+// shared lists)
+export async function touchList(supabase: TypedSupabaseClient, listId: string) {
+  const { error } = await supabase
+    .from("cafe_lists")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", listId);
+
+  if (error) throw error;
+}
+
+// Which of cafeIds the user has saved to any of their lists
+export async function savedCafeIds(
+  supabase: TypedSupabaseClient,
+  userId: string | null,
+  cafeIds: string[]
+): Promise<Set<string>> {
+  if (!userId || cafeIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from("cafe_list_items")
+    .select("cafe_id")
+    .eq("user_id", userId)
+    .in("cafe_id", cafeIds);
+
+  if (error) throw error;
+  return new Set((data ?? []).map((r) => r.cafe_id));
+}
@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export type RequestContext = {
+  requestId: string;
+  route: string;
+};
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(ctx: RequestContext, fn: () => T): T {
+  return requestContext.run(ctx, fn);
+}
+
+export function currentRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+function minLevel(): number {
+  const configured = process.env.LOG_LEVEL?.trim().toLowerCase() as LogLevel | undefined;
+  return LEVELS[configured ?? "info"] ?? LEVELS.info;
+}
+
+// Errors don't survive JSON.stringify; keep the useful bits (and DB codes)
+function serializeError(err: unknown): unknown {
+  if (!(err instanceof Error) && (typeof err !== "object" || err === null)) return err;
+  const e = err as Error & { code?: unknown; details?: unknown; cause?: unknown };
+  return {
+    name: e.name,
+    message: e.message,
+    code: e.code,
+    details: e.details,
+    stack: e.stack,
+    cause: e.cause ? serializeError(e.cause) : undefined,
+  };
+}
+
+function write(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+  if (LEVELS[level] < minLevel()) return;
+
+  const line: Record<string, unknown> = {
+    ts: new Date().toISOString(),
+    level,
+    event,
+    ...currentRequestContext(),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    line[key] = key === "err" ? serializeError(value) : value;
+  }
+
+  // One JSON object per line so log drains can parse it
+  const out = JSON.stringify(line);
+  if (level === "error") console.error(out);
+  else if (level === "warn") console.warn(out);
+  else console.log(out);
+}
+
+// Structured logger: log.info("places.cache", { result: "hit", key })
+export const log = {
+  debug: (event: string, fields?: Record<string, unknown>) => write("debug", event, fields),
+  info: (event: string, fields?: Record<string, unknown>) => write("info", event, fields),
+  warn: (event: string, fields?: Record<string, unknown>) => write("warn", event, fields),
+  error: (event: string, fields?: Record<string, unknown>) => write("error", event, fields),
+};
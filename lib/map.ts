@@ -0,0 +1,78 @@
+import type { LatLng } from "./geo";
+
+// Web Mercator math for the raster tile map (same scheme as OSM/XYZ tiles)
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 19;
+
+// Mercator stops short of the poles
+const MAX_LAT = 85.05112878;
+
+const EQUATOR_M_PER_PX = 156_543.03392; // at zoom 0
+
+export type Point = { x: number; y: number };
+
+// Point in "world pixels" at zoom z: (0,0) is the top-left of tile 0/0/0
+export function project(p: LatLng, zoom: number): Point {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lat = Math.max(-MAX_LAT, Math.min(MAX_LAT, p.lat));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((p.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export function unproject(pt: Point, zoom: number): LatLng {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * pt.y) / scale;
+  const lng = (pt.x / scale) * 360 - 180;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    // Keep longitudes in range after panning across the antimeridian
+    lng: ((((lng + 180) % 360) + 360) % 360) - 180,
+  };
+}
+
+export function metersPerPixel(lat: number, zoom: number) {
+  return (EQUATOR_M_PER_PX * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom;
+}
+
+// Largest zoom at which a circle of radiusM fits in a viewport whose
+// smaller side is viewportPx, with a little margin
+export function zoomForRadius(lat: number, radiusM: number, viewportPx: number) {
+  const fit = (viewportPx * 0.85) / (2 * radiusM);
+  const zoom = Math.floor(Math.log2((EQUATOR_M_PER_PX * Math.cos((lat * Math.PI) / 180)) * fit));
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+export type TileConfig = {
+  // XYZ template ("https://tile.example/{z}/{x}/{y}.png"), or null to draw
+  // a plain grid instead of fetching tiles (offline/local dev)
+  url: string | null;
+  attribution: string;
+};
+
+const OSM_TILES = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+// NEXT_PUBLIC_MAP_TILE_URL picks the tile server; "none" disables tiles.
+// Read at build time, like every NEXT_PUBLIC_* variable.
+export function mapTileConfig(): TileConfig {
+  const configured = process.env.NEXT_PUBLIC_MAP_TILE_URL?.trim();
+  if (configured?.toLowerCase() === "none") return { url: null, attribution: "" };
+
+  return {
+    url: configured || OSM_TILES,
+    attribution:
+      process.env.NEXT_PUBLIC_MAP_ATTRIBUTION?.trim() ??
+      (configured ? "" : "© OpenStreetMap contributors"),
+  };
+}
+
+export function tileUrl(template: string, z: number, x: number, y: number) {
+  return template
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
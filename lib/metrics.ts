@@ -0,0 +1,185 @@
+// Minimal in-process Prometheus registry: counters, gauges and histograms
+// with labels, rendered in the text exposition format by /api/metrics.
+// Per server instance; Prometheus sums across instances.
+
+type Labels = Record<string, string | number>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+};
+
+const registry = new Map<string, Metric>();
+
+function register<M extends Metric>(metric: M): M {
+  const existing = registry.get(metric.name);
+  if (existing) return existing as M; // module reloads in dev
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function labelKey(labels: Labels = {}) {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabel(String(labels[k]))}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, value: number) {
+  return `${name}${key ? `{${key}}` : ""} ${Number.isFinite(value) ? value : 0}`;
+}
+
+export function counter(name: string, help: string) {
+  const values = new Map<string, number>();
+
+  return register({
+    name,
+    help,
+    type: "counter" as const,
+    inc(labels?: Labels, by = 1) {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) ?? 0) + by);
+    },
+    get(labels?: Labels) {
+      return values.get(labelKey(labels)) ?? 0;
+    },
+    render: () => [...values].map(([key, v]) => series(name, key, v)),
+  });
+}
+
+// Gauges are read when scraped, so they never go stale
+export function gauge(name: string, help: string, collect: () => number | [Labels, number][]) {
+  return register({
+    name,
+    help,
+    type: "gauge" as const,
+    render() {
+      const value = collect();
+      if (typeof value === "number") return [series(name, "", value)];
+      return value.map(([labels, v]) => series(name, labelKey(labels), v));
+    },
+  });
+}
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export function histogram(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+  const data = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  return register({
+    name,
+    help,
+    type: "histogram" as const,
+    observe(value: number, labels?: Labels) {
+      const key = labelKey(labels);
+      const d = data.get(key) ?? { counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((b, i) => {
+        if (value <= b) d.counts[i]! += 1;
+      });
+      d.sum += value;
+      d.count += 1;
+      data.set(key, d);
+    },
+    render() {
+      const lines: string[] = [];
+      for (const [key, d] of data) {
+        const prefix = key ? `${key},` : "";
+        buckets.forEach((b, i) => {
+          lines.push(`${name}_bucket{${prefix}le="${b}"} ${d.counts[i]}`);
+        });
+        lines.push(`${name}_bucket{${prefix}le="+Inf"} ${d.count}`);
+        lines.push(series(`${name}_sum`, key, d.sum));
+        lines.push(series(`${name}_count`, key, d.count));
+      }
+      return lines;
+    },
+  });
+}
+
+export function renderMetrics(): string {
+  const out: string[] = [];
+  for (const metric of registry.values()) {
+    out.push(`# HELP ${metric.name} ${metric.help}`);
+    out.push(`# TYPE ${metric.name} ${metric.type}`);
+    out.push(...metric.render());
+  }
+  return out.join("\n") + "\n";
+}
+
+// ---------- app metrics ----------
+
+export const httpRequests = counter(
+  "http_requests_total",
+  "API requests by route and status code"
+);
+
+export const httpRequestDuration = histogram(
+  "http_request_duration_seconds",
+  "API request latency by route"
+);
+
+export const cafesResponses = counter(
+  "cafes_responses_total",
+  "GET /api/cafes responses by data source (cache, stale, db, google, fixture)"
+);
+
+export const placesUpstreamRequests = counter(
+  "places_upstream_requests_total",
+  "Google Places HTTP calls by outcome"
+);
+
+export const placesUpstreamDuration = histogram(
+  "places_upstream_duration_seconds",
+  "Google Places HTTP call latency"
+);
+
+export const placesUpstreamRejected = counter(
+  "places_upstream_rejected_total",
+  "Places calls (searches, details) not sent upstream, by reason (budget_exhausted, circuit_open)"
+);
+
+export const placesCafesUpserted = counter(
+  "places_cafes_upserted_total",
+  "Cafés upserted from place provider results"
+);
+
+export const placesCacheWrites = counter(
+  "places_cache_writes_total",
+  "places_cache writes by result (written, skipped_empty)"
+);
+
+export const rateLimitDecisions = counter(
+  "rate_limit_decisions_total",
+  "Rate-limit decisions by route and decision (allowed, blocked)"
+);
+
+export const checkinsCreated = counter(
+  "checkins_created_total",
+  "Check-ins created by verification status"
+);
+
+export const reviewsSubmitted = counter(
+  "reviews_submitted_total",
+  "Reviews by filter outcome (approved, held, rejected)"
+);
+
+export const reviewsModerated = counter(
+  "reviews_moderated_total",
+  "Moderation actions (approved, hidden, deleted, requeued)"
+);
+
+export const adminActions = counter(
+  "admin_actions_total",
+  "Audited admin actions (cafe.update, cache.purge, checkin.void, ...)"
+);
+
+export const placesStaleRefreshes = counter(
+  "places_stale_refreshes_total",
+  "Cafés handled by the scheduled stale refresh, by outcome (refreshed, closed, not_found, failed)"
+);
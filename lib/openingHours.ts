@@ -0,0 +1,48 @@
+// Subset of Places v1 regularOpeningHours we store in cafes.opening_hours.
+// Days are 0 = Sunday .. 6 = Saturday, times are in the place's local time.
+export type OpeningPoint = { day: number; hour: number; minute?: number };
+
+export type OpeningHours = {
+  periods?: { open: OpeningPoint; close?: OpeningPoint }[];
+  weekdayDescriptions?: string[];
+};
+
+const MINUTES_PER_WEEK = 7 * 24 * 60;
+
+function minuteOfWeek(p: OpeningPoint) {
+  return p.day * 24 * 60 + p.hour * 60 + (p.minute ?? 0);
+}
+
+// Whether the place is open at `at`, or null when we don't know its hours.
+// utcOffsetMinutes is the place's offset when it was last fetched, so this
+// can be an hour off around DST changes.
+export function isOpenAt(
+  hours: OpeningHours | null | undefined,
+  utcOffsetMinutes: number | null | undefined,
+  at: Date
+): boolean | null {
+  if (!hours?.periods?.length || utcOffsetMinutes == null) return null;
+
+  const local = new Date(at.getTime() + utcOffsetMinutes * 60_000);
+  const now =
+    local.getUTCDay() * 24 * 60 + local.getUTCHours() * 60 + local.getUTCMinutes();
+
+  for (const period of hours.periods) {
+    // Google marks 24/7 places with a single open period and no close
+    if (!period.close) return true;
+
+    const open = minuteOfWeek(period.open);
+    let close = minuteOfWeek(period.close);
+    // Periods can wrap past Saturday night into Sunday
+    if (close <= open) close += MINUTES_PER_WEEK;
+
+    if (
+      (now >= open && now < close) ||
+      (now + MINUTES_PER_WEEK >= open && now + MINUTES_PER_WEEK < close)
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
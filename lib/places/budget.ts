@@ -0,0 +1,91 @@
+import type { TypedSupabaseClient } from "../supabase/server";
+
+export type PlacesBudget = {
+  allowed: boolean;
+  dayUsed: number;
+  dayLimit: number;
+  monthUsed: number;
+  monthLimit: number;
+};
+
+function envLimit(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+export function budgetLimits() {
+  return {
+    dayLimit: envLimit("PLACES_DAILY_BUDGET", 1000),
+    monthLimit: envLimit("PLACES_MONTHLY_BUDGET", 20000),
+  };
+}
+
+// Budget periods are UTC calendar days/months
+function periodKeys(now = new Date()) {
+  const iso = now.toISOString();
+  return { day: `day:${iso.slice(0, 10)}`, month: `month:${iso.slice(0, 7)}` };
+}
+
+type BudgetRow = { allowed: boolean; day_used: number; month_used: number };
+
+function toBudget(
+  row: BudgetRow | undefined,
+  limits: ReturnType<typeof budgetLimits>
+): PlacesBudget {
+  return {
+    allowed: Boolean(row?.allowed),
+    dayUsed: Number(row?.day_used ?? 0),
+    dayLimit: limits.dayLimit,
+    monthUsed: Number(row?.month_used ?? 0),
+    monthLimit: limits.monthLimit,
+  };
+}
+
+// Atomically counts `calls` against today's and this month's budget, unless
+// that would exceed either one (then nothing is counted and allowed=false).
+export async function takePlacesBudget(
+  supabase: TypedSupabaseClient,
+  calls = 1
+): Promise<PlacesBudget> {
+  const limits = budgetLimits();
+  const keys = periodKeys();
+
+  const { data, error } = await supabase.rpc("places_budget_take", {
+    p_day_key: keys.day,
+    p_month_key: keys.month,
+    p_day_limit: limits.dayLimit,
+    p_month_limit: limits.monthLimit,
+    p_calls: calls,
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data; // supabase sometimes returns array
+  return toBudget(row, limits);
+}
+
+// Read-only view of usage so far
+export async function getPlacesBudget(supabase: TypedSupabaseClient): Promise<PlacesBudget> {
+  const limits = budgetLimits();
+  const keys = periodKeys();
+
+  const { data, error } = await supabase
+    .from("places_budget")
+    .select("period_key, calls")
+    .in("period_key", [keys.day, keys.month]);
+
+  if (error) throw error;
+
+  const used = new Map((data ?? []).map((r) => [r.period_key, r.calls]));
+  const dayUsed = used.get(keys.day) ?? 0;
+  const monthUsed = used.get(keys.month) ?? 0;
+
+  return toBudget(
+    {
+      allowed: dayUsed < limits.dayLimit && monthUsed < limits.monthLimit,
+      day_used: dayUsed,
+      month_used: monthUsed,
+    },
+    limits
+  );
+}
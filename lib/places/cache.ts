@@ -0,0 +1,131 @@
+import type { TypedSupabaseClient } from "../supabase/server";
+import { haversineMeters, type LatLng } from "../geo";
+
+export const MAX_RADIUS_M = 5000;
+
+const METERS_PER_DEG_LAT = 111_320;
+
+// How long past expires_at a cache row may still be served as "stale"
+export function cacheMaxStaleSeconds() {
+  const n = Number(process.env.PLACES_CACHE_MAX_STALE_SECONDS ?? 86400);
+  return Math.max(0, Math.min(7 * 86400, n));
+}
+
+export type ContainingCacheHit = {
+  cache_key: string;
+  // Cached place ids that fall inside the requested circle, in cached order
+  place_ids: string[];
+  fetched_at: string;
+  expires_at: string;
+};
+
+// Finds an unexpired places_cache entry whose circle fully contains the
+// requested one, i.e. dist(centers) + radiusM <= entry radius. The DB query
+// only narrows by bounding box; containment is checked here.
+// includeExpired is for fallbacks when upstream is unavailable.
+export async function findContainingCacheEntry(
+  supabase: TypedSupabaseClient,
+  params: LatLng & { radiusM: number },
+  opts: { includeExpired?: boolean } = {}
+): Promise<ContainingCacheHit | null> {
+  const center = { lat: params.lat, lng: params.lng };
+
+  // A containing entry's center is at most (MAX_RADIUS_M - radiusM) away
+  const reachM = Math.max(0, MAX_RADIUS_M - params.radiusM);
+  const dLat = reachM / METERS_PER_DEG_LAT;
+  const dLng =
+    reachM / (METERS_PER_DEG_LAT * Math.max(0.01, Math.cos((params.lat * Math.PI) / 180)));
+
+  let query = supabase
+    .from("places_cache")
+    .select("cache_key, lat_center, lng_center, radius_m, place_ids, fetched_at, expires_at")
+    .gte("radius_m", params.radiusM)
+    .gte("lat_center", params.lat - dLat)
+    .lte("lat_center", params.lat + dLat)
+    .gte("lng_center", params.lng - dLng)
+    .lte("lng_center", params.lng + dLng);
+
+  if (!opts.includeExpired) {
+    query = query.gt("expires_at", new Date().toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  // Prefer the tightest containing circle: fewest ids to filter, and
+  // usually the most specific search that was run.
+  const entry = (data ?? [])
+    .filter((e) => e.place_ids?.length)
+    .filter(
+      (e) =>
+        haversineMeters(center, { lat: e.lat_center, lng: e.lng_center }) +
+          params.radiusM <=
+        e.radius_m
+    )
+    .sort((a, b) => a.radius_m - b.radius_m)[0];
+
+  if (!entry) return null;
+
+  // Narrow the entry's ids to the requested circle using stored cafe coords
+  const { data: cafes, error: cafesErr } = await supabase
+    .from("cafes")
+    .select("place_id, lat, lng")
+    .in("place_id", entry.place_ids);
+
+  if (cafesErr) throw cafesErr;
+
+  const inside = new Set(
+    (cafes ?? [])
+      .filter((c) => haversineMeters(center, c) <= params.radiusM)
+      .map((c) => c.place_id)
+  );
+
+  return {
+    cache_key: entry.cache_key,
+    place_ids: entry.place_ids.filter((id) => inside.has(id)),
+    fetched_at: entry.fetched_at,
+    expires_at: entry.expires_at,
+  };
+}
+
+export const CACHE_ENTRY_COLUMNS =
+  "cache_key, lat_center, lng_center, radius_m, place_ids, fetched_at, expires_at";
+
+// Every entry (expired or not) centered within radiusM of lat/lng, for the
+// admin cache tools. Same bounding-box-then-distance approach as above.
+export async function findCacheEntriesInArea(
+  supabase: TypedSupabaseClient,
+  params: LatLng & { radiusM: number }
+) {
+  const dLat = params.radiusM / METERS_PER_DEG_LAT;
+  const dLng =
+    params.radiusM /
+    (METERS_PER_DEG_LAT * Math.max(0.01, Math.cos((params.lat * Math.PI) / 180)));
+
+  const { data, error } = await supabase
+    .from("places_cache")
+    .select(CACHE_ENTRY_COLUMNS)
+    .gte("lat_center", params.lat - dLat)
+    .lte("lat_center", params.lat + dLat)
+    .gte("lng_center", params.lng - dLng)
+    .lte("lng_center", params.lng + dLng)
+    .order("fetched_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).filter(
+    (e) => haversineMeters(params, { lat: e.lat_center, lng: e.lng_center }) <= params.radiusM
+  );
+}
+
+// Deletes entries that expired before `before`; returns their keys
+export async function purgeExpiredCacheEntries(supabase: TypedSupabaseClient, before: Date) {
+  const { data, error } = await supabase
+    .from("places_cache")
+    .delete()
+    .lt("expires_at", before.toISOString())
+    .select("cache_key");
+
+  if (error) throw error;
+  return (data ?? []).map((e) => e.cache_key);
+}
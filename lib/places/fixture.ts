@@ -0,0 +1,50 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { MAX_RESULTS_PER_SEARCH, type GooglePlace } from "../google/places";
+import { haversineMeters } from "../geo";
+import type { PlaceProvider } from "./provider";
+
+const DEFAULT_FIXTURE_PATH = "fixtures/places.json";
+
+let loaded: { file: string; places: GooglePlace[] } | null = null;
+
+async function loadFixturePlaces(): Promise<GooglePlace[]> {
+  const file = path.resolve(
+    process.cwd(),
+    process.env.PLACES_FIXTURE_PATH ?? DEFAULT_FIXTURE_PATH
+  );
+  if (loaded?.file === file) return loaded.places;
+
+  const json = JSON.parse(await readFile(file, "utf8"));
+  // Accept either a bare array or the Places API response shape
+  const places: GooglePlace[] = Array.isArray(json) ? json : json.places ?? [];
+
+  loaded = { file, places };
+  return places;
+}
+
+// Serves GooglePlace-shaped data from a local JSON file, filtered to the
+// requested circle the same way locationRestriction would be, and capped
+// like Google so tiling behaves the same offline.
+export const fixturePlaceProvider: PlaceProvider = {
+  name: "fixture",
+  async searchNearby(params) {
+    const places = await loadFixturePlaces();
+    const center = { lat: params.lat, lng: params.lng };
+
+    return places
+      .filter((p) => {
+        if (!p.location) return false;
+        const d = haversineMeters(center, {
+          lat: p.location.latitude,
+          lng: p.location.longitude,
+        });
+        return d <= params.radiusM;
+      })
+      .slice(0, MAX_RESULTS_PER_SEARCH);
+  },
+  async getPlaceDetails(placeId) {
+    const places = await loadFixturePlaces();
+    return places.find((p) => p.id === placeId) ?? null;
+  },
+};
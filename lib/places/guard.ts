@@ -0,0 +1,157 @@
+import { PlacesHttpError } from "../google/places";
+import { supabaseAdmin } from "../supabase/server";
+import { log } from "../log";
+import { placesUpstreamRejected } from "../metrics";
+import { takePlacesBudget } from "./budget";
+import type { PlaceProvider } from "./provider";
+
+export type UpstreamFailure = "budget_exhausted" | "circuit_open" | "upstream_error";
+
+// Thrown instead of raw upstream errors so callers can fall back to cached or
+// DB-only results rather than 500ing.
+export class UpstreamUnavailableError extends Error {
+  readonly reason: UpstreamFailure;
+
+  constructor(reason: UpstreamFailure, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "UpstreamUnavailableError";
+    this.reason = reason;
+  }
+}
+
+function envInt(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Circuit breaker state, per server instance. Opens after
+// PLACES_BREAKER_THRESHOLD consecutive failures; after the cooldown one
+// trial call is let through (half-open) and decides whether it closes again.
+// Scheduled jobs get their own, so a bad refresh batch can't push user
+// searches onto fallbacks.
+type BreakerState = {
+  failures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+};
+
+export type BreakerName = "user" | "background";
+
+const breakers: Record<BreakerName, BreakerState> = {
+  user: { failures: 0, openedAt: null, trialInFlight: false },
+  background: { failures: 0, openedAt: null, trialInFlight: false },
+};
+
+export function breakerStatus(name: BreakerName = "user") {
+  const breaker = breakers[name];
+  const cooldownMs = envInt("PLACES_BREAKER_COOLDOWN_SECONDS", 60) * 1000;
+  if (breaker.openedAt == null) return { state: "closed" as const, failures: breaker.failures };
+  if (Date.now() - breaker.openedAt < cooldownMs) {
+    return { state: "open" as const, failures: breaker.failures };
+  }
+  return { state: "half_open" as const, failures: breaker.failures };
+}
+
+function recordSuccess(breaker: BreakerState) {
+  breaker.failures = 0;
+  breaker.openedAt = null;
+  breaker.trialInFlight = false;
+}
+
+function recordFailure(breaker: BreakerState) {
+  breaker.failures += 1;
+  breaker.trialInFlight = false;
+  if (breaker.failures >= envInt("PLACES_BREAKER_THRESHOLD", 5)) {
+    breaker.openedAt = Date.now();
+  }
+}
+
+// Network errors, timeouts, 429 and 5xx
+function isTransient(err: unknown) {
+  return err instanceof PlacesHttpError ? err.retryable : true;
+}
+
+async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+  const maxAttempts = Math.max(1, envInt("PLACES_RETRY_ATTEMPTS", 3));
+  const baseMs = envInt("PLACES_RETRY_BASE_MS", 250);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!isTransient(err) || attempt >= maxAttempts) throw err;
+
+      // Honour Retry-After, else exponential backoff with jitter
+      const retryAfterMs =
+        err instanceof PlacesHttpError && err.retryAfter != null ? err.retryAfter * 1000 : null;
+      const backoffMs = baseMs * 2 ** (attempt - 1) * (0.5 + Math.random());
+      await sleep(Math.min(retryAfterMs ?? backoffMs, 10_000));
+    }
+  }
+}
+
+// Budget + breaker + retry around a paid provider. Each logical call (a
+// search or a details lookup) counts once against the budget, however many
+// retries it takes.
+export function guardUpstream(provider: PlaceProvider, breakerName: BreakerName = "user"): PlaceProvider {
+  const breaker = breakers[breakerName];
+
+  async function guarded<T>(call: () => Promise<T>): Promise<T> {
+    const status = breakerStatus(breakerName);
+    if (status.state === "open" || (status.state === "half_open" && breaker.trialInFlight)) {
+      placesUpstreamRejected.inc({ reason: "circuit_open" });
+      log.warn("places.rejected", {
+        reason: "circuit_open",
+        provider: provider.name,
+        breaker: breakerName,
+        ...status,
+      });
+      throw new UpstreamUnavailableError(
+        "circuit_open",
+        `${provider.name} circuit open after ${status.failures} failures`
+      );
+    }
+    if (status.state === "half_open") breaker.trialInFlight = true;
+
+    let budget;
+    try {
+      budget = await takePlacesBudget(supabaseAdmin());
+    } catch (err) {
+      breaker.trialInFlight = false;
+      throw err;
+    }
+    if (!budget.allowed) {
+      breaker.trialInFlight = false;
+      placesUpstreamRejected.inc({ reason: "budget_exhausted" });
+      log.warn("places.rejected", { reason: "budget_exhausted", provider: provider.name, budget });
+      throw new UpstreamUnavailableError(
+        "budget_exhausted",
+        `${provider.name} budget exhausted (day ${budget.dayUsed}/${budget.dayLimit}, month ${budget.monthUsed}/${budget.monthLimit})`
+      );
+    }
+
+    try {
+      const result = await withRetry(call);
+      recordSuccess(breaker);
+      return result;
+    } catch (err: any) {
+      // Only outages count toward the breaker: a 400 for one bad request
+      // says nothing about whether Google is up
+      if (isTransient(err)) recordFailure(breaker);
+      else breaker.trialInFlight = false;
+      throw new UpstreamUnavailableError(
+        "upstream_error",
+        err?.message ?? `${provider.name} request failed`,
+        { cause: err }
+      );
+    }
+  }
+
+  return {
+    name: provider.name,
+    searchNearby: (params) => guarded(() => provider.searchNearby(params)),
+    getPlaceDetails: (placeId) => guarded(() => provider.getPlaceDetails(placeId)),
+  };
+}
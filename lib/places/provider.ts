@@ -0,0 +1,50 @@
+import type { GooglePlace } from "../google/places";
+import { googlePlaceProvider } from "../google/places";
+import { fixturePlaceProvider } from "./fixture";
+import { guardUpstream } from "./guard";
+
+// Lives next to the Google client so it doesn't import this module back
+export { MAX_RESULTS_PER_SEARCH } from "../google/places";
+
+export type NearbySearchParams = {
+  lat: number;
+  lng: number;
+  radiusM: number;
+};
+
+export type PlaceProvider = {
+  name: "google" | "fixture";
+  searchNearby(params: NearbySearchParams): Promise<GooglePlace[]>;
+  // null when the place id is gone upstream
+  getPlaceDetails(placeId: string): Promise<GooglePlace | null>;
+};
+
+// Google calls cost money: budget, circuit breaker and retries wrap them
+const guardedGoogle = guardUpstream(googlePlaceProvider);
+const backgroundGoogle = guardUpstream(googlePlaceProvider, "background");
+
+// PLACES_PROVIDER=google|fixture picks explicitly. Without it we use Google
+// when a key is configured and fall back to local fixtures otherwise, so dev
+// and CI work offline.
+export function getPlaceProvider(): PlaceProvider {
+  return selectProvider(guardedGoogle);
+}
+
+// Same choice for scheduled jobs, behind their own circuit breaker
+export function getBackgroundPlaceProvider(): PlaceProvider {
+  return selectProvider(backgroundGoogle);
+}
+
+function selectProvider(google: PlaceProvider): PlaceProvider {
+  const configured = process.env.PLACES_PROVIDER?.trim().toLowerCase();
+
+  if (configured === "google") return google;
+  if (configured === "fixture") return fixturePlaceProvider;
+  if (configured) {
+    throw new Error(`Unknown PLACES_PROVIDER "${configured}"`);
+  }
+
+  return process.env.GOOGLE_MAPS_API_KEY
+    ? google
+    : fixturePlaceProvider;
+}
@@ -0,0 +1,206 @@
+import { after } from "next/server";
+import type { TypedSupabaseClient } from "../supabase/server";
+import type { Json, TablesInsert } from "../supabase/database.types";
+import { log } from "../log";
+import { placesCacheWrites, placesCafesUpserted } from "../metrics";
+import type { GooglePlace } from "../google/places";
+import { getPlaceProvider, type PlaceProvider } from "./provider";
+import { searchNearbyCovered } from "./tiling";
+
+const PARTIAL_TTL_SECONDS = 60;
+
+export type NearbyQuery = {
+  key: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+  ttlSeconds: number;
+};
+
+export type NearbyRefresh = {
+  source: PlaceProvider["name"];
+  placeIds: string[];
+  fetchedAt: string;
+  // null when nothing was cached (empty results)
+  expiresAt: string | null;
+};
+
+// Normalizes a Places result into a cafes row; null without id or location
+export function toCafeRow(p: GooglePlace, fetchedAt: string): TablesInsert<"cafes"> | null {
+  const loc = p.location;
+  if (!p.id || !loc) return null;
+
+  // priceLevel from v1 is an enum string (PRICE_LEVEL_*). Match exactly:
+  // "VERY_EXPENSIVE" also contains "EXPENSIVE".
+  const priceLevelInt =
+    p.priceLevel === "PRICE_LEVEL_FREE" ? 0 :
+    p.priceLevel === "PRICE_LEVEL_INEXPENSIVE" ? 1 :
+    p.priceLevel === "PRICE_LEVEL_MODERATE" ? 2 :
+    p.priceLevel === "PRICE_LEVEL_EXPENSIVE" ? 3 :
+    p.priceLevel === "PRICE_LEVEL_VERY_EXPENSIVE" ? 4 :
+    null;
+
+  return {
+    place_id: p.id,
+    name: p.displayName?.text ?? "Unknown",
+    address: p.formattedAddress ?? null,
+    lat: loc.latitude,
+    lng: loc.longitude,
+    google_rating: p.rating ?? null,
+    user_ratings_total: p.userRatingCount ?? null,
+    price_level: priceLevelInt,
+    types: p.types ?? null,
+    opening_hours: (p.regularOpeningHours as Json | undefined) ?? null,
+    utc_offset_minutes: p.utcOffsetMinutes ?? null,
+    business_status: p.businessStatus ?? null,
+    permanently_closed: p.businessStatus === "CLOSED_PERMANENTLY",
+    last_fetched_at: fetchedAt,
+    updated_at: fetchedAt,
+  };
+}
+
+// Operator overrides for these place ids: cafés locked after a hand edit, and
+// place ids merged into another café (-> that café's place id)
+async function loadOverrides(supabase: TypedSupabaseClient, placeIds: string[]) {
+  const locked = new Set<string>();
+  const aliases = new Map<string, string>();
+  if (placeIds.length === 0) return { locked, aliases };
+
+  const [lockedRes, aliasRes] = await Promise.all([
+    supabase.from("cafes").select("place_id").in("place_id", placeIds).eq("locked", true),
+    supabase.from("cafe_place_aliases").select("place_id, cafe:cafes(place_id)").in("place_id", placeIds),
+  ]);
+  if (lockedRes.error) throw lockedRes.error;
+  if (aliasRes.error) throw aliasRes.error;
+
+  for (const row of lockedRes.data ?? []) locked.add(row.place_id);
+  for (const row of aliasRes.data ?? []) {
+    if (row.cafe) aliases.set(row.place_id, row.cafe.place_id);
+  }
+  return { locked, aliases };
+}
+
+// Calls the place provider, upserts cafés and writes the cache row
+export async function refreshNearby(
+  supabase: TypedSupabaseClient,
+  q: NearbyQuery
+): Promise<NearbyRefresh> {
+  // Tile the radius when a single search comes back full
+  const provider = getPlaceProvider();
+  const { places, searches, complete, interrupted } = await searchNearbyCovered(provider, {
+    lat: q.lat,
+    lng: q.lng,
+    radiusM: q.radiusM,
+  });
+
+  const fetchedAt = new Date().toISOString();
+
+  // Normalize and upsert into cafes
+  const cafesToUpsert = places
+    .map((p) => toCafeRow(p, fetchedAt))
+    .filter((c): c is TablesInsert<"cafes"> => c != null);
+
+  // Locked cafés only get their fetch time bumped; merged-away ids are
+  // never re-created
+  const { locked, aliases } = await loadOverrides(supabase, cafesToUpsert.map((c) => c.place_id));
+  const upserts = cafesToUpsert.filter((c) => !locked.has(c.place_id) && !aliases.has(c.place_id));
+
+  log.info("places.refresh", {
+    provider: provider.name,
+    key: q.key,
+    returned: places.length,
+    searches,
+    complete,
+    interrupted,
+    upserted: upserts.length,
+    locked: locked.size,
+    aliased: aliases.size,
+  });
+
+  if (upserts.length) {
+    const { error: upsertErr } = await supabase
+      .from("cafes")
+      .upsert(upserts, { onConflict: "place_id" });
+
+    if (upsertErr) throw upsertErr;
+    placesCafesUpserted.inc({ provider: provider.name }, upserts.length);
+  }
+
+  if (locked.size) {
+    const { error: touchErr } = await supabase
+      .from("cafes")
+      .update({ last_fetched_at: fetchedAt })
+      .in("place_id", [...locked]);
+
+    if (touchErr) throw touchErr;
+  }
+
+  const placeIds = [...new Set(cafesToUpsert.map((c) => aliases.get(c.place_id) ?? c.place_id))];
+
+  if (placeIds.length === 0) {
+    // Don't poison the cache with empty results
+    placesCacheWrites.inc({ result: "skipped_empty" });
+    log.warn("places.cache_write_skipped", { provider: provider.name, key: q.key });
+    return { source: provider.name, placeIds, fetchedAt, expiresAt: null };
+  }
+
+  // Upsert cache row. When a tile failed the area is missing cafés, so keep
+  // the row only briefly and let the next request try again.
+  const ttlSeconds = interrupted ? Math.min(q.ttlSeconds, PARTIAL_TTL_SECONDS) : q.ttlSeconds;
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+  const { error: cacheUpsertErr } = await supabase
+    .from("places_cache")
+    .upsert(
+      {
+        cache_key: q.key,
+        // Store the real center (not the rounded key) so containment
+        // checks in findContainingCacheEntry are exact
+        lat_center: q.lat,
+        lng_center: q.lng,
+        radius_m: q.radiusM,
+        place_ids: placeIds,
+        fetched_at: fetchedAt,
+        expires_at: expiresAt,
+        // raw: { places }, // optionally store raw; can get big
+      },
+      { onConflict: "cache_key" }
+    );
+
+  if (cacheUpsertErr) throw cacheUpsertErr;
+  placesCacheWrites.inc({ result: "written" });
+
+  return { source: provider.name, placeIds, fetchedAt, expiresAt };
+}
+
+// One upstream fetch per cache key at a time, per server instance.
+// Concurrent misses and background revalidations share the same promise.
+const inflight = new Map<string, Promise<NearbyRefresh>>();
+
+export function refreshNearbyOnce(
+  supabase: TypedSupabaseClient,
+  q: NearbyQuery
+): Promise<NearbyRefresh> {
+  const existing = inflight.get(q.key);
+  if (existing) return existing;
+
+  const p = refreshNearby(supabase, q).finally(() => {
+    inflight.delete(q.key);
+  });
+  inflight.set(q.key, p);
+  return p;
+}
+
+// Stale-while-revalidate: refresh after the response has been sent. Outside
+// a Next request scope (scripts, tests) after() throws, so just start it.
+export function refreshNearbyInBackground(supabase: TypedSupabaseClient, q: NearbyQuery) {
+  const task = () =>
+    refreshNearbyOnce(supabase, q).catch((err) => {
+      log.error("places.background_refresh_failed", { key: q.key, err });
+    });
+
+  try {
+    after(task);
+  } catch {
+    void task();
+  }
+}
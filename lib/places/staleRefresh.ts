@@ -0,0 +1,183 @@
+import type { TypedSupabaseClient } from "../supabase/server";
+import type { TablesUpdate } from "../supabase/database.types";
+import { log } from "../log";
+import { placesStaleRefreshes } from "../metrics";
+import { getPlacesBudget } from "./budget";
+import { cacheMaxStaleSeconds, purgeExpiredCacheEntries } from "./cache";
+import { UpstreamUnavailableError } from "./guard";
+import { getBackgroundPlaceProvider, type PlaceProvider } from "./provider";
+import { toCafeRow } from "./refresh";
+
+export type StaleRefreshSummary = {
+  provider: PlaceProvider["name"];
+  // Cafés past the age threshold that this run picked up
+  stale: number;
+  refreshed: number;
+  closed: number;
+  notFound: number;
+  failed: number;
+  // Why the run stopped before getting through them all, if it did
+  stoppedBy: "budget_share" | "budget_exhausted" | "circuit_open" | null;
+  cachePurged: number;
+};
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+const DAY_MS = 86_400_000;
+
+// 1, 2, 4, ... days after each failed lookup in a row, up to 30
+function retryDelayMs(failures: number) {
+  return Math.min(30, 2 ** (failures - 1)) * DAY_MS;
+}
+
+export function staleRefreshSettings() {
+  return {
+    maxAgeDays: envNumber("PLACES_REFRESH_MAX_AGE_DAYS", 30),
+    batchSize: Math.min(500, Math.floor(envNumber("PLACES_REFRESH_BATCH_SIZE", 50))),
+    // Never take today's (or this month's) usage past this share of the
+    // budget; the rest is left for user searches
+    budgetShare: Math.min(1, envNumber("PLACES_REFRESH_BUDGET_SHARE", 0.5)),
+  };
+}
+
+async function detailsAllowance(supabase: TypedSupabaseClient, share: number) {
+  const budget = await getPlacesBudget(supabase);
+  return Math.max(
+    0,
+    Math.min(
+      Math.floor(budget.dayLimit * share) - budget.dayUsed,
+      Math.floor(budget.monthLimit * share) - budget.monthUsed
+    )
+  );
+}
+
+// Re-fetches the stalest open cafés via Place Details (oldest first, one
+// batch per run), marks closed or vanished places, then purges cache rows
+// too old to be served even as stale. Cafés whose lookup fails back off
+// rather than being retried at the front of every run. Meant for a cron: /api/cron/refresh-stale
+// or `npm run places:refresh`.
+export async function refreshStaleCafes(
+  supabase: TypedSupabaseClient,
+  now = new Date()
+): Promise<StaleRefreshSummary> {
+  const settings = staleRefreshSettings();
+  const provider = getBackgroundPlaceProvider();
+  const summary: StaleRefreshSummary = {
+    provider: provider.name,
+    stale: 0,
+    refreshed: 0,
+    closed: 0,
+    notFound: 0,
+    failed: 0,
+    stoppedBy: null,
+    cachePurged: 0,
+  };
+
+  // Fixture lookups are free
+  const allowance =
+    provider.name === "google"
+      ? await detailsAllowance(supabase, settings.budgetShare)
+      : settings.batchSize;
+
+  const { data: stale, error } = await supabase.rpc("stale_cafes", {
+    p_fetched_before: new Date(now.getTime() - settings.maxAgeDays * DAY_MS).toISOString(),
+    p_now: now.toISOString(),
+    p_limit: settings.batchSize,
+  });
+
+  if (error) throw error;
+  summary.stale = stale.length;
+
+  const recordFailure = async (cafe: (typeof stale)[number], details: Record<string, unknown>) => {
+    summary.failed++;
+    placesStaleRefreshes.inc({ outcome: "failed" });
+    log.warn("places.stale_refresh_failed", { placeId: cafe.place_id, ...details });
+
+    const failures = cafe.refresh_failures + 1;
+    const { error: backoffErr } = await supabase
+      .from("cafes")
+      .update({
+        refresh_failures: failures,
+        refresh_retry_at: new Date(now.getTime() + retryDelayMs(failures)).toISOString(),
+      })
+      .eq("id", cafe.id);
+    if (backoffErr) throw backoffErr;
+  };
+
+  let calls = 0;
+  for (const cafe of stale) {
+    if (calls >= allowance) {
+      summary.stoppedBy = "budget_share";
+      break;
+    }
+    calls++;
+
+    let place;
+    try {
+      place = await provider.getPlaceDetails(cafe.place_id);
+    } catch (err) {
+      // Budget or breaker: nothing else will get through this run either
+      if (err instanceof UpstreamUnavailableError && err.reason !== "upstream_error") {
+        summary.stoppedBy = err.reason;
+        break;
+      }
+      await recordFailure(cafe, { err });
+      continue;
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const backoff = { refresh_failures: 0, refresh_retry_at: null };
+    let update: TablesUpdate<"cafes">;
+    let outcome: "refreshed" | "closed" | "not_found";
+
+    if (!place) {
+      // Google dropped the id. Treat it like a closure so it stops showing up
+      // (and stops costing a lookup every run).
+      update = {
+        business_status: "NOT_FOUND",
+        permanently_closed: true,
+        last_fetched_at: fetchedAt,
+        updated_at: fetchedAt,
+        ...backoff,
+      };
+      outcome = "not_found";
+    } else {
+      const row = toCafeRow(place, fetchedAt);
+      if (!row) {
+        await recordFailure(cafe, { reason: "no location" });
+        continue;
+      }
+
+      // Locked cafés keep their hand edits; only the status is taken. The
+      // stored place id stays put even if Google hands back a newer one.
+      update = cafe.locked
+        ? {
+            business_status: row.business_status,
+            permanently_closed: row.permanently_closed,
+            last_fetched_at: fetchedAt,
+            ...backoff,
+          }
+        : { ...row, place_id: cafe.place_id, ...backoff };
+      outcome = row.permanently_closed ? "closed" : "refreshed";
+    }
+
+    const { error: updateErr } = await supabase.from("cafes").update(update).eq("id", cafe.id);
+    if (updateErr) throw updateErr;
+
+    if (outcome === "refreshed") summary.refreshed++;
+    else if (outcome === "closed") summary.closed++;
+    else summary.notFound++;
+    placesStaleRefreshes.inc({ outcome });
+  }
+
+  // Past max-stale a cache row is only an outage fallback, and the cafes
+  // table covers that too
+  const purgeBefore = new Date(now.getTime() - cacheMaxStaleSeconds() * 1000);
+  summary.cachePurged = (await purgeExpiredCacheEntries(supabase, purgeBefore)).length;
+
+  log.info("places.stale_refresh", { ...summary, allowance, calls });
+  return summary;
+}
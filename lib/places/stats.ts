@@ -0,0 +1,31 @@
+import type { CafesResponse } from "../api/contracts";
+import { cafesResponses } from "../metrics";
+
+type CafesSource = CafesResponse["source"];
+
+const SOURCES: CafesSource[] = ["cache", "stale", "db", "google", "fixture"];
+
+// How GET /api/cafes answered, per server instance since it started
+export function recordCafesSource(source: CafesSource) {
+  cafesResponses.inc({ source });
+}
+
+export type CacheStats = {
+  bySource: Record<CafesSource, number>;
+  total: number;
+  // Share answered from places_cache (fresh or stale); null before any request
+  hitRatio: number | null;
+};
+
+export function cacheStats(): CacheStats {
+  const served = Object.fromEntries(
+    SOURCES.map((source) => [source, cafesResponses.get({ source })])
+  ) as Record<CafesSource, number>;
+  const total = Object.values(served).reduce((a, b) => a + b, 0);
+  const hits = served.cache + served.stale;
+  return {
+    bySource: served,
+    total,
+    hitRatio: total ? Math.round((hits / total) * 1000) / 1000 : null,
+  };
+}
@@ -0,0 +1,98 @@
+import type { GooglePlace } from "../google/places";
+import { haversineMeters, offsetMeters } from "../geo";
+import {
+  MAX_RESULTS_PER_SEARCH,
+  type NearbySearchParams,
+  type PlaceProvider,
+} from "./provider";
+
+const MIN_SUB_RADIUS_M = 150;
+
+function maxSearches() {
+  const n = Number(process.env.PLACES_MAX_SEARCHES_PER_QUERY ?? 15);
+  return Number.isFinite(n) ? Math.max(1, Math.floor(n)) : 15;
+}
+
+// Seven circles of radius r/2 (one centered, six on a ring at r·√3/2)
+// fully cover a disc of radius r.
+export function splitCircle(c: NearbySearchParams): NearbySearchParams[] {
+  const r = c.radiusM / 2;
+  const ring = (c.radiusM * Math.sqrt(3)) / 2;
+  const center = { lat: c.lat, lng: c.lng };
+
+  const subs: NearbySearchParams[] = [{ ...center, radiusM: r }];
+  for (let i = 0; i < 6; i++) {
+    const angle = (i * Math.PI) / 3;
+    const p = offsetMeters(center, ring * Math.cos(angle), ring * Math.sin(angle));
+    subs.push({ ...p, radiusM: r });
+  }
+  return subs;
+}
+
+export type CoveredSearchResult = {
+  places: GooglePlace[];
+  searches: number;
+  // false when we ran out of search budget while some tile was still saturated,
+  // or a tile failed upstream
+  complete: boolean;
+  // A tile failed upstream; a retry soon may well fill the gap
+  interrupted: boolean;
+};
+
+// Nearby search caps at 20 results, so a saturated circle is split into
+// sub-circles (breadth-first, bounded by PLACES_MAX_SEARCHES_PER_QUERY) and
+// the results merged and deduped by place id.
+export async function searchNearbyCovered(
+  provider: PlaceProvider,
+  params: NearbySearchParams
+): Promise<CoveredSearchResult> {
+  const budget = maxSearches();
+  const origin = { lat: params.lat, lng: params.lng };
+  const byId = new Map<string, GooglePlace>();
+
+  const queue: NearbySearchParams[] = [params];
+  let searches = 0;
+  let complete = true;
+  let interrupted = false;
+
+  while (queue.length) {
+    if (searches >= budget) {
+      complete = false;
+      break;
+    }
+
+    const circle = queue.shift()!;
+    let places: GooglePlace[];
+    try {
+      places = await provider.searchNearby(circle);
+    } catch (err) {
+      // Nothing to show yet: let the caller fall back. Otherwise keep what
+      // the earlier tiles found and report the result as incomplete.
+      if (searches === 0) throw err;
+      complete = false;
+      interrupted = true;
+      break;
+    }
+    searches += 1;
+
+    for (const p of places) {
+      if (!p.id || !p.location || byId.has(p.id)) continue;
+      // Sub-circles poke outside the requested circle; drop those hits
+      const d = haversineMeters(origin, {
+        lat: p.location.latitude,
+        lng: p.location.longitude,
+      });
+      if (d <= params.radiusM) byId.set(p.id, p);
+    }
+
+    if (places.length >= MAX_RESULTS_PER_SEARCH) {
+      if (circle.radiusM / 2 >= MIN_SUB_RADIUS_M) {
+        queue.push(...splitCircle(circle));
+      } else {
+        complete = false;
+      }
+    }
+  }
+
+  return { places: [...byId.values()], searches, complete, interrupted };
+}
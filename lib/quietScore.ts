@@ -0,0 +1,191 @@
+import { selectAllRows, type TypedSupabaseClient } from "./supabase/server";
+import type { VerificationStatus } from "./geofence";
+
+// Check-in ratings are all 1..5:
+//   noise_level:       1 = silent,   5 = very loud
+//   crowdedness:       1 = empty,    5 = packed
+//   seat_availability: 1 = no seats, 5 = plenty of seats
+export const RATING_MIN = 1;
+export const RATING_MAX = 5;
+
+export type CheckinRatings = {
+  noise_level: number | null;
+  crowdedness: number | null;
+  seat_availability: number | null;
+};
+
+export type CheckinForScore = CheckinRatings & {
+  cafe_id: string;
+  created_at: string;
+  verification_status: VerificationStatus | null;
+};
+
+export type QuietScore = {
+  quiet_score: number | null; // 0..100, higher = quieter
+  quiet_confidence: number; // 0..1
+  checkin_count: number;
+};
+
+const WEIGHTS = { noise: 0.5, crowd: 0.3, seats: 0.2 };
+
+// Check-ins we couldn't place at the café count for less. Leaving the
+// location out must never beat sending one that lands outside the geofence.
+const VERIFICATION_WEIGHTS: Record<VerificationStatus, number> = {
+  verified: 1,
+  flagged: 0.2,
+  unverified: 0.1,
+};
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Recent check-ins count more: weight halves every HALF_LIFE hours
+function halfLifeHours() {
+  return envNumber("QUIET_SCORE_HALF_LIFE_HOURS", 72);
+}
+
+// Ignore anything older than this entirely
+function lookbackDays() {
+  return envNumber("QUIET_SCORE_LOOKBACK_DAYS", 30);
+}
+
+// Total decayed weight at which confidence reaches ~63%
+function confidenceScale() {
+  return envNumber("QUIET_SCORE_CONFIDENCE_SCALE", 3);
+}
+
+export function isValidRating(v: unknown): v is number {
+  return (
+    typeof v === "number" &&
+    Number.isInteger(v) &&
+    v >= RATING_MIN &&
+    v <= RATING_MAX
+  );
+}
+
+// 0 (loudest) .. 1 (quietest)
+function normalize(v: number, invert: boolean) {
+  const x = (v - RATING_MIN) / (RATING_MAX - RATING_MIN);
+  return invert ? 1 - x : x;
+}
+
+// Quietness of a single check-in, or null if it carries no ratings
+export function checkinQuietness(c: CheckinRatings): number | null {
+  let sum = 0;
+  let weight = 0;
+
+  if (c.noise_level != null) {
+    sum += WEIGHTS.noise * normalize(c.noise_level, true);
+    weight += WEIGHTS.noise;
+  }
+  if (c.crowdedness != null) {
+    sum += WEIGHTS.crowd * normalize(c.crowdedness, true);
+    weight += WEIGHTS.crowd;
+  }
+  if (c.seat_availability != null) {
+    sum += WEIGHTS.seats * normalize(c.seat_availability, false);
+    weight += WEIGHTS.seats;
+  }
+
+  return weight > 0 ? sum / weight : null;
+}
+
+export function recencyWeight(createdAt: string, now: Date, halfLife = halfLifeHours()) {
+  const ageHours = Math.max(
+    0,
+    (now.getTime() - new Date(createdAt).getTime()) / 3_600_000
+  );
+  return Math.pow(0.5, ageHours / halfLife);
+}
+
+export function computeQuietScore(
+  checkins: CheckinForScore[],
+  now = new Date()
+): QuietScore {
+  let sum = 0;
+  let totalWeight = 0;
+  let count = 0;
+
+  for (const c of checkins) {
+    const q = checkinQuietness(c);
+    if (q == null) continue;
+
+    const w =
+      recencyWeight(c.created_at, now) *
+      VERIFICATION_WEIGHTS[c.verification_status ?? "unverified"];
+    sum += w * q;
+    totalWeight += w;
+    count += 1;
+  }
+
+  if (totalWeight === 0) {
+    return { quiet_score: null, quiet_confidence: 0, checkin_count: count };
+  }
+
+  const confidence = 1 - Math.exp(-totalWeight / confidenceScale());
+
+  return {
+    quiet_score: Math.round((sum / totalWeight) * 100),
+    quiet_confidence: Math.round(confidence * 100) / 100,
+    checkin_count: count,
+  };
+}
+
+// Loads recent check-ins for the given cafés and scores each one
+export async function getQuietScores(
+  supabase: TypedSupabaseClient,
+  cafeIds: string[]
+): Promise<Map<string, QuietScore>> {
+  const scores = new Map<string, QuietScore>();
+  if (cafeIds.length === 0) return scores;
+
+  const since = new Date(
+    Date.now() - lookbackDays() * 86_400_000
+  ).toISOString();
+
+  const rows = await selectAllRows((from, to) =>
+    supabase
+      .from("checkins")
+      .select("cafe_id, created_at, noise_level, crowdedness, seat_availability, verification_status")
+      .in("cafe_id", cafeIds)
+      .gte("created_at", since)
+      .is("voided_at", null)
+      .order("id")
+      .range(from, to)
+  );
+
+  const byCafe = new Map<string, CheckinForScore[]>();
+  for (const row of rows) {
+    const list = byCafe.get(row.cafe_id) ?? [];
+    list.push(row);
+    byCafe.set(row.cafe_id, list);
+  }
+
+  const now = new Date();
+  for (const id of cafeIds) {
+    scores.set(id, computeQuietScore(byCafe.get(id) ?? [], now));
+  }
+
+  return scores;
+}
+
+export async function withQuietScores<T extends { id: string }>(
+  supabase: TypedSupabaseClient,
+  cafes: T[]
+): Promise<(T & QuietScore)[]> {
+  const scores = await getQuietScores(
+    supabase,
+    cafes.map((c) => c.id)
+  );
+
+  return cafes.map((c) => ({
+    ...c,
+    ...(scores.get(c.id) ?? {
+      quiet_score: null,
+      quiet_confidence: 0,
+      checkin_count: 0,
+    }),
+  }));
+}
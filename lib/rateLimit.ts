@@ -1,6 +1,10 @@
 import crypto from "crypto";
 import type { NextRequest } from "next/server";
-import { supabaseAdmin } from "./supabase/server";
+import { supabaseAdmin, type TypedSupabaseClient } from "./supabase/server";
+import { apiError } from "./api/errors";
+import { log } from "./log";
+import { rateLimitDecisions } from "./metrics";
+import type { RateLimitUsage } from "./api/contracts";
 
 function getClientIp(req: NextRequest): string {
   // Vercel commonly provides x-forwarded-for: "client, proxy1, proxy2"
@@ -14,40 +18,259 @@ function getClientIp(req: NextRequest): string {
   return "0.0.0.0";
 }
 
-function sha256Base64Url(input: string): string {
+// What rate_limit_hits.ip_hash holds: an IP, or "user:<id>" for per-user limits
+export function hashRateLimitKey(input: string): string {
   return crypto.createHash("sha256").update(input).digest("base64url");
 }
 
+export type RateLimitPolicy = {
+  limit: number;
+  windowSeconds: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  used: number;
+  limit: number;
+  resetAt: Date;
+};
+
+export type RateLimitBackend = {
+  name: "supabase" | "memory";
+  hit(opts: {
+    route: string;
+    ipHash: string;
+    limit: number;
+    windowSeconds: number;
+  }): Promise<RateLimitResult>;
+};
+
+// Per-route defaults; routes not listed here use DEFAULT_POLICY
+export const RATE_LIMIT_POLICIES: Record<string, RateLimitPolicy> = {
+  "GET /api/cafes": { limit: 30, windowSeconds: 60 }, // spends Google quota on misses
+  "GET /api/cafes/[id]": { limit: 60, windowSeconds: 60 },
+  "GET /api/cafes/[id]/busy-hours": { limit: 60, windowSeconds: 60 },
+  "POST /api/cafes/[id]/attributes": { limit: 10, windowSeconds: 60 },
+  "GET /api/checkins": { limit: 60, windowSeconds: 60 },
+  "GET /api/geocode": { limit: 20, windowSeconds: 60 }, // spends Google quota
+  "POST /api/checkins": { limit: 10, windowSeconds: 60 },
+  "POST /api/cafes/[id]/reviews": { limit: 10, windowSeconds: 60 },
+  "POST /api/reviews/[id]/report": { limit: 20, windowSeconds: 60 },
+};
+
+// Per signed-in user, on top of the per-IP limit above: changing networks
+// doesn't reset these
+export const USER_RATE_LIMIT_POLICIES: Record<string, RateLimitPolicy> = {
+  "POST /api/cafes/[id]/reviews": { limit: 5, windowSeconds: 3600 },
+  "POST /api/reviews/[id]/report": { limit: 20, windowSeconds: 3600 },
+};
+
+const DEFAULT_POLICY: RateLimitPolicy = { limit: 60, windowSeconds: 60 };
+
+export function policyFor(route: string): RateLimitPolicy {
+  return RATE_LIMIT_POLICIES[route] ?? DEFAULT_POLICY;
+}
+
+// Shared across instances via the rate_limit_hit RPC
+export const supabaseRateLimitBackend: RateLimitBackend = {
+  name: "supabase",
+  async hit(opts) {
+    const supabase = supabaseAdmin();
+
+    const { data, error } = await supabase.rpc("rate_limit_hit", {
+      p_route: opts.route,
+      p_ip_hash: opts.ipHash,
+      p_window_seconds: opts.windowSeconds,
+      p_limit: opts.limit,
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data; // supabase sometimes returns array
+
+    return {
+      allowed: Boolean(row?.allowed),
+      used: Number(row?.used ?? 0),
+      limit: Number(row?.limit ?? opts.limit),
+      resetAt: row?.reset_at
+        ? new Date(row.reset_at)
+        : new Date(Date.now() + opts.windowSeconds * 1000),
+    };
+  },
+};
+
+// In-process sliding window (timestamp log per route+ip). Per instance only,
+// so it's meant for local dev and single-node setups.
+const hits = new Map<string, number[]>();
+const MAX_TRACKED_KEYS = 10_000;
+
+export const memoryRateLimitBackend: RateLimitBackend = {
+  name: "memory",
+  async hit(opts) {
+    const now = Date.now();
+    const windowMs = opts.windowSeconds * 1000;
+    const key = `${opts.route}|${opts.ipHash}`;
+
+    const log = (hits.get(key) ?? []).filter((t) => t > now - windowMs);
+    const allowed = log.length < opts.limit;
+    if (allowed) log.push(now);
+
+    // Re-insert so Map order tracks recency, then drop the stalest keys
+    hits.delete(key);
+    hits.set(key, log);
+    while (hits.size > MAX_TRACKED_KEYS) {
+      hits.delete(hits.keys().next().value!);
+    }
+
+    return {
+      allowed,
+      used: log.length,
+      limit: opts.limit,
+      resetAt: new Date((log[0] ?? now) + windowMs),
+    };
+  },
+};
+
+// RATE_LIMIT_BACKEND=supabase|memory; defaults to supabase when a service
+// key is configured.
+export function getRateLimitBackend(): RateLimitBackend {
+  const configured = process.env.RATE_LIMIT_BACKEND?.trim().toLowerCase();
+
+  if (configured === "supabase") return supabaseRateLimitBackend;
+  if (configured === "memory") return memoryRateLimitBackend;
+  if (configured) {
+    throw new Error(`Unknown RATE_LIMIT_BACKEND "${configured}"`);
+  }
+
+  return process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? supabaseRateLimitBackend
+    : memoryRateLimitBackend;
+}
+
 export async function enforceRateLimit(opts: {
   req: NextRequest;
   route: string; // e.g. "GET /api/cafes"
   limit: number; // e.g. 30
   windowSeconds: number; // e.g. 60
-}) {
-  const ip = getClientIp(opts.req);
-  const ipHash = sha256Base64Url(ip);
-
-  const supabase = supabaseAdmin();
+  // Who to count against; defaults to the client IP
+  key?: string;
+}): Promise<RateLimitResult> {
+  const ipHash = hashRateLimitKey(opts.key ?? getClientIp(opts.req));
 
-  const { data, error } = await supabase.rpc("rate_limit_hit", {
-    p_route: opts.route,
-    p_ip_hash: ipHash,
-    p_window_seconds: opts.windowSeconds,
-    p_limit: opts.limit,
+  return getRateLimitBackend().hit({
+    route: opts.route,
+    ipHash,
+    limit: opts.limit,
+    windowSeconds: opts.windowSeconds,
   });
+}
 
-  if (error) throw error;
+// Standard RateLimit-* headers (IETF draft): Reset is seconds from now
+export function rateLimitHeaders(rl: RateLimitResult): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(rl.limit),
+    "RateLimit-Remaining": String(Math.max(0, rl.limit - rl.used)),
+    "RateLimit-Reset": String(
+      Math.max(0, Math.ceil((rl.resetAt.getTime() - Date.now()) / 1000))
+    ),
+  };
+}
 
-  const row = Array.isArray(data) ? (data[0] as any) : (data as any); // supabase sometimes returns array
+export function rateLimitExceeded(rl: RateLimitResult) {
+  const retryAfterSec = Math.max(
+    1,
+    Math.ceil((rl.resetAt.getTime() - Date.now()) / 1000)
+  );
 
-  return {
-    allowed: Boolean(row?.allowed),
-    used: Number(row?.used ?? 0),
-    limit: Number(row?.limit ?? opts.limit),
-    resetAt: row?.reset_at
-      ? new Date(row.reset_at)
-      : new Date(Date.now() + opts.windowSeconds * 1000),
+  return apiError(
+    429,
+    "rate_limited",
+    "Rate limit exceeded",
+    {
+      used: rl.used,
+      limit: rl.limit,
+      resetAt: rl.resetAt.toISOString(),
+    },
+    {
+      headers: {
+        ...rateLimitHeaders(rl),
+        "Retry-After": String(retryAfterSec),
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+}
+
+// Per-user counterpart of withRateLimit, for handlers that already know the
+// caller: returns the 429 to send, or null when within the limit.
+export async function userRateLimit(
+  req: NextRequest,
+  route: string,
+  userId: string
+): Promise<Response | null> {
+  const policy = USER_RATE_LIMIT_POLICIES[route] ?? DEFAULT_POLICY;
+  const rl = await enforceRateLimit({ req, route: `user:${route}`, key: `user:${userId}`, ...policy });
+
+  const decision = rl.allowed ? "allowed" : "blocked";
+  rateLimitDecisions.inc({ route: `user:${route}`, decision });
+  if (!rl.allowed) {
+    log.info("rate_limit.decision", { scope: "user", decision, used: rl.used, limit: rl.limit });
+    return rateLimitExceeded(rl);
+  }
+  return null;
+}
+
+// Wraps a route handler: 429s over-limit callers and stamps RateLimit-*
+// headers on every response it lets through. Backend errors propagate;
+// apiRoute (lib/api/route.ts) turns them into a 500.
+export function withRateLimit<C>(
+  route: string,
+  handler: (req: NextRequest, ctx: C) => Promise<Response>,
+  policy: RateLimitPolicy = policyFor(route)
+) {
+  return async (req: NextRequest, ctx: C): Promise<Response> => {
+    const rl = await enforceRateLimit({ req, route, ...policy });
+
+    const decision = rl.allowed ? "allowed" : "blocked";
+    rateLimitDecisions.inc({ route, decision });
+    (rl.allowed ? log.debug : log.info)("rate_limit.decision", {
+      decision,
+      used: rl.used,
+      limit: rl.limit,
+    });
+
+    if (!rl.allowed) return rateLimitExceeded(rl);
+
+    const res = await handler(req, ctx);
+    for (const [name, value] of Object.entries(rateLimitHeaders(rl))) {
+      res.headers.set(name, value);
+    }
+    return res;
   };
 }
 
+// Recorded hits per route + ip_hash since `since`, busiest first (supabase
+// backend only; the memory backend keeps nothing shared to report on).
+// Per-user limits show up as "user:<route>". Grouped in SQL so PostgREST's
+// max-rows can't truncate the totals.
+export async function summarizeRateLimitHits(
+  supabase: TypedSupabaseClient,
+  opts: { since: Date; route: string | null; ipHash: string | null; limit: number }
+): Promise<RateLimitUsage[]> {
+  const limits: Record<string, number> = {};
+  for (const [route, policy] of Object.entries(RATE_LIMIT_POLICIES)) limits[route] = policy.limit;
+  for (const [route, policy] of Object.entries(USER_RATE_LIMIT_POLICIES)) {
+    limits[`user:${route}`] = policy.limit;
+  }
 
+  const { data, error } = await supabase.rpc("rate_limit_usage", {
+    p_since: opts.since.toISOString(),
+    p_route: opts.route,
+    p_ip_hash: opts.ipHash,
+    p_limits: limits,
+    p_default_limit: DEFAULT_POLICY.limit,
+    p_max_rows: opts.limit,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,99 @@
+// Content filter for reviews. Links and contact details are rejected
+// outright (the author can fix them); profanity and spammy text are
+// accepted but held for a moderator.
+
+export type FilterVerdict =
+  | { action: "allow" }
+  | { action: "hold"; reason: "profanity" | "spam" }
+  | { action: "reject"; message: string };
+
+// Base words; "fuck" also catches "fucking" and "fuuuck". Anything cleverer
+// is left to reports. REVIEW_BLOCKED_WORDS adds more (comma-separated).
+const DEFAULT_BLOCKED = [
+  "fuck",
+  "motherfucker",
+  "shit",
+  "bitch",
+  "cunt",
+  "asshole",
+  "bastard",
+  "dickhead",
+  "slut",
+  "whore",
+];
+
+const SUFFIXES = "(?:s|es|ed|er|ers|ing|in|y|ty|head|heads)?";
+
+const LEET: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", $: "s" };
+
+// Bare domains need a lowercase known TLD that really ends there (or runs
+// into a path), so a missing space after a full stop ("great.Co-workers")
+// isn't a link
+const LINK_RE =
+  /https?:\/\/|\bwww\.|\b[a-zA-Z0-9-]+\.(?:com|net|org|io|co|ru|xyz|info|biz|ly)(?=\/|[^\w-]|$)/;
+const EMAIL_RE = /[^\s@]+@[^\s@]+\.[a-z]{2,}/i;
+// Digit groups joined by single spaces, dots, dashes or brackets
+const PHONE_CANDIDATE_RE = /\+?\(?\d+\)?(?:[\s.-]?\(?\d+\)?)+/g;
+
+// A phone number has 9-15 digits and no decimal-looking group, so years
+// ("2023 2024") and prices ("3.50 4.50") in a row don't count
+function containsPhoneNumber(text: string) {
+  return (text.match(PHONE_CANDIDATE_RE) ?? []).some((m) => {
+    const digits = m.replace(/\D/g, "").length;
+    return digits >= 9 && digits <= 15 && !/\d\.\d{1,2}(?!\d)/.test(m);
+  });
+}
+
+function blockedWords() {
+  const extra = (process.env.REVIEW_BLOCKED_WORDS ?? "")
+    .split(",")
+    .map((w) => w.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_BLOCKED, ...extra];
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole words, letters may repeat ("fuuuck"), plus common endings. Whole
+// words keep "Scunthorpe" and "shiitake" out.
+function wordPattern(word: string) {
+  const letters = [...word].map((c) => `${escapeRegExp(c)}+`).join("");
+  return new RegExp(`\\b${letters}${SUFFIXES}\\b`, "i");
+}
+
+function normalize(text: string) {
+  return [...text.toLowerCase()].map((c) => LEET[c] ?? c).join("");
+}
+
+function looksLikeSpam(text: string) {
+  // aaaaaaaa, !!!!!!!!
+  if (/(.)\1{7,}/.test(text)) return true;
+
+  // SHOUTING: mostly capitals over a decent length
+  const letters = text.replace(/[^a-z]/gi, "");
+  const upper = letters.replace(/[^A-Z]/g, "");
+  if (letters.length >= 20 && upper.length / letters.length > 0.7) return true;
+
+  // The same word over and over
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  if (words.length >= 6 && new Set(words).size / words.length < 0.3) return true;
+
+  return false;
+}
+
+export function checkReviewText(text: string): FilterVerdict {
+  if (LINK_RE.test(text) || EMAIL_RE.test(text) || containsPhoneNumber(text)) {
+    return { action: "reject", message: "Reviews can't contain links or contact details" };
+  }
+
+  const normalized = normalize(text);
+  if (blockedWords().some((w) => wordPattern(w).test(normalized))) {
+    return { action: "hold", reason: "profanity" };
+  }
+
+  if (looksLikeSpam(text)) return { action: "hold", reason: "spam" };
+
+  return { action: "allow" };
+}
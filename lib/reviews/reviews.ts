@@ -0,0 +1,122 @@
+import type { TypedSupabaseClient } from "../supabase/server";
+
+export const REVIEW_STATUSES = ["pending", "approved", "hidden"] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const REPORT_REASONS = ["spam", "offensive", "off_topic", "other"] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export type PublicReview = {
+  id: string;
+  body: string;
+  rating: number | null;
+  created_at: string;
+};
+
+export type ReviewSummary = {
+  count: number;
+  avg_rating: number | null;
+  latest: PublicReview | null;
+};
+
+export const PUBLIC_REVIEW_COLUMNS = "id, body, rating, created_at";
+const ADMIN_REVIEW_COLUMNS =
+  "id, cafe_id, user_id, body, rating, status, moderation_reason, report_count, moderated_at, created_at, updated_at, cafe:cafes(id, name)";
+
+// Reports on an approved review before it goes back to the queue
+export function reportThreshold() {
+  const n = Number(process.env.REVIEW_REPORT_THRESHOLD ?? 3);
+  return Number.isInteger(n) && n >= 1 ? n : 3;
+}
+
+export async function loadApprovedReviews(
+  supabase: TypedSupabaseClient,
+  cafeId: string,
+  limit: number
+): Promise<PublicReview[]> {
+  const { data, error } = await supabase
+    .from("cafe_reviews")
+    .select(PUBLIC_REVIEW_COLUMNS)
+    .eq("cafe_id", cafeId)
+    .eq("status", "approved")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Count, average rating and newest approved review per café, for cards.
+// Grouped in SQL so a café with lots of reviews isn't cut off at max-rows.
+export async function getReviewSummaries(
+  supabase: TypedSupabaseClient,
+  cafeIds: string[]
+): Promise<Map<string, ReviewSummary>> {
+  const summaries = new Map<string, ReviewSummary>();
+  if (cafeIds.length === 0) return summaries;
+
+  const { data, error } = await supabase.rpc("review_summaries", { p_cafe_ids: cafeIds });
+  if (error) throw error;
+
+  const byCafe = new Map((data ?? []).map((row) => [row.cafe_id, row]));
+  for (const id of cafeIds) {
+    const row = byCafe.get(id);
+    summaries.set(
+      id,
+      row
+        ? {
+            count: row.review_count,
+            avg_rating: row.avg_rating,
+            latest: {
+              id: row.latest_id,
+              body: row.latest_body,
+              rating: row.latest_rating,
+              created_at: row.latest_created_at,
+            },
+          }
+        : { count: 0, avg_rating: null, latest: null }
+    );
+  }
+
+  return summaries;
+}
+
+// Reviews for the moderation queue, with the reports against each
+export async function loadAdminReviews(
+  supabase: TypedSupabaseClient,
+  query: { id: string } | { status: ReviewStatus; limit: number }
+) {
+  let select = supabase.from("cafe_reviews").select(ADMIN_REVIEW_COLUMNS);
+  if ("id" in query) {
+    select = select.eq("id", query.id);
+  } else {
+    // The queue is oldest first, so nothing waits forever
+    select = select
+      .eq("status", query.status)
+      .order("created_at", { ascending: query.status === "pending" })
+      .limit(query.limit);
+  }
+
+  const { data: reviews, error } = await select;
+  if (error) throw error;
+  if (!reviews?.length) return [];
+
+  const { data: reports, error: reportsErr } = await supabase
+    .from("cafe_review_reports")
+    .select("review_id, reason, created_at")
+    .in(
+      "review_id",
+      reviews.map((r) => r.id)
+    )
+    .order("created_at", { ascending: true });
+
+  if (reportsErr) throw reportsErr;
+
+  return reviews.map((r) => ({
+    ...r,
+    status: r.status as ReviewStatus,
+    reports: (reports ?? [])
+      .filter((rep) => rep.review_id === r.id)
+      .map(({ reason, created_at }) => ({ reason, created_at })),
+  }));
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient, type Session, type SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+let client: SupabaseClient<Database> | null = null;
+
+// One client per tab; it persists the session in localStorage
+export function supabaseBrowser() {
+  if (!client) {
+    client = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { persistSession: true, detectSessionInUrl: true } }
+    );
+  }
+  return client;
+}
+
+export function useSupabaseSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    const supabase = supabaseBrowser();
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setReady(true);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  return { session, ready };
+}
+
+export function authHeaders(session: Session | null): Record<string, string> {
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
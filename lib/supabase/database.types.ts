@@ -0,0 +1,614 @@
+// Generated by `supabase gen types typescript --local > lib/supabase/database.types.ts`.
+// Regenerate after changing the schema; don't edit by hand.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  __InternalSupabase: {
+    PostgrestVersion: "12"
+  }
+  public: {
+    Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          admin_email: string | null
+          admin_id: string
+          created_at: string
+          details: Json
+          id: string
+          target_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          admin_email?: string | null
+          admin_id: string
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          admin_email?: string | null
+          admin_id?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+          target_type?: string
+        }
+        Relationships: []
+      }
+      cafe_attribute_votes: {
+        Row: {
+          cafe_id: string
+          calls: boolean | null
+          checkin_id: string | null
+          created_at: string
+          id: string
+          laptops: boolean | null
+          outlets: boolean | null
+          tables: string | null
+          user_id: string
+          wifi: string | null
+        }
+        Insert: {
+          cafe_id: string
+          calls?: boolean | null
+          checkin_id?: string | null
+          created_at?: string
+          id?: string
+          laptops?: boolean | null
+          outlets?: boolean | null
+          tables?: string | null
+          user_id: string
+          wifi?: string | null
+        }
+        Update: {
+          cafe_id?: string
+          calls?: boolean | null
+          checkin_id?: string | null
+          created_at?: string
+          id?: string
+          laptops?: boolean | null
+          outlets?: boolean | null
+          tables?: string | null
+          user_id?: string
+          wifi?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cafe_attribute_votes_cafe_id_fkey"
+            columns: ["cafe_id"]
+            isOneToOne: false
+            referencedRelation: "cafes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cafe_attribute_votes_checkin_id_fkey"
+            columns: ["checkin_id"]
+            isOneToOne: false
+            referencedRelation: "checkins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cafe_list_items: {
+        Row: {
+          added_at: string
+          cafe_id: string
+          list_id: string
+          position: number
+          user_id: string
+        }
+        Insert: {
+          added_at?: string
+          cafe_id: string
+          list_id: string
+          position?: number
+          user_id: string
+        }
+        Update: {
+          added_at?: string
+          cafe_id?: string
+          list_id?: string
+          position?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cafe_list_items_cafe_id_fkey"
+            columns: ["cafe_id"]
+            isOneToOne: false
+            referencedRelation: "cafes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cafe_list_items_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "cafe_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cafe_lists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          share_token: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          share_token?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          share_token?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cafe_place_aliases: {
+        Row: {
+          cafe_id: string
+          created_at: string
+          place_id: string
+        }
+        Insert: {
+          cafe_id: string
+          created_at?: string
+          place_id: string
+        }
+        Update: {
+          cafe_id?: string
+          created_at?: string
+          place_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cafe_place_aliases_cafe_id_fkey"
+            columns: ["cafe_id"]
+            isOneToOne: false
+            referencedRelation: "cafes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cafes: {
+        Row: {
+          address: string | null
+          business_status: string | null
+          created_at: string
+          geog: unknown | null
+          google_rating: number | null
+          id: string
+          last_fetched_at: string | null
+          lat: number
+          lng: number
+          locked: boolean
+          name: string
+          opening_hours: Json | null
+          permanently_closed: boolean
+          place_id: string
+          price_level: number | null
+          refresh_failures: number
+          refresh_retry_at: string | null
+          types: string[] | null
+          updated_at: string
+          user_ratings_total: number | null
+          utc_offset_minutes: number | null
+        }
+        Insert: {
+          address?: string | null
+          business_status?: string | null
+          created_at?: string
+          google_rating?: number | null
+          id?: string
+          last_fetched_at?: string | null
+          lat: number
+          lng: number
+          locked?: boolean
+          name: string
+          opening_hours?: Json | null
+          permanently_closed?: boolean
+          place_id: string
+          price_level?: number | null
+          refresh_failures?: number
+          refresh_retry_at?: string | null
+          types?: string[] | null
+          updated_at?: string
+          user_ratings_total?: number | null
+          utc_offset_minutes?: number | null
+        }
+        Update: {
+          address?: string | null
+          business_status?: string | null
+          created_at?: string
+          google_rating?: number | null
+          id?: string
+          last_fetched_at?: string | null
+          lat?: number
+          lng?: number
+          locked?: boolean
+          name?: string
+          opening_hours?: Json | null
+          permanently_closed?: boolean
+          place_id?: string
+          price_level?: number | null
+          refresh_failures?: number
+          refresh_retry_at?: string | null
+          types?: string[] | null
+          updated_at?: string
+          user_ratings_total?: number | null
+          utc_offset_minutes?: number | null
+        }
+        Relationships: []
+      }
+      cafe_review_reports: {
+        Row: {
+          created_at: string
+          reason: string
+          review_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          reason: string
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          reason?: string
+          review_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cafe_review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "cafe_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cafe_reviews: {
+        Row: {
+          body: string
+          cafe_id: string
+          created_at: string
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          rating: number | null
+          report_count: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          cafe_id: string
+          created_at?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          rating?: number | null
+          report_count?: number
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          cafe_id?: string
+          created_at?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          rating?: number | null
+          report_count?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cafe_reviews_cafe_id_fkey"
+            columns: ["cafe_id"]
+            isOneToOne: false
+            referencedRelation: "cafes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checkins: {
+        Row: {
+          cafe_id: string
+          created_at: string
+          crowdedness: number | null
+          distance_m: number | null
+          id: string
+          location_accuracy_m: number | null
+          noise_level: number | null
+          seat_availability: number | null
+          user_id: string | null
+          verification_status: Database["public"]["Enums"]["checkin_verification"]
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          cafe_id: string
+          created_at?: string
+          crowdedness?: number | null
+          distance_m?: number | null
+          id?: string
+          location_accuracy_m?: number | null
+          noise_level?: number | null
+          seat_availability?: number | null
+          user_id?: string | null
+          verification_status?: Database["public"]["Enums"]["checkin_verification"]
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          cafe_id?: string
+          created_at?: string
+          crowdedness?: number | null
+          distance_m?: number | null
+          id?: string
+          location_accuracy_m?: number | null
+          noise_level?: number | null
+          seat_availability?: number | null
+          user_id?: string | null
+          verification_status?: Database["public"]["Enums"]["checkin_verification"]
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkins_cafe_id_fkey"
+            columns: ["cafe_id"]
+            isOneToOne: false
+            referencedRelation: "cafes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      places_budget: {
+        Row: {
+          calls: number
+          period_key: string
+          updated_at: string
+        }
+        Insert: {
+          calls?: number
+          period_key: string
+          updated_at?: string
+        }
+        Update: {
+          calls?: number
+          period_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      places_cache: {
+        Row: {
+          cache_key: string
+          expires_at: string
+          fetched_at: string
+          lat_center: number
+          lng_center: number
+          place_ids: string[]
+          radius_m: number
+          raw: Json | null
+        }
+        Insert: {
+          cache_key: string
+          expires_at: string
+          fetched_at?: string
+          lat_center: number
+          lng_center: number
+          place_ids?: string[]
+          radius_m: number
+          raw?: Json | null
+        }
+        Update: {
+          cache_key?: string
+          expires_at?: string
+          fetched_at?: string
+          lat_center?: number
+          lng_center?: number
+          place_ids?: string[]
+          radius_m?: number
+          raw?: Json | null
+        }
+        Relationships: []
+      }
+      rate_limit_hits: {
+        Row: {
+          count: number
+          ip_hash: string
+          route: string
+          window_start: string
+        }
+        Insert: {
+          count?: number
+          ip_hash: string
+          route: string
+          window_start: string
+        }
+        Update: {
+          count?: number
+          ip_hash?: string
+          route?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      cafes_nearby: {
+        Args: { p_lat: number; p_lng: number; p_radius_m: number }
+        Returns: {
+          distance_m: number
+          last_fetched_at: string | null
+          place_id: string
+        }[]
+      }
+      create_checkin: {
+        Args: {
+          p_cafe_id: string
+          p_cooldown_seconds: number
+          p_crowdedness: number | null
+          p_distance_m: number | null
+          p_location_accuracy_m: number | null
+          p_noise_level: number | null
+          p_seat_availability: number | null
+          p_user_id: string
+          p_verification_status: Database["public"]["Enums"]["checkin_verification"]
+        }
+        Returns: {
+          available_at: string | null
+          checkin_id: string | null
+        }[]
+      }
+      merge_cafes: {
+        Args: { p_duplicate: string; p_keep: string }
+        Returns: undefined
+      }
+      places_budget_take: {
+        Args: {
+          p_calls: number
+          p_day_key: string
+          p_day_limit: number
+          p_month_key: string
+          p_month_limit: number
+        }
+        Returns: {
+          allowed: boolean
+          day_used: number
+          month_used: number
+        }[]
+      }
+      reorder_list_items: {
+        Args: { p_cafe_ids: string[]; p_list_id: string }
+        Returns: undefined
+      }
+      prune_rate_limit_hits: {
+        Args: {
+          p_before: string
+        }
+        Returns: number
+      }
+      rate_limit_hit: {
+        Args: {
+          p_ip_hash: string
+          p_limit: number
+          p_route: string
+          p_window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          limit: number
+          reset_at: string
+          used: number
+        }[]
+      }
+      rate_limit_usage: {
+        Args: {
+          p_default_limit: number
+          p_ip_hash: string | null
+          p_limits: Json
+          p_max_rows: number
+          p_route: string | null
+          p_since: string
+        }
+        Returns: {
+          ip_hash: string
+          last_seen: string
+          limited_windows: number
+          requests: number
+          route: string
+          windows: number
+        }[]
+      }
+      review_summaries: {
+        Args: { p_cafe_ids: string[] }
+        Returns: {
+          avg_rating: number | null
+          cafe_id: string
+          latest_body: string
+          latest_created_at: string
+          latest_id: string
+          latest_rating: number | null
+          review_count: number
+        }[]
+      }
+      stale_cafes: {
+        Args: {
+          p_fetched_before: string
+          p_limit: number
+          p_now: string
+        }
+        Returns: {
+          id: string
+          last_fetched_at: string | null
+          locked: boolean
+          place_id: string
+          refresh_failures: number
+        }[]
+      }
+    }
+    Enums: {
+      checkin_verification: "verified" | "flagged" | "unverified"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
+
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
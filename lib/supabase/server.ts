@@ -1,9 +1,58 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
+import type { NextRequest } from "next/server";
+import type { Database } from "./database.types";
+
+export type TypedSupabaseClient = SupabaseClient<Database>;
+
+// Supabase cuts every read off at max-rows (1000 unless the project raises
+// it) without an error. Reads that need every matching row go a page at a
+// time; order the query by something unique so pages don't overlap.
+const MAX_ROWS = 1000;
+
+export async function selectAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await page(from, from + MAX_ROWS - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS) return rows;
+  }
+}
 
 export function supabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-  return createClient(url, serviceKey, {
+  return createClient<Database>(url, serviceKey, {
     auth: { persistSession: false },
   });
 }
+
+// Browser sends the Supabase access token as "Authorization: Bearer <jwt>"
+export function getAccessToken(req: NextRequest): string | null {
+  const header = req.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1]!.trim() : null;
+}
+
+// Session-aware client: anon key + the caller's JWT, so RLS applies as that user
+export function supabaseForRequest(req: NextRequest) {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+  const token = getAccessToken(req);
+  return createClient<Database>(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+  });
+}
+
+// Verifies the caller's JWT with Supabase Auth; null when signed out/invalid
+export async function getRequestUser(req: NextRequest): Promise<User | null> {
+  const token = getAccessToken(req);
+  if (!token) return null;
+
+  const { data, error } = await supabaseForRequest(req).auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
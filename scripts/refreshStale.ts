@@ -0,0 +1,17 @@
+// One stale-café refresh run from the command line, for crontab or a CI
+// schedule instead of /api/cron/refresh-stale:
+//   npm run places:refresh
+// Reads the same env vars as the app (NEXT_PUBLIC_SUPABASE_URL,
+// SUPABASE_SERVICE_ROLE_KEY, GOOGLE_MAPS_API_KEY, PLACES_REFRESH_*).
+import { supabaseAdmin } from "../lib/supabase/server";
+import { refreshStaleCafes } from "../lib/places/staleRefresh";
+
+refreshStaleCafes(supabaseAdmin()).then(
+  (summary) => {
+    console.log(JSON.stringify(summary, null, 2));
+  },
+  (err) => {
+    console.error(err);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,72 @@
+-- Cafés (upserted from Places by place_id) and user check-ins.
+
+create extension if not exists postgis;
+
+create table if not exists public.cafes (
+  id uuid primary key default gen_random_uuid(),
+  place_id text not null,
+  name text not null,
+  address text,
+  lat double precision not null,
+  lng double precision not null,
+  google_rating real,
+  user_ratings_total integer,
+  price_level smallint check (price_level between 0 and 4),
+  types text[],
+  -- Places v1 regularOpeningHours, stored verbatim
+  opening_hours jsonb,
+  utc_offset_minutes integer,
+  last_fetched_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  geog geography(Point, 4326)
+    generated always as (st_setsrid(st_makepoint(lng, lat), 4326)::geography) stored,
+
+  -- conflict target for refreshNearby's upsert
+  constraint cafes_place_id_key unique (place_id)
+);
+
+create index if not exists cafes_geog_idx on public.cafes using gist (geog);
+create index if not exists cafes_last_fetched_at_idx on public.cafes (last_fetched_at);
+
+do $$
+begin
+  create type public.checkin_verification as enum ('verified', 'flagged', 'unverified');
+exception
+  when duplicate_object then null;
+end $$;
+
+create table if not exists public.checkins (
+  id uuid primary key default gen_random_uuid(),
+  cafe_id uuid not null references public.cafes (id) on delete cascade,
+  user_id uuid,
+  -- 1..5, see lib/quietScore.ts
+  noise_level smallint check (noise_level between 1 and 5),
+  crowdedness smallint check (crowdedness between 1 and 5),
+  seat_availability smallint check (seat_availability between 1 and 5),
+  verification_status public.checkin_verification not null default 'unverified',
+  distance_m real,
+  location_accuracy_m real,
+  created_at timestamptz not null default now()
+);
+
+-- Quiet scores / histograms per café, and the per-user cooldown + history
+create index if not exists checkins_cafe_created_idx on public.checkins (cafe_id, created_at desc);
+create index if not exists checkins_user_created_idx on public.checkins (user_id, created_at desc);
+
+-- On Supabase, tie check-ins to auth users. Plain Postgres has no auth schema.
+do $$
+begin
+  if to_regclass('auth.users') is not null then
+    alter table public.checkins
+      add constraint checkins_user_id_fkey
+      foreign key (user_id) references auth.users (id) on delete set null;
+  end if;
+exception
+  when duplicate_object then null;
+end $$;
+
+-- All access goes through the service role, which bypasses RLS. With no
+-- policies, the anon key can't read or write these tables directly.
+alter table public.cafes enable row level security;
+alter table public.checkins enable row level security;
@@ -0,0 +1,20 @@
+-- Nearby-search results per rounded query key. lat_center/lng_center are the
+-- real (unrounded) center so findContainingCacheEntry can test containment.
+
+create table if not exists public.places_cache (
+  -- conflict target for refreshNearby's upsert
+  cache_key text primary key,
+  lat_center double precision not null,
+  lng_center double precision not null,
+  radius_m integer not null check (radius_m > 0),
+  place_ids text[] not null default '{}',
+  raw jsonb,
+  fetched_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+-- Bounding-box lookups for containing entries, and expiry sweeps
+create index if not exists places_cache_center_idx on public.places_cache (lat_center, lng_center);
+create index if not exists places_cache_expires_at_idx on public.places_cache (expires_at);
+
+alter table public.places_cache enable row level security;
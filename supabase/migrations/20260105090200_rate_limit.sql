@@ -0,0 +1,44 @@
+-- Fixed-window request counters per route + hashed client IP, shared by every
+-- server instance (lib/rateLimit.ts, supabase backend).
+
+create table if not exists public.rate_limit_hits (
+  route text not null,
+  ip_hash text not null,
+  window_start timestamptz not null,
+  count integer not null default 0,
+  primary key (route, ip_hash, window_start)
+);
+
+create index if not exists rate_limit_hits_window_start_idx on public.rate_limit_hits (window_start);
+
+alter table public.rate_limit_hits enable row level security;
+
+-- Counts one hit and reports whether it was within the limit. Hits over the
+-- limit are still counted, so `used` can exceed `limit`.
+create or replace function public.rate_limit_hit(
+  p_route text,
+  p_ip_hash text,
+  p_window_seconds integer,
+  p_limit integer
+)
+returns table (allowed boolean, used integer, "limit" integer, reset_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_window_start timestamptz :=
+    to_timestamp(floor(extract(epoch from now()) / p_window_seconds) * p_window_seconds);
+  v_count integer;
+begin
+  insert into public.rate_limit_hits as h (route, ip_hash, window_start, count)
+  values (p_route, p_ip_hash, v_window_start, 1)
+  on conflict (route, ip_hash, window_start)
+  do update set count = h.count + 1
+  returning h.count into v_count;
+
+  return query select
+    v_count <= p_limit,
+    v_count,
+    p_limit,
+    v_window_start + make_interval(secs => p_window_seconds);
+end;
+$$;
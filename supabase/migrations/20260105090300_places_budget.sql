@@ -0,0 +1,46 @@
+-- Google Places call budget, one counter per UTC day ("day:YYYY-MM-DD") and
+-- month ("month:YYYY-MM"). See lib/places/budget.ts.
+
+create table if not exists public.places_budget (
+  period_key text primary key,
+  calls integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.places_budget enable row level security;
+
+-- Takes p_calls from both budgets, or nothing if either would go over.
+create or replace function public.places_budget_take(
+  p_day_key text,
+  p_month_key text,
+  p_day_limit integer,
+  p_month_limit integer,
+  p_calls integer default 1
+)
+returns table (allowed boolean, day_used integer, month_used integer)
+language plpgsql
+as $$
+declare
+  v_day integer;
+  v_month integer;
+begin
+  insert into public.places_budget (period_key, calls)
+  values (p_day_key, 0), (p_month_key, 0)
+  on conflict (period_key) do nothing;
+
+  -- Always lock day then month so concurrent callers can't deadlock
+  select b.calls into v_day from public.places_budget b where b.period_key = p_day_key for update;
+  select b.calls into v_month from public.places_budget b where b.period_key = p_month_key for update;
+
+  if v_day + p_calls > p_day_limit or v_month + p_calls > p_month_limit then
+    return query select false, v_day, v_month;
+    return;
+  end if;
+
+  update public.places_budget b
+  set calls = b.calls + p_calls, updated_at = now()
+  where b.period_key in (p_day_key, p_month_key);
+
+  return query select true, v_day + p_calls, v_month + p_calls;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Known cafés within a circle, nearest first (lib/cafes/nearby.ts).
+
+create or replace function public.cafes_nearby(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision
+)
+returns table (place_id text, distance_m double precision, last_fetched_at timestamptz)
+language sql
+stable
+as $$
+  select c.place_id, st_distance(c.geog, o.geog) as distance_m, c.last_fetched_at
+  from public.cafes c,
+    (select st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography as geog) o
+  where st_dwithin(c.geog, o.geog, p_radius_m)
+  order by distance_m;
+$$;
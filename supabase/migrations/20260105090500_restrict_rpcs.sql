@@ -0,0 +1,10 @@
+-- The RPCs are for the service role only: on Supabase, anon/authenticated
+-- callers could otherwise burn the Places budget or other people's limits.
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.rate_limit_hit(text, text, integer, integer) from public, anon, authenticated;
+    revoke execute on function public.places_budget_take(text, text, integer, integer, integer) from public, anon, authenticated;
+    revoke execute on function public.cafes_nearby(double precision, double precision, double precision) from public, anon, authenticated;
+  end if;
+end $$;
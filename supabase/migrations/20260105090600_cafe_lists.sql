@@ -0,0 +1,42 @@
+-- User-owned café lists ("Work spots", "Weekend", ...). A list with a
+-- share_token is readable by anyone who has the link.
+
+create table if not exists public.cafe_lists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  name text not null check (char_length(name) between 1 and 60),
+  -- null = private; set = public at /lists/<token>
+  share_token text unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists cafe_lists_user_idx on public.cafe_lists (user_id, created_at);
+
+create table if not exists public.cafe_list_items (
+  list_id uuid not null references public.cafe_lists (id) on delete cascade,
+  cafe_id uuid not null references public.cafes (id) on delete cascade,
+  -- Copied from the list so "is this café saved?" is one indexed lookup
+  user_id uuid not null,
+  position integer not null default 0,
+  added_at timestamptz not null default now(),
+  primary key (list_id, cafe_id)
+);
+
+create index if not exists cafe_list_items_list_position_idx on public.cafe_list_items (list_id, position);
+create index if not exists cafe_list_items_user_cafe_idx on public.cafe_list_items (user_id, cafe_id);
+
+do $$
+begin
+  if to_regclass('auth.users') is not null then
+    alter table public.cafe_lists
+      add constraint cafe_lists_user_id_fkey
+      foreign key (user_id) references auth.users (id) on delete cascade;
+  end if;
+exception
+  when duplicate_object then null;
+end $$;
+
+-- Service role only, like the other tables
+alter table public.cafe_lists enable row level security;
+alter table public.cafe_list_items enable row level security;
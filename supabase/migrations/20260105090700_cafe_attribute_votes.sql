@@ -0,0 +1,40 @@
+-- Crowd-sourced workability attributes (wifi, outlets, laptops, tables,
+-- calls). One row per submission, sent with a check-in or on its own; any
+-- attribute may be left out. Consensus is computed in lib/attributes.ts.
+
+create table if not exists public.cafe_attribute_votes (
+  id uuid primary key default gen_random_uuid(),
+  cafe_id uuid not null references public.cafes (id) on delete cascade,
+  user_id uuid not null,
+  -- Set when submitted alongside a check-in
+  checkin_id uuid references public.checkins (id) on delete cascade,
+  wifi text check (wifi in ('none', 'poor', 'good')),
+  outlets boolean,
+  laptops boolean,
+  tables text check (tables in ('few', 'some', 'many')),
+  calls boolean,
+  created_at timestamptz not null default now(),
+
+  constraint cafe_attribute_votes_not_empty check (
+    wifi is not null or outlets is not null or laptops is not null or tables is not null or calls is not null
+  )
+);
+
+create index if not exists cafe_attribute_votes_cafe_created_idx
+  on public.cafe_attribute_votes (cafe_id, created_at desc);
+create index if not exists cafe_attribute_votes_checkin_idx
+  on public.cafe_attribute_votes (checkin_id) where checkin_id is not null;
+
+do $$
+begin
+  if to_regclass('auth.users') is not null then
+    alter table public.cafe_attribute_votes
+      add constraint cafe_attribute_votes_user_id_fkey
+      foreign key (user_id) references auth.users (id) on delete cascade;
+  end if;
+exception
+  when duplicate_object then null;
+end $$;
+
+-- Service role only, like the other tables
+alter table public.cafe_attribute_votes enable row level security;
@@ -0,0 +1,50 @@
+-- Short first-party reviews, moderated. New reviews are approved straight
+-- away unless the content filter holds them; enough reports send an approved
+-- review back to the queue. Only approved reviews are ever shown publicly.
+
+create table if not exists public.cafe_reviews (
+  id uuid primary key default gen_random_uuid(),
+  cafe_id uuid not null references public.cafes (id) on delete cascade,
+  user_id uuid not null,
+  body text not null check (char_length(body) between 1 and 500),
+  rating smallint check (rating between 1 and 5),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'hidden')),
+  -- Why it's pending/hidden: "profanity", "spam", "reported", "moderator"
+  moderation_reason text,
+  report_count integer not null default 0,
+  moderated_at timestamptz,
+  moderated_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- One review per user per café; writing again replaces it
+  constraint cafe_reviews_cafe_user_key unique (cafe_id, user_id)
+);
+
+create index if not exists cafe_reviews_cafe_status_created_idx
+  on public.cafe_reviews (cafe_id, status, created_at desc);
+create index if not exists cafe_reviews_status_created_idx
+  on public.cafe_reviews (status, created_at);
+
+create table if not exists public.cafe_review_reports (
+  review_id uuid not null references public.cafe_reviews (id) on delete cascade,
+  user_id uuid not null,
+  reason text not null check (reason in ('spam', 'offensive', 'off_topic', 'other')),
+  created_at timestamptz not null default now(),
+  primary key (review_id, user_id)
+);
+
+do $$
+begin
+  if to_regclass('auth.users') is not null then
+    alter table public.cafe_reviews
+      add constraint cafe_reviews_user_id_fkey
+      foreign key (user_id) references auth.users (id) on delete cascade;
+  end if;
+exception
+  when duplicate_object then null;
+end $$;
+
+-- Service role only, like the other tables
+alter table public.cafe_reviews enable row level security;
+alter table public.cafe_review_reports enable row level security;
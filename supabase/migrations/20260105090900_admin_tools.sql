@@ -0,0 +1,103 @@
+-- Operator tooling behind /admin: an audit trail of every admin action,
+-- voided check-ins, hand-edited cafés that Places refreshes leave alone, and
+-- merging duplicate cafés.
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid not null,
+  admin_email text,
+  -- "cafe.update", "cafe.merge", "cache.purge", "checkin.void", "review.hide", ...
+  action text not null,
+  target_type text not null,
+  target_id text,
+  details jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_target_idx
+  on public.admin_audit_log (target_type, target_id, created_at desc);
+
+-- Voided check-ins stay for the record but no longer count anywhere
+alter table public.checkins
+  add column if not exists voided_at timestamptz,
+  add column if not exists voided_by uuid,
+  add column if not exists void_reason text;
+
+-- Set when an operator edits a café, so the next Places refresh doesn't
+-- overwrite the fix
+alter table public.cafes
+  add column if not exists locked boolean not null default false;
+
+-- Place ids merged into another café. Places keeps returning the duplicate's
+-- id, so refreshNearby maps it to the kept café instead of re-creating it.
+create table if not exists public.cafe_place_aliases (
+  place_id text primary key,
+  cafe_id uuid not null references public.cafes (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cafe_place_aliases_cafe_idx on public.cafe_place_aliases (cafe_id);
+
+-- Moves everything that belongs to p_duplicate onto p_keep, then deletes it.
+-- One transaction, so a failed merge leaves both cafés as they were.
+create or replace function public.merge_cafes(p_keep uuid, p_duplicate uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_dup_place_id text;
+  v_keep_place_id text;
+begin
+  if p_keep = p_duplicate then
+    raise exception 'Cannot merge a café into itself';
+  end if;
+
+  select place_id into v_keep_place_id from public.cafes where id = p_keep for update;
+  select place_id into v_dup_place_id from public.cafes where id = p_duplicate for update;
+  if v_keep_place_id is null or v_dup_place_id is null then
+    raise exception 'Café not found';
+  end if;
+
+  update public.checkins set cafe_id = p_keep where cafe_id = p_duplicate;
+  update public.cafe_attribute_votes set cafe_id = p_keep where cafe_id = p_duplicate;
+
+  -- One review per user per café: when someone reviewed both, keep the newer
+  delete from public.cafe_reviews d
+    using public.cafe_reviews k
+    where d.cafe_id = p_duplicate and k.cafe_id = p_keep
+      and k.user_id = d.user_id and k.updated_at >= d.updated_at;
+  delete from public.cafe_reviews k
+    using public.cafe_reviews d
+    where k.cafe_id = p_keep and d.cafe_id = p_duplicate and k.user_id = d.user_id;
+  update public.cafe_reviews set cafe_id = p_keep where cafe_id = p_duplicate;
+
+  -- Lists that already hold the kept café just lose the duplicate (cascade)
+  update public.cafe_list_items i set cafe_id = p_keep
+    where i.cafe_id = p_duplicate
+      and not exists (
+        select 1 from public.cafe_list_items k where k.list_id = i.list_id and k.cafe_id = p_keep
+      );
+
+  update public.cafe_place_aliases set cafe_id = p_keep where cafe_id = p_duplicate;
+  insert into public.cafe_place_aliases (place_id, cafe_id)
+    values (v_dup_place_id, p_keep)
+    on conflict (place_id) do update set cafe_id = excluded.cafe_id;
+
+  update public.places_cache
+    set place_ids = array_replace(place_ids, v_dup_place_id, v_keep_place_id)
+    where v_dup_place_id = any (place_ids);
+
+  delete from public.cafes where id = p_duplicate;
+end;
+$$;
+
+alter table public.admin_audit_log enable row level security;
+alter table public.cafe_place_aliases enable row level security;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.merge_cafes(uuid, uuid) from public, anon, authenticated;
+  end if;
+end $$;
@@ -0,0 +1,25 @@
+-- Google's businessStatus, kept current by nearby refreshes and the scheduled
+-- stale-café job (lib/places/staleRefresh.ts). Permanently closed cafés stay
+-- for the record (check-ins, reviews, lists) but drop out of listings.
+
+alter table public.cafes
+  add column if not exists business_status text,
+  add column if not exists permanently_closed boolean not null default false;
+
+-- Closed cafés never get refreshed again, so leave them out of DB coverage
+create or replace function public.cafes_nearby(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision
+)
+returns table (place_id text, distance_m double precision, last_fetched_at timestamptz)
+language sql
+stable
+as $$
+  select c.place_id, st_distance(c.geog, o.geog) as distance_m, c.last_fetched_at
+  from public.cafes c,
+    (select st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography as geog) o
+  where st_dwithin(c.geog, o.geog, p_radius_m)
+    and not c.permanently_closed
+  order by distance_m;
+$$;
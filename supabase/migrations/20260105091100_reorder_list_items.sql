@@ -0,0 +1,19 @@
+-- Reorders a list in one statement (PUT /api/lists/[id]/items). An update,
+-- not an upsert: an item removed by a concurrent request stays removed.
+
+create or replace function public.reorder_list_items(p_list_id uuid, p_cafe_ids uuid[])
+returns void
+language sql
+as $$
+  update public.cafe_list_items i
+  set position = o.ord - 1
+  from unnest(p_cafe_ids) with ordinality as o(cafe_id, ord)
+  where i.list_id = p_list_id and i.cafe_id = o.cafe_id;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.reorder_list_items(uuid, uuid[]) from public, anon, authenticated;
+  end if;
+end $$;
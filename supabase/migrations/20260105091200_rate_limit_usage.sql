@@ -0,0 +1,92 @@
+-- Admin rate-limit usage (GET /api/admin/rate-limits), grouped in SQL so
+-- PostgREST's max-rows can't silently cut the totals short. Limits come from
+-- the app's policies (route -> limit) since they live in lib/rateLimit.ts.
+
+create or replace function public.rate_limit_usage(
+  p_since timestamptz,
+  p_route text,
+  p_ip_hash text,
+  p_limits jsonb,
+  p_default_limit integer,
+  p_max_rows integer
+)
+returns table (
+  route text,
+  ip_hash text,
+  requests bigint,
+  windows bigint,
+  limited_windows bigint,
+  last_seen timestamptz
+)
+language sql
+stable
+as $$
+  select
+    h.route,
+    h.ip_hash,
+    sum(h.count)::bigint as requests,
+    count(*) as windows,
+    count(*) filter (
+      where h.count > coalesce((p_limits ->> h.route)::integer, p_default_limit)
+    ) as limited_windows,
+    max(h.window_start) as last_seen
+  from public.rate_limit_hits h
+  where h.window_start >= p_since
+    and (p_route is null or h.route = p_route)
+    and (p_ip_hash is null or h.ip_hash = p_ip_hash)
+  group by h.route, h.ip_hash
+  order by limited_windows desc, requests desc
+  limit p_max_rows;
+$$;
+
+-- Counters are only useful for the admin view's last 7 days; keep 8
+create or replace function public.prune_rate_limit_hits(p_before timestamptz)
+returns integer
+language sql
+as $$
+  with deleted as (
+    delete from public.rate_limit_hits where window_start < p_before returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
+
+-- Same as before, plus an occasional prune when a new window row starts
+create or replace function public.rate_limit_hit(
+  p_route text,
+  p_ip_hash text,
+  p_window_seconds integer,
+  p_limit integer
+)
+returns table (allowed boolean, used integer, "limit" integer, reset_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_window_start timestamptz :=
+    to_timestamp(floor(extract(epoch from now()) / p_window_seconds) * p_window_seconds);
+  v_count integer;
+begin
+  insert into public.rate_limit_hits as h (route, ip_hash, window_start, count)
+  values (p_route, p_ip_hash, v_window_start, 1)
+  on conflict (route, ip_hash, window_start)
+  do update set count = h.count + 1
+  returning h.count into v_count;
+
+  if v_count = 1 and random() < 0.01 then
+    perform public.prune_rate_limit_hits(now() - interval '8 days');
+  end if;
+
+  return query select
+    v_count <= p_limit,
+    v_count,
+    p_limit,
+    v_window_start + make_interval(secs => p_window_seconds);
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.rate_limit_usage(timestamptz, text, text, jsonb, integer, integer) from public, anon, authenticated;
+    revoke execute on function public.prune_rate_limit_hits(timestamptz) from public, anon, authenticated;
+  end if;
+end $$;
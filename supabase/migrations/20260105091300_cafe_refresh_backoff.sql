@@ -0,0 +1,40 @@
+-- Backoff for the stale-café job (lib/places/staleRefresh.ts): a café whose
+-- Place Details lookup keeps failing waits longer before each retry instead of
+-- holding the front of the oldest-first queue. last_fetched_at only moves on
+-- a successful fetch, so DB coverage doesn't mistake a failed try for fresh data.
+
+alter table public.cafes
+  add column if not exists refresh_failures integer not null default 0,
+  add column if not exists refresh_retry_at timestamptz;
+
+-- Open cafés due a refresh, never-fetched first, skipping any still backing off
+create or replace function public.stale_cafes(
+  p_fetched_before timestamptz,
+  p_now timestamptz,
+  p_limit integer
+)
+returns table (
+  id uuid,
+  place_id text,
+  locked boolean,
+  last_fetched_at timestamptz,
+  refresh_failures integer
+)
+language sql
+stable
+as $$
+  select c.id, c.place_id, c.locked, c.last_fetched_at, c.refresh_failures
+  from public.cafes c
+  where not c.permanently_closed
+    and (c.last_fetched_at is null or c.last_fetched_at < p_fetched_before)
+    and (c.refresh_retry_at is null or c.refresh_retry_at <= p_now)
+  order by c.last_fetched_at asc nulls first
+  limit p_limit;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.stale_cafes(timestamptz, timestamptz, integer) from public, anon, authenticated;
+  end if;
+end $$;
@@ -0,0 +1,42 @@
+-- Review count, average rating and newest approved review per café for the
+-- cards in GET /api/cafes, grouped in SQL so max-rows can't cut busy cafés short.
+
+create or replace function public.review_summaries(p_cafe_ids uuid[])
+returns table (
+  cafe_id uuid,
+  review_count integer,
+  avg_rating double precision,
+  latest_id uuid,
+  latest_body text,
+  latest_rating smallint,
+  latest_created_at timestamptz
+)
+language sql
+stable
+as $$
+  with approved as (
+    select r.id, r.cafe_id, r.body, r.rating, r.created_at
+    from public.cafe_reviews r
+    where r.cafe_id = any (p_cafe_ids) and r.status = 'approved'
+  ),
+  stats as (
+    select a.cafe_id, count(*)::integer as review_count, round(avg(a.rating), 1)::double precision as avg_rating
+    from approved a
+    group by a.cafe_id
+  ),
+  latest as (
+    select distinct on (a.cafe_id) a.cafe_id, a.id, a.body, a.rating, a.created_at
+    from approved a
+    order by a.cafe_id, a.created_at desc
+  )
+  select s.cafe_id, s.review_count, s.avg_rating, l.id, l.body, l.rating, l.created_at
+  from stats s
+  join latest l on l.cafe_id = s.cafe_id;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.review_summaries(uuid[]) from public, anon, authenticated;
+  end if;
+end $$;
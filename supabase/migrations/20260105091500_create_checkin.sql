@@ -0,0 +1,58 @@
+-- Cooldown check and insert in one step (POST /api/checkins), so two requests
+-- at once can't both see "no recent check-in" and both insert. Returns the new
+-- check-in's id, or null and when the cooldown ends.
+
+create or replace function public.create_checkin(
+  p_cafe_id uuid,
+  p_user_id uuid,
+  p_cooldown_seconds integer,
+  p_noise_level smallint,
+  p_crowdedness smallint,
+  p_seat_availability smallint,
+  p_verification_status public.checkin_verification,
+  p_distance_m real,
+  p_location_accuracy_m real
+)
+returns table (checkin_id uuid, available_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_last timestamptz;
+  v_id uuid;
+begin
+  -- Serialises check-ins per user + café until this transaction ends
+  perform pg_advisory_xact_lock(hashtextextended('checkin:' || p_user_id || ':' || p_cafe_id, 0));
+
+  if p_cooldown_seconds > 0 then
+    select max(c.created_at) into v_last
+    from public.checkins c
+    where c.cafe_id = p_cafe_id
+      and c.user_id = p_user_id
+      and c.created_at > now() - make_interval(secs => p_cooldown_seconds);
+
+    if v_last is not null then
+      return query select null::uuid, v_last + make_interval(secs => p_cooldown_seconds);
+      return;
+    end if;
+  end if;
+
+  insert into public.checkins (
+    cafe_id, user_id, noise_level, crowdedness, seat_availability,
+    verification_status, distance_m, location_accuracy_m
+  )
+  values (
+    p_cafe_id, p_user_id, p_noise_level, p_crowdedness, p_seat_availability,
+    p_verification_status, p_distance_m, p_location_accuracy_m
+  )
+  returning id into v_id;
+
+  return query select v_id, null::timestamptz;
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function public.create_checkin(uuid, uuid, integer, smallint, smallint, smallint, public.checkin_verification, real, real) from public, anon, authenticated;
+  end if;
+end $$;
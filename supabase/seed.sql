@@ -0,0 +1,66 @@
+-- Sample data for local development: the cafés from fixtures/places.json
+-- (so the fixture provider and the DB agree) plus four weeks of check-ins.
+-- Runs automatically on `supabase db reset`; on plain Postgres use
+-- `npm run db:seed`. Safe to re-run.
+
+insert into public.cafes (
+  place_id, name, address, lat, lng, google_rating, user_ratings_total,
+  price_level, types, opening_hours, utc_offset_minutes, last_fetched_at
+)
+values
+  ('fixture-cafe-01', 'Lantern Coffee House', '3150 18th St, San Francisco, CA 94110', 37.7611, -122.4139, 4.6, 812, 2, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":7,"minute":0},"close":{"day":0,"hour":18,"minute":0}},{"open":{"day":1,"hour":7,"minute":0},"close":{"day":1,"hour":18,"minute":0}},{"open":{"day":2,"hour":7,"minute":0},"close":{"day":2,"hour":18,"minute":0}},{"open":{"day":3,"hour":7,"minute":0},"close":{"day":3,"hour":18,"minute":0}},{"open":{"day":4,"hour":7,"minute":0},"close":{"day":4,"hour":18,"minute":0}},{"open":{"day":5,"hour":7,"minute":0},"close":{"day":5,"hour":18,"minute":0}},{"open":{"day":6,"hour":7,"minute":0},"close":{"day":6,"hour":18,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-02', 'Quiet Hours Roastery', '2899 Mission St, San Francisco, CA 94110', 37.7568, -122.4136, 4.4, 356, 1, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":6,"minute":0},"close":{"day":0,"hour":15,"minute":0}},{"open":{"day":1,"hour":6,"minute":0},"close":{"day":1,"hour":15,"minute":0}},{"open":{"day":2,"hour":6,"minute":0},"close":{"day":2,"hour":15,"minute":0}},{"open":{"day":3,"hour":6,"minute":0},"close":{"day":3,"hour":15,"minute":0}},{"open":{"day":4,"hour":6,"minute":0},"close":{"day":4,"hour":15,"minute":0}},{"open":{"day":5,"hour":6,"minute":0},"close":{"day":5,"hour":15,"minute":0}},{"open":{"day":6,"hour":6,"minute":0},"close":{"day":6,"hour":15,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-03', 'The Reading Room Café', '601 Valencia St, San Francisco, CA 94110', 37.7626, -122.4219, 4.7, 1204, 2, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":8,"minute":0},"close":{"day":0,"hour":22,"minute":0}},{"open":{"day":1,"hour":8,"minute":0},"close":{"day":1,"hour":22,"minute":0}},{"open":{"day":2,"hour":8,"minute":0},"close":{"day":2,"hour":22,"minute":0}},{"open":{"day":3,"hour":8,"minute":0},"close":{"day":3,"hour":22,"minute":0}},{"open":{"day":4,"hour":8,"minute":0},"close":{"day":4,"hour":22,"minute":0}},{"open":{"day":5,"hour":8,"minute":0},"close":{"day":5,"hour":22,"minute":0}},{"open":{"day":6,"hour":8,"minute":0},"close":{"day":6,"hour":22,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-04', 'Fern & Filter', '2401 Harrison St, San Francisco, CA 94110', 37.7607, -122.4102, 4.2, 198, 1, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":7,"minute":0},"close":{"day":0,"hour":17,"minute":0}},{"open":{"day":1,"hour":7,"minute":0},"close":{"day":1,"hour":17,"minute":0}},{"open":{"day":2,"hour":7,"minute":0},"close":{"day":2,"hour":17,"minute":0}},{"open":{"day":3,"hour":7,"minute":0},"close":{"day":3,"hour":17,"minute":0}},{"open":{"day":4,"hour":7,"minute":0},"close":{"day":4,"hour":17,"minute":0}},{"open":{"day":5,"hour":7,"minute":0},"close":{"day":5,"hour":17,"minute":0}},{"open":{"day":6,"hour":7,"minute":0},"close":{"day":6,"hour":17,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-05', 'Morning Static', '3286 22nd St, San Francisco, CA 94110', 37.7554, -122.4188, 3.9, 97, null, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":10,"minute":0},"close":{"day":1,"hour":2,"minute":0}},{"open":{"day":1,"hour":10,"minute":0},"close":{"day":2,"hour":2,"minute":0}},{"open":{"day":2,"hour":10,"minute":0},"close":{"day":3,"hour":2,"minute":0}},{"open":{"day":3,"hour":10,"minute":0},"close":{"day":4,"hour":2,"minute":0}},{"open":{"day":4,"hour":10,"minute":0},"close":{"day":5,"hour":2,"minute":0}},{"open":{"day":5,"hour":10,"minute":0},"close":{"day":6,"hour":2,"minute":0}},{"open":{"day":6,"hour":10,"minute":0},"close":{"day":0,"hour":2,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-06', 'Little Kettle', '1199 Valencia St, San Francisco, CA 94110', 37.7535, -122.4216, 4.5, 431, 2, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":0,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-07', 'Copperline Espresso', '2000 Bryant St, San Francisco, CA 94110', 37.7651, -122.4076, 4.1, 264, 3, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":7,"minute":0},"close":{"day":0,"hour":19,"minute":0}},{"open":{"day":1,"hour":7,"minute":0},"close":{"day":1,"hour":19,"minute":0}},{"open":{"day":2,"hour":7,"minute":0},"close":{"day":2,"hour":19,"minute":0}},{"open":{"day":3,"hour":7,"minute":0},"close":{"day":3,"hour":19,"minute":0}},{"open":{"day":4,"hour":7,"minute":0},"close":{"day":4,"hour":19,"minute":0}},{"open":{"day":5,"hour":7,"minute":0},"close":{"day":5,"hour":19,"minute":0}},{"open":{"day":6,"hour":7,"minute":0},"close":{"day":6,"hour":19,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-08', 'Bookbinder Coffee', '3398 Mission St, San Francisco, CA 94110', 37.7481, -122.4205, 4.8, 640, 2, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":9,"minute":0},"close":{"day":0,"hour":21,"minute":0}},{"open":{"day":1,"hour":9,"minute":0},"close":{"day":1,"hour":21,"minute":0}},{"open":{"day":2,"hour":9,"minute":0},"close":{"day":2,"hour":21,"minute":0}},{"open":{"day":3,"hour":9,"minute":0},"close":{"day":3,"hour":21,"minute":0}},{"open":{"day":4,"hour":9,"minute":0},"close":{"day":4,"hour":21,"minute":0}},{"open":{"day":5,"hour":9,"minute":0},"close":{"day":5,"hour":21,"minute":0}},{"open":{"day":6,"hour":9,"minute":0},"close":{"day":6,"hour":21,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-09', 'Slow Pour Bar', '2701 16th St, San Francisco, CA 94103', 37.7648, -122.4137, 4.3, 152, 1, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], '{"periods":[{"open":{"day":0,"hour":8,"minute":0},"close":{"day":0,"hour":16,"minute":0}},{"open":{"day":1,"hour":8,"minute":0},"close":{"day":1,"hour":16,"minute":0}},{"open":{"day":2,"hour":8,"minute":0},"close":{"day":2,"hour":16,"minute":0}},{"open":{"day":3,"hour":8,"minute":0},"close":{"day":3,"hour":16,"minute":0}},{"open":{"day":4,"hour":8,"minute":0},"close":{"day":4,"hour":16,"minute":0}},{"open":{"day":5,"hour":8,"minute":0},"close":{"day":5,"hour":16,"minute":0}},{"open":{"day":6,"hour":8,"minute":0},"close":{"day":6,"hour":16,"minute":0}}]}'::jsonb, -420, now()),
+  ('fixture-cafe-10', 'Hilltop Beans', '4001 24th St, San Francisco, CA 94114', 37.7516, -122.4349, 4.0, 88, 1, array['cafe', 'coffee_shop', 'food', 'point_of_interest', 'establishment'], null::jsonb, null, now())
+on conflict (place_id) do update set
+  name = excluded.name,
+  address = excluded.address,
+  lat = excluded.lat,
+  lng = excluded.lng,
+  google_rating = excluded.google_rating,
+  user_ratings_total = excluded.user_ratings_total,
+  price_level = excluded.price_level,
+  types = excluded.types,
+  opening_hours = excluded.opening_hours,
+  utc_offset_minutes = excluded.utc_offset_minutes,
+  last_fetched_at = excluded.last_fetched_at,
+  updated_at = now();
+
+-- Replace earlier seeded check-ins (user_id is null for all of them)
+delete from public.checkins c
+using public.cafes f
+where c.cafe_id = f.id and f.place_id like 'fixture-cafe-%' and c.user_id is null;
+
+-- Roughly one check-in every ~9 hours per café over the last 28 days, at
+-- varying hours. Ratings are deterministic: each café gets its own baseline
+-- noise, and afternoons run busier than mornings.
+insert into public.checkins (
+  cafe_id, noise_level, crowdedness, seat_availability, verification_status,
+  distance_m, location_accuracy_m, created_at
+)
+select
+  f.id,
+  least(5, greatest(1, base.noise + case when hour_of_day between 12 and 17 then 1 else 0 end)),
+  least(5, greatest(1, base.noise + (n % 3) - 1)),
+  least(5, greatest(1, 6 - base.noise - (n % 2))),
+  (case when n % 7 = 0 then 'unverified' when n % 11 = 0 then 'flagged' else 'verified' end)::public.checkin_verification,
+  case when n % 7 = 0 then null else 10 + (n % 9) * 12 end,
+  case when n % 7 = 0 then null else 15 + (n % 5) * 10 end,
+  date_trunc('hour', now()) - make_interval(hours => n * 9 + base.shift)
+from public.cafes f
+cross join lateral (
+  select
+    1 + (abs(hashtext(f.place_id)) % 5) as noise,
+    abs(hashtext(f.place_id)) % 9 as shift
+) base
+cross join generate_series(1, 74) n
+cross join lateral (
+  select extract(hour from now() - make_interval(hours => n * 9 + base.shift, mins => -coalesce(f.utc_offset_minutes, 0)))::int as hour_of_day
+) t
+where f.place_id like 'fixture-cafe-%';
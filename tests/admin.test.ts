@@ -0,0 +1,294 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { GET as listCafes } from "../app/api/admin/cafes/route";
+import { GET as getAdminCafe, PATCH as updateCafe } from "../app/api/admin/cafes/[id]/route";
+import { POST as mergeCafe } from "../app/api/admin/cafes/[id]/merge/route";
+import { GET as listCache, DELETE as purgeCache } from "../app/api/admin/cache/route";
+import { GET as listRateLimits } from "../app/api/admin/rate-limits/route";
+import { POST as voidCheckin } from "../app/api/admin/checkins/[id]/void/route";
+import { GET as listAudit } from "../app/api/admin/audit/route";
+import { GET as getCafes } from "../app/api/cafes/route";
+import { GET as getCafe } from "../app/api/cafes/[id]/route";
+import type {
+  AdminAuditResponse,
+  AdminCacheResponse,
+  AdminCafeResponse,
+  AdminCafesResponse,
+  AdminRateLimitsResponse,
+  CafeDetailResponse,
+  PurgeCacheResponse,
+} from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCacheRow, insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+const ADMIN = "token-admin";
+const USER = "token-user";
+const params = <P>(p: P) => ({ params: Promise.resolve(p) });
+
+async function json<T>(res: Response | Promise<Response>) {
+  const r = await res;
+  return { status: r.status, body: (await r.json()) as T & { error?: string } };
+}
+
+async function audit(query = "") {
+  return (await json<AdminAuditResponse>(listAudit(apiRequest(`/api/admin/audit${query}`, { token: ADMIN }), {})))
+    .body.entries;
+}
+
+describe("admin API", () => {
+  let env: TestEnv;
+  let userId: string;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    process.env.ADMIN_EMAILS = "ops@example.com";
+    userId = randomUUID();
+    env.supabase.users.set(ADMIN, { id: randomUUID(), email: "ops@example.com" });
+    env.supabase.users.set(USER, { id: userId, email: "someone@example.com" });
+  });
+
+  test("every admin route turns away anonymous and non-admin callers", async () => {
+    const id = randomUUID();
+    const calls = [
+      (token?: string) => listCafes(apiRequest("/api/admin/cafes", { token }), {}),
+      (token?: string) =>
+        updateCafe(apiRequest(`/api/admin/cafes/${id}`, { method: "PATCH", body: { name: "x" }, token }), params({ id })),
+      (token?: string) => purgeCache(apiRequest("/api/admin/cache?key=k", { method: "DELETE", token }), {}),
+      (token?: string) => listRateLimits(apiRequest("/api/admin/rate-limits", { token }), {}),
+      (token?: string) =>
+        voidCheckin(apiRequest(`/api/admin/checkins/${id}/void`, { method: "POST", body: { reason: "x" }, token }), params({ id })),
+      (token?: string) => listAudit(apiRequest("/api/admin/audit", { token }), {}),
+    ];
+
+    for (const call of calls) {
+      assert.equal((await call()).status, 401);
+      assert.equal((await call(USER)).status, 403);
+    }
+  });
+
+  test("an unconfirmed admin address isn't an admin; app_metadata.role is", async () => {
+    const audit = (token: string) => listAudit(apiRequest("/api/admin/audit", { token }), {});
+
+    env.supabase.users.set("token-squatter", { id: randomUUID(), email: "OPS@example.com", email_confirmed_at: null });
+    assert.equal((await audit("token-squatter")).status, 403);
+
+    env.supabase.users.set("token-role", { id: randomUUID(), email: "other@example.com", app_metadata: { role: "admin" } });
+    assert.equal((await audit("token-role")).status, 200);
+    assert.equal((await audit(ADMIN)).status, 200);
+  });
+
+  test("edits lock a café against Places refreshes and are audited", async () => {
+    const id = await insertCafe(env.db, { place_id: "a", name: "Cafe Typo", lat: 37.761, lng: -122.421 });
+
+    const found = await json<AdminCafesResponse>(listCafes(apiRequest("/api/admin/cafes?q=typo", { token: ADMIN }), {}));
+    assert.deepEqual(found.body.cafes.map((c) => c.id), [id]);
+    assert.equal(found.body.total, 1);
+
+    const bad = await json(
+      updateCafe(apiRequest(`/api/admin/cafes/${id}`, { method: "PATCH", body: { price_level: 7 }, token: ADMIN }), params({ id }))
+    );
+    assert.equal(bad.status, 400);
+    assert.equal(bad.body.error, "Invalid price_level (expected integer 0-4)");
+
+    const edited = await json<AdminCafeResponse>(
+      updateCafe(
+        apiRequest(`/api/admin/cafes/${id}`, { method: "PATCH", body: { name: "Cafe Fixed" }, token: ADMIN }),
+        params({ id })
+      )
+    );
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.cafe.name, "Cafe Fixed");
+    assert.equal(edited.body.cafe.locked, true);
+
+    // Places still has its own name for it; the edit sticks
+    env.places.places = [makePlace("a", 37.761, -122.421)];
+    await getCafes(apiRequest("/api/cafes?lat=37.761&lng=-122.421&radius=500"), {});
+    const after = await json<AdminCafeResponse>(getAdminCafe(apiRequest(`/api/admin/cafes/${id}`, { token: ADMIN }), params({ id })));
+    assert.equal(after.body.cafe.name, "Cafe Fixed");
+    assert.notEqual(after.body.cafe.last_fetched_at, null);
+
+    const [entry] = await audit();
+    assert.equal(entry!.action, "cafe.update");
+    assert.equal(entry!.admin_email, "ops@example.com");
+    assert.equal(entry!.target_id, id);
+    assert.deepEqual(entry!.details.name, { from: "Cafe Typo", to: "Cafe Fixed" });
+  });
+
+  test("merging moves everything onto the kept café and keeps the duplicate from coming back", async () => {
+    const keep = await insertCafe(env.db, { place_id: "a", lat: 37.761, lng: -122.421 });
+    const dup = await insertCafe(env.db, { place_id: "a-dup", lat: 37.7611, lng: -122.4211 });
+    await env.db.query(
+      `insert into public.checkins (cafe_id, user_id, noise_level) values ($1, $3, 2), ($2, $3, 4)`,
+      [keep, dup, userId]
+    );
+    // Reviewed both: only the newer review survives
+    await env.db.query(
+      `insert into public.cafe_reviews (cafe_id, user_id, body, status, updated_at)
+       values ($1, $3, 'older', 'approved', now() - interval '1 day'), ($2, $3, 'newer', 'approved', now())`,
+      [keep, dup, userId]
+    );
+
+    const merge = (duplicateId: string) =>
+      json<AdminCafeResponse>(
+        mergeCafe(apiRequest(`/api/admin/cafes/${keep}/merge`, { method: "POST", body: { duplicateId }, token: ADMIN }), params({ id: keep }))
+      );
+
+    assert.equal((await merge(keep)).status, 400);
+    assert.equal((await merge(randomUUID())).status, 404);
+
+    const merged = await merge(dup);
+    assert.equal(merged.status, 200);
+    assert.deepEqual(merged.body.aliases, ["a-dup"]);
+    assert.deepEqual(merged.body.counts, { checkins: 2, reviews: 1, attributeVotes: 0 });
+
+    const { rows: reviews } = await env.db.query<{ body: string }>("select body from public.cafe_reviews");
+    assert.deepEqual(reviews, [{ body: "newer" }]);
+    const { rows: dupRows } = await env.db.query("select id from public.cafes where id = $1", [dup]);
+    assert.equal(dupRows.length, 0);
+
+    // Places still returns both ids; the duplicate maps to the kept café
+    env.places.places = [makePlace("a", 37.761, -122.421), makePlace("a-dup", 37.7611, -122.4211)];
+    const res = await json<{ cafes: { id: string }[] }>(
+      getCafes(apiRequest("/api/cafes?lat=37.761&lng=-122.421&radius=500"), {})
+    );
+    assert.deepEqual(res.body.cafes.map((c) => c.id), [keep]);
+    const { rows: count } = await env.db.query<{ n: number }>("select count(*)::int as n from public.cafes");
+    assert.equal(count[0]!.n, 1);
+
+    const [entry] = await audit("?action=cafe.merge");
+    assert.equal(entry!.details.duplicatePlaceId, "a-dup");
+  });
+
+  test("cache entries can be listed and purged by key or area", async () => {
+    const now = Date.now();
+    const row = (cache_key: string, lat: number, lng: number, expiresIn: number) =>
+      insertCacheRow(env.db, {
+        cache_key,
+        lat,
+        lng,
+        radius_m: 1000,
+        place_ids: ["a", "b"],
+        fetched_at: new Date(now - 60_000),
+        expires_at: new Date(now + expiresIn),
+      });
+    await row("nearby:37.761:-122.421:r=1000", 37.761, -122.421, 60_000);
+    await row("nearby:37.765:-122.421:r=1000", 37.765, -122.421, -60_000);
+    await row("nearby:40.7:-74:r=1000", 40.7, -74, 60_000);
+
+    const area = "lat=37.761&lng=-122.421&radius=1000";
+    const listed = await json<AdminCacheResponse>(listCache(apiRequest(`/api/admin/cache?${area}`, { token: ADMIN }), {}));
+    assert.deepEqual(
+      listed.body.entries.map((e) => [e.cache_key, e.place_count, e.expired]).sort(),
+      [
+        ["nearby:37.761:-122.421:r=1000", 2, false],
+        ["nearby:37.765:-122.421:r=1000", 2, true],
+      ]
+    );
+
+    const incomplete = await json(purgeCache(apiRequest("/api/admin/cache?lat=37.761", { method: "DELETE", token: ADMIN }), {}));
+    assert.equal(incomplete.body.error, "Area needs lat, lng and radius");
+    const nothing = await json(purgeCache(apiRequest("/api/admin/cache", { method: "DELETE", token: ADMIN }), {}));
+    assert.equal(nothing.status, 400);
+
+    const byKey = await json<PurgeCacheResponse>(
+      purgeCache(apiRequest("/api/admin/cache?key=nearby:40.7:-74:r=1000", { method: "DELETE", token: ADMIN }), {})
+    );
+    assert.deepEqual(byKey.body, { purged: 1, keys: ["nearby:40.7:-74:r=1000"] });
+
+    const byArea = await json<PurgeCacheResponse>(
+      purgeCache(apiRequest(`/api/admin/cache?${area}`, { method: "DELETE", token: ADMIN }), {})
+    );
+    assert.equal(byArea.body.purged, 2);
+
+    const { rows } = await env.db.query("select cache_key from public.places_cache");
+    assert.equal(rows.length, 0);
+    assert.deepEqual((await audit("?targetType=cache")).map((e) => e.action), ["cache.purge", "cache.purge"]);
+  });
+
+  test("rate-limit hits are summarised per route and ip_hash", async () => {
+    process.env.RATE_LIMIT_BACKEND = "supabase";
+    for (let i = 0; i < 3; i++) {
+      await getCafe(apiRequest(`/api/cafes/${randomUUID()}`, { ip: "203.0.113.9" }), params({ id: randomUUID() }));
+    }
+    await env.db.query(
+      `insert into public.rate_limit_hits (route, ip_hash, window_start, count)
+       values ('GET /api/cafes', 'abusive', now() - interval '1 hour', 95)`
+    );
+
+    const all = await json<AdminRateLimitsResponse>(listRateLimits(apiRequest("/api/admin/rate-limits", { token: ADMIN }), {}));
+    assert.equal(all.body.backend, "supabase");
+    // Over the 30/min limit comes first
+    assert.deepEqual(
+      { ...all.body.usage[0]!, last_seen: undefined },
+      { route: "GET /api/cafes", ip_hash: "abusive", requests: 95, windows: 1, limited_windows: 1, last_seen: undefined }
+    );
+
+    const byIp = await json<AdminRateLimitsResponse>(
+      listRateLimits(apiRequest("/api/admin/rate-limits?ip=203.0.113.9", { token: ADMIN }), {})
+    );
+    assert.deepEqual(
+      byIp.body.usage.map((u) => [u.route, u.requests, u.limited_windows]),
+      [["GET /api/cafes/[id]", 3, 0]]
+    );
+
+    // Windows past the admin view's 7 days get pruned
+    await env.db.query(
+      `insert into public.rate_limit_hits (route, ip_hash, window_start, count)
+       values ('GET /api/cafes', 'old', now() - interval '9 days', 1)`
+    );
+    const { rows } = await env.db.query<{ pruned: number }>(
+      "select public.prune_rate_limit_hits(now() - interval '8 days') as pruned"
+    );
+    assert.equal(rows[0]!.pruned, 1);
+  });
+
+  test("voided check-ins stop counting and take their attribute vote with them", async () => {
+    const cafeId = await insertCafe(env.db, { place_id: "a", lat: 37.761, lng: -122.421 });
+    const { rows } = await env.db.query<{ id: string }>(
+      `insert into public.checkins (cafe_id, user_id, noise_level, verification_status)
+       values ($1, $2, 1, 'verified'), ($1, $2, 5, 'verified') returning id`,
+      [cafeId, userId]
+    );
+    const fraud = rows[1]!.id;
+    await env.db.query(
+      `insert into public.cafe_attribute_votes (cafe_id, user_id, checkin_id, wifi) values ($1, $2, $3, 'good')`,
+      [cafeId, userId, fraud]
+    );
+
+    const detail = async () =>
+      (await json<CafeDetailResponse>(getCafe(apiRequest(`/api/cafes/${cafeId}`), params({ id: cafeId })))).body.cafe;
+    assert.equal((await detail()).checkin_count, 2);
+
+    const act = (reason?: string) =>
+      json<{ checkIn: { voided_at: string | null; void_reason: string | null } }>(
+        voidCheckin(
+          apiRequest(`/api/admin/checkins/${fraud}/void`, { method: "POST", body: { reason }, token: ADMIN }),
+          params({ id: fraud })
+        )
+      );
+
+    assert.equal((await act()).body.error, "Missing reason");
+    const voided = await act("Same user, 40 check-ins in an hour");
+    assert.equal(voided.status, 200);
+    assert.notEqual(voided.body.checkIn.voided_at, null);
+    assert.equal(voided.body.checkIn.void_reason, "Same user, 40 check-ins in an hour");
+
+    assert.equal((await detail()).checkin_count, 1);
+    const { rows: votes } = await env.db.query("select * from public.cafe_attribute_votes");
+    assert.equal(votes.length, 0);
+
+    // Voiding again changes nothing and isn't audited twice
+    await act("again");
+    assert.equal((await audit("?action=checkin.void")).length, 1);
+  });
+});
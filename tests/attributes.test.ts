@@ -0,0 +1,144 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { POST as voteAttributes } from "../app/api/cafes/[id]/attributes/route";
+import { POST as checkIn } from "../app/api/checkins/route";
+import { GET as getCafes } from "../app/api/cafes/route";
+import type { AttributeVoteResponse, CafesResponse } from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+const USERS = ["alice", "bob", "carol"] as const;
+const token = (name: (typeof USERS)[number]) => `token-${name}`;
+
+async function vote(cafeId: string, body: unknown, as?: (typeof USERS)[number]) {
+  const res = await voteAttributes(
+    apiRequest(`/api/cafes/${cafeId}/attributes`, {
+      method: "POST",
+      body,
+      token: as && token(as),
+    }),
+    { params: Promise.resolve({ id: cafeId }) }
+  );
+  return { status: res.status, body: (await res.json()) as AttributeVoteResponse & { error?: string } };
+}
+
+describe("workability attributes", () => {
+  let env: TestEnv;
+  let cafeA: string;
+  let cafeB: string;
+  const userIds = new Map<string, string>();
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    for (const name of USERS) {
+      const id = randomUUID();
+      userIds.set(name, id);
+      env.supabase.users.set(token(name), { id, email: `${name}@example.com` });
+    }
+    cafeA = await insertCafe(env.db, { place_id: "a", lat: 37.761, lng: -122.421 });
+    cafeB = await insertCafe(env.db, { place_id: "b", lat: 37.762, lng: -122.421 });
+  });
+
+  test("POST validates the caller, body and café", async () => {
+    assert.equal((await vote(cafeA, { wifi: "good" })).status, 401);
+
+    const empty = await vote(cafeA, {}, "alice");
+    assert.equal(empty.status, 400);
+    assert.equal(empty.body.error, "Send at least one of wifi, outlets, laptops, tables or calls");
+
+    const badWifi = await vote(cafeA, { wifi: "great" }, "alice");
+    assert.equal(badWifi.status, 400);
+    assert.equal(badWifi.body.error, "Invalid wifi (expected none, poor, good)");
+
+    const badOutlets = await vote(cafeA, { outlets: "yes" }, "alice");
+    assert.equal(badOutlets.status, 400);
+    assert.equal(badOutlets.body.error, "Invalid outlets (expected true or false)");
+
+    assert.equal((await vote(randomUUID(), { wifi: "good" }, "alice")).status, 404);
+    assert.equal((await vote("not-a-uuid", { wifi: "good" }, "alice")).status, 404);
+  });
+
+  test("majority vote, counting only each user's latest vote", async () => {
+    await vote(cafeA, { wifi: "good", outlets: true }, "alice");
+    await vote(cafeA, { wifi: "poor" }, "alice"); // changes alice's wifi vote only
+    await vote(cafeA, { wifi: "poor", calls: false }, "bob");
+    const { status, body } = await vote(cafeA, { wifi: "good" }, "carol");
+
+    assert.equal(status, 201);
+    assert.deepEqual(body.attributes.wifi, { value: "poor", agreement: 0.67, votes: 3 });
+    assert.deepEqual(body.attributes.outlets, { value: true, agreement: 1, votes: 1 });
+    assert.deepEqual(body.attributes.calls, { value: false, agreement: 1, votes: 1 });
+    assert.deepEqual(body.attributes.tables, { value: null, agreement: 0, votes: 0 });
+  });
+
+  test("recent votes outweigh old ones", async () => {
+    const old = new Date(Date.now() - 180 * 86_400_000).toISOString();
+    for (const name of ["alice", "bob"]) {
+      await env.db.query(
+        "insert into public.cafe_attribute_votes (cafe_id, user_id, laptops, created_at) values ($1, $2, false, $3)",
+        [cafeA, userIds.get(name), old]
+      );
+    }
+
+    const { body } = await vote(cafeA, { laptops: true }, "carol");
+    assert.equal(body.attributes.laptops.value, true);
+    assert.equal(body.attributes.laptops.votes, 3);
+  });
+
+  test("check-ins can carry a vote", async () => {
+    const res = await checkIn(
+      apiRequest("/api/checkins", {
+        method: "POST",
+        body: { cafeId: cafeA, noiseLevel: 2, attributes: { wifi: "good", tables: "many" } },
+        token: token("alice"),
+      }),
+      {}
+    );
+    assert.equal(res.status, 200);
+    const { checkIn: created } = await res.json();
+
+    const { rows } = await env.db.query<{ checkin_id: string; wifi: string; tables: string; outlets: boolean | null }>(
+      "select checkin_id, wifi, tables, outlets from public.cafe_attribute_votes"
+    );
+    assert.deepEqual(rows, [{ checkin_id: created.id, wifi: "good", tables: "many", outlets: null }]);
+  });
+
+  test("GET /api/cafes returns attributes and filters on them", async () => {
+    env.places.places = [makePlace("a", 37.761, -122.421), makePlace("b", 37.762, -122.421)];
+    await vote(cafeA, { wifi: "good", outlets: true }, "alice");
+    await vote(cafeB, { wifi: "poor", outlets: false }, "alice");
+
+    const placeIds = async (query: string) => {
+      const res = await getCafes(apiRequest(`/api/cafes?lat=37.761&lng=-122.421&radius=500${query}`), {});
+      const body = (await res.json()) as CafesResponse & { error?: string };
+      return { status: res.status, body, ids: body.cafes?.map((c) => c.place_id) };
+    };
+
+    const all = await placeIds("");
+    assert.deepEqual(all.ids, ["a", "b"]);
+    assert.equal(all.body.cafes[0]!.attributes.wifi.value, "good");
+
+    // Levels are minimums
+    assert.deepEqual((await placeIds("&wifi=poor")).ids, ["a", "b"]);
+    assert.deepEqual((await placeIds("&wifi=good")).ids, ["a"]);
+    assert.deepEqual((await placeIds("&outlets=false")).ids, ["b"]);
+    assert.equal((await placeIds("&wifi=good&outlets=false")).body.total, 0);
+
+    // No votes yet = unknown, which never matches
+    assert.deepEqual((await placeIds("&calls=true")).ids, []);
+
+    const invalid = await placeIds("&tables=lots");
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error, "Invalid tables (expected one of few, some, many)");
+  });
+});
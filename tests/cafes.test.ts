@@ -0,0 +1,223 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { GET } from "../app/api/cafes/route";
+import { GET as getBusyHours } from "../app/api/cafes/[id]/busy-hours/route";
+import type { BusyHoursResponse, CafesResponse } from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { makePlace } from "./support/placesStandIn";
+
+const ORIGIN = { lat: 37.761, lng: -122.4215 };
+
+async function getCafes(query: Record<string, string | number>) {
+  const params = new URLSearchParams(
+    Object.entries({ lat: ORIGIN.lat, lng: ORIGIN.lng, radius: 1000, ...query }).map(
+      ([k, v]) => [k, String(v)]
+    )
+  );
+  const res = await GET(apiRequest(`/api/cafes?${params}`), {});
+  return { status: res.status, body: (await res.json()) as CafesResponse & { error?: string } };
+}
+
+async function cacheRows(env: TestEnv) {
+  const { rows } = await env.db.query<{ cache_key: string; place_ids: string[]; expires_at: Date }>(
+    "select cache_key, place_ids, expires_at from public.places_cache"
+  );
+  return rows;
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+describe("GET /api/cafes", () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    env.places.places = [
+      makePlace("near", 37.7612, -122.4214),
+      makePlace("mid", 37.7640, -122.4215),
+      makePlace("far", 37.7680, -122.4215),
+      makePlace("outside", 37.7900, -122.4215),
+    ];
+  });
+
+  test("400s without lat/lng", async () => {
+    const res = await GET(apiRequest("/api/cafes?lng=-122.4"), {});
+    assert.equal(res.status, 400);
+    const body = await res.json();
+    assert.equal(body.error, "Missing/invalid lat or lng");
+    assert.equal(body.code, "invalid_request");
+    assert.equal(body.requestId, res.headers.get("x-request-id"));
+  });
+
+  test("400s on out-of-range coordinates without calling Google", async () => {
+    for (const query of [{ lat: 999, lng: 0 }, { lat: 0, lng: -181 }]) {
+      const { status, body } = await getCafes(query);
+      assert.equal(status, 400);
+      assert.equal(body.error, "Missing/invalid lat or lng");
+    }
+    assert.equal(env.places.requests.length, 0);
+  });
+
+  test("cache miss: fetches from Places, stores cafés and a cache row", async () => {
+    const { status, body } = await getCafes({});
+
+    assert.equal(status, 200);
+    assert.equal(body.source, "google");
+    assert.deepEqual(
+      body.cafes.map((c) => c.place_id),
+      ["near", "mid", "far"]
+    );
+    assert.equal(env.places.requests.length, 1);
+    assert.equal(env.places.requests[0]!.apiKey, "test-google-key");
+
+    const rows = await cacheRows(env);
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0]!.cache_key, body.cacheKey);
+    assert.deepEqual([...rows[0]!.place_ids].sort(), ["far", "mid", "near"]);
+
+    const { rows: cafes } = await env.db.query("select place_id from public.cafes");
+    assert.equal(cafes.length, 3);
+  });
+
+  test("cache hit: serves the stored result without calling Places", async () => {
+    await getCafes({});
+    const { status, body } = await getCafes({});
+
+    assert.equal(status, 200);
+    assert.equal(body.source, "cache");
+    assert.equal(body.cacheMatch, "exact");
+    assert.equal(body.total, 3);
+    assert.equal(env.places.requests.length, 1);
+  });
+
+  test("cache hit: a smaller circle inside a cached one reuses it", async () => {
+    await getCafes({ radius: 2000 });
+    const { body } = await getCafes({ radius: 300 });
+
+    assert.equal(body.source, "cache");
+    assert.equal(body.cacheMatch, "contained");
+    assert.deepEqual(
+      body.cafes.map((c) => c.place_id),
+      ["near"]
+    );
+    assert.equal(env.places.requests.length, 1);
+  });
+
+  test("expired past the stale window: refetches and extends the cache row", async () => {
+    process.env.PLACES_CACHE_MAX_STALE_SECONDS = "0";
+    const { body: first } = await getCafes({});
+    await env.db.query("update public.places_cache set expires_at = now() - interval '1 hour'");
+
+    const { body } = await getCafes({});
+
+    assert.equal(body.source, "google");
+    assert.equal(body.cacheKey, first.cacheKey);
+    assert.equal(env.places.requests.length, 2);
+    const [row] = await cacheRows(env);
+    assert.ok(row!.expires_at.getTime() > Date.now());
+  });
+
+  test("expired within the stale window: serves stale and refreshes in the background", async () => {
+    const { body: first } = await getCafes({});
+    await env.db.query("update public.places_cache set expires_at = now() - interval '1 minute'");
+    env.places.places.push(makePlace("new", 37.7615, -122.4216));
+
+    const { body } = await getCafes({});
+
+    assert.equal(body.source, "stale");
+    assert.equal(body.cacheKey, first.cacheKey);
+    assert.equal(body.total, 3);
+
+    await waitFor(async () => {
+      const [row] = await cacheRows(env);
+      return row!.place_ids.includes("new");
+    });
+    assert.equal(env.places.requests.length, 2);
+  });
+
+  test("empty Places results are not cached", async () => {
+    env.places.places = [];
+
+    const { status, body } = await getCafes({});
+    assert.equal(status, 200);
+    assert.equal(body.total, 0);
+    assert.deepEqual(body.cafes, []);
+    assert.equal(body.expiresAt, null);
+    assert.equal((await cacheRows(env)).length, 0);
+
+    // The next request tries Places again instead of serving a cached "nothing"
+    env.places.places = [makePlace("late", 37.7612, -122.4214)];
+    const { body: retry } = await getCafes({});
+    assert.equal(retry.source, "google");
+    assert.deepEqual(
+      retry.cafes.map((c) => c.place_id),
+      ["late"]
+    );
+    assert.equal(env.places.requests.length, 2);
+  });
+
+  test("a tiled search cut short by an error is only cached briefly", async () => {
+    // The first (full-radius) search comes back saturated, so the area gets
+    // tiled; every sub-circle then fails
+    const crowded = Array.from({ length: 20 }, (_, i) => makePlace(`c${i}`, 37.7612, -122.4214 + i * 0.0001));
+    env.places.respond = (req) =>
+      req.radius === 1000
+        ? { status: 200, body: { places: crowded } }
+        : { status: 503, body: { error: { message: "unavailable" } } };
+
+    const { status, body } = await getCafes({ limit: 50 });
+    assert.equal(status, 200);
+    assert.equal(body.total, 20);
+    assert.equal(env.places.requests.length, 2);
+
+    const [row] = await cacheRows(env);
+    assert.ok(row!.expires_at.getTime() - Date.now() <= 60_000);
+  });
+
+  test("quiet scores and busy hours count every check-in, past Supabase's max-rows", async () => {
+    await getCafes({});
+    await env.db.query(
+      `insert into public.checkins (cafe_id, noise_level, created_at)
+       select id, 1, now() - interval '1 hour' from public.cafes, generate_series(1, 1200)
+       where place_id = 'near'`
+    );
+
+    const { body } = await getCafes({});
+    const near = body.cafes.find((c) => c.place_id === "near")!;
+    assert.equal(near.checkin_count, 1200);
+
+    const res = await getBusyHours(apiRequest(`/api/cafes/${near.id}/busy-hours`), {
+      params: Promise.resolve({ id: near.id }),
+    });
+    const busy = (await res.json()) as BusyHoursResponse;
+    assert.equal(busy.total, 1200);
+  });
+
+  test("Places errors fall back to an old cache row", async () => {
+    await getCafes({});
+    await env.db.query("update public.places_cache set expires_at = now() - interval '3 days'");
+    env.places.respond = () => ({ status: 503, body: { error: { message: "unavailable" } } });
+
+    const { status, body } = await getCafes({});
+
+    assert.equal(status, 200);
+    assert.equal(body.source, "stale");
+    assert.equal(body.degraded, "upstream_error");
+    assert.equal(body.total, 3);
+    assert.equal(env.places.requests.length, 2);
+  });
+});
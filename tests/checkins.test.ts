@@ -0,0 +1,146 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { POST } from "../app/api/checkins/route";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCafe } from "./support/db";
+
+const CAFE = { place_id: "test-cafe", lat: 37.7611, lng: -122.4139 };
+const TOKEN = "token-alice";
+
+async function checkIn(body: unknown, opts: { token?: string; ip?: string } = { token: TOKEN }) {
+  const res = await POST(apiRequest("/api/checkins", { method: "POST", body, ...opts }), {});
+  return { res, body: await res.json() };
+}
+
+describe("POST /api/checkins", () => {
+  let env: TestEnv;
+  let cafeId: string;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    env.supabase.users.set(TOKEN, { id: randomUUID(), email: "alice@example.com" });
+    cafeId = await insertCafe(env.db, CAFE);
+  });
+
+  test("401s when signed out", async () => {
+    const { res } = await checkIn({ cafeId }, {});
+    assert.equal(res.status, 401);
+  });
+
+  test("400s on a missing cafeId", async () => {
+    const { res, body } = await checkIn({ noiseLevel: 2 });
+    assert.equal(res.status, 400);
+    assert.equal(body.error, "Missing or invalid cafeId");
+  });
+
+  test("400s on a cafeId that isn't a uuid", async () => {
+    const { res, body } = await checkIn({ cafeId: "abc" });
+    assert.equal(res.status, 400);
+    assert.equal(body.error, "Missing or invalid cafeId");
+  });
+
+  test("400s on an out-of-range rating", async () => {
+    const { res, body } = await checkIn({ cafeId, noiseLevel: 9 });
+    assert.equal(res.status, 400);
+    assert.equal(body.error, "Invalid noiseLevel (expected integer 1-5)");
+  });
+
+  test("400s on half a location", async () => {
+    const { res, body } = await checkIn({ cafeId, lat: CAFE.lat });
+    assert.equal(res.status, 400);
+    assert.equal(body.error, "Invalid lat, lng or accuracy");
+  });
+
+  test("404s for an unknown café", async () => {
+    const { res, body } = await checkIn({ cafeId: randomUUID() });
+    assert.equal(res.status, 404);
+    assert.equal(body.error, "Cafe not found");
+  });
+
+  test("200: stores a verified check-in from inside the geofence", async () => {
+    const { res, body } = await checkIn({
+      cafeId,
+      noiseLevel: 2,
+      crowdedness: 3,
+      seatAvailability: 4,
+      lat: CAFE.lat + 0.0002,
+      lng: CAFE.lng,
+      accuracy: 10,
+    });
+
+    assert.equal(res.status, 200);
+    assert.equal(body.success, true);
+    assert.equal(body.checkIn.cafe_id, cafeId);
+    assert.equal(body.checkIn.verification_status, "verified");
+    assert.ok(body.checkIn.distance_m < 50);
+
+    const { rows } = await env.db.query<{ user_id: string; noise_level: number }>(
+      "select user_id, noise_level from public.checkins"
+    );
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0]!.user_id, env.supabase.users.get(TOKEN)!.id);
+    assert.equal(rows[0]!.noise_level, 2);
+  });
+
+  test("200: check-ins without a location are stored unverified", async () => {
+    const { res, body } = await checkIn({ cafeId });
+    assert.equal(res.status, 200);
+    assert.equal(body.checkIn.verification_status, "unverified");
+  });
+
+  test("200: a location without accuracy gets no slack", async () => {
+    const { res, body } = await checkIn({ cafeId, lat: CAFE.lat + 0.004, lng: CAFE.lng });
+    assert.equal(res.status, 200);
+    assert.equal(body.checkIn.verification_status, "flagged");
+    assert.ok(body.checkIn.distance_m > 400);
+  });
+
+  test("403s far from the café", async () => {
+    const { res } = await checkIn({ cafeId, lat: CAFE.lat + 0.1, lng: CAFE.lng });
+    assert.equal(res.status, 403);
+  });
+
+  test("429s a second check-in at the same café within the cooldown", async () => {
+    assert.equal((await checkIn({ cafeId })).res.status, 200);
+
+    const { res, body } = await checkIn({ cafeId });
+    assert.equal(res.status, 429);
+    assert.equal(body.error, "You already checked in here recently");
+    assert.equal(body.code, "cooldown");
+    assert.ok(Number(res.headers.get("retry-after")) > 3500);
+  });
+
+  test("concurrent check-ins can't both slip past the cooldown", async () => {
+    const results = await Promise.all([checkIn({ cafeId }), checkIn({ cafeId }), checkIn({ cafeId })]);
+
+    assert.deepEqual(results.map((r) => r.res.status).sort(), [200, 429, 429]);
+    const { rows } = await env.db.query("select id from public.checkins");
+    assert.equal(rows.length, 1);
+  });
+
+  test("429s once the per-IP rate limit is used up", async () => {
+    process.env.CHECKIN_COOLDOWN_SECONDS = "0";
+    const ip = "203.0.113.7";
+
+    for (let i = 0; i < 10; i++) {
+      const { res } = await checkIn({ cafeId }, { token: TOKEN, ip });
+      assert.equal(res.status, 200);
+      assert.equal(res.headers.get("ratelimit-remaining"), String(9 - i));
+    }
+
+    const { res, body } = await checkIn({ cafeId }, { token: TOKEN, ip });
+    assert.equal(res.status, 429);
+    assert.equal(body.error, "Rate limit exceeded");
+    assert.equal(body.code, "rate_limited");
+    assert.ok(res.headers.get("retry-after"));
+  });
+});
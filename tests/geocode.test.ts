@@ -0,0 +1,80 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { GET } from "../app/api/geocode/route";
+import type { GeocodeResponse } from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+
+async function geocode(q: string | null) {
+  const url = q == null ? "/api/geocode" : `/api/geocode?q=${encodeURIComponent(q)}`;
+  const res = await GET(apiRequest(url), {});
+  return { status: res.status, body: (await res.json()) as GeocodeResponse & { error?: string; code?: string } };
+}
+
+describe("GET /api/geocode", () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+  });
+
+  test("400s without a query", async () => {
+    const { status, body } = await geocode(null);
+    assert.equal(status, 400);
+    assert.equal(body.code, "invalid_request");
+    assert.equal((await geocode(" a ")).status, 400);
+  });
+
+  test("resolves through Google", async () => {
+    env.places.geocodes["Mission District"] = [
+      { label: "Mission District, San Francisco, CA, USA", lat: 37.7599, lng: -122.4148 },
+    ];
+
+    const { status, body } = await geocode("  Mission District ");
+
+    assert.equal(status, 200);
+    assert.equal(body.source, "google");
+    assert.deepEqual(body.results, [
+      { label: "Mission District, San Francisco, CA, USA", lat: 37.7599, lng: -122.4148 },
+    ]);
+    assert.deepEqual(env.places.geocodeRequests, ["Mission District"]);
+  });
+
+  test("no matches is an empty list, not an error", async () => {
+    const { status, body } = await geocode("Atlantis");
+    assert.equal(status, 200);
+    assert.deepEqual(body.results, []);
+  });
+
+  test("503s with a stable code when Google refuses", async () => {
+    env.places.respondGeocode = () => ({
+      status: 200,
+      body: { status: "REQUEST_DENIED", error_message: "The provided API key is invalid." },
+    });
+
+    const { status, body } = await geocode("Mission District");
+
+    assert.equal(status, 503);
+    assert.equal(body.code, "upstream_unavailable");
+    assert.doesNotMatch(body.error!, /API key/);
+  });
+
+  test("the fixture provider matches labels and aliases", async () => {
+    process.env.GEOCODE_PROVIDER = "fixture";
+
+    const { body } = await geocode("the mission");
+    assert.equal(body.source, "fixture");
+    assert.equal(body.results[0]!.label, "Mission District, San Francisco, CA, USA");
+
+    const { body: noe } = await geocode("Noe Valley");
+    assert.equal(noe.results[0]!.lat, 37.7502);
+    assert.equal(env.places.geocodeRequests.length, 0);
+  });
+});
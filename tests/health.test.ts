@@ -0,0 +1,109 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { GET as health } from "../app/api/health/route";
+import { GET as live } from "../app/api/health/live/route";
+import { GET as cafes } from "../app/api/cafes/route";
+import type { HealthReport } from "../lib/health";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { makePlace } from "./support/placesStandIn";
+
+async function getHealth(headers: Record<string, string> = { authorization: "Bearer ops-token" }) {
+  const res = await health(apiRequest("/api/health", { headers }), {});
+  return { status: res.status, report: (await res.json()) as HealthReport };
+}
+
+describe("GET /api/health", () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    process.env.METRICS_TOKEN = "ops-token";
+  });
+
+  test("liveness never touches dependencies", async () => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = "http://127.0.0.1:9";
+    const res = await live(apiRequest("/api/health/live"), {});
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).live, true);
+  });
+
+  test("without the token it only answers liveness", async () => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = "http://127.0.0.1:9";
+    for (const headers of [{}, { authorization: "Bearer wrong" }] as Record<string, string>[]) {
+      const { status, report } = await getHealth(headers);
+      assert.equal(status, 200);
+      assert.deepEqual(report, { status: "ok", live: true });
+    }
+
+    delete process.env.METRICS_TOKEN;
+    assert.deepEqual((await getHealth()).report, { status: "ok", live: true });
+  });
+
+  test("ready when the DB, tables and RPC are up", async () => {
+    const { status, report } = await getHealth();
+
+    assert.equal(status, 200);
+    assert.equal(report.ready, true);
+    assert.equal(report.status, "ok");
+    for (const name of ["database", "tables", "rateLimitRpc", "places", "placesBudget", "placesCache"]) {
+      const check = report.checks[name]!;
+      assert.equal(check.status, "ok", `${name}: ${check.message}`);
+      assert.equal(typeof check.latencyMs, "number");
+    }
+  });
+
+  test("reports the cache hit ratio and remaining budget", async () => {
+    process.env.PLACES_DAILY_BUDGET = "50";
+    env.places.places = [makePlace("a", 37.761, -122.421)];
+    const url = "/api/cafes?lat=37.761&lng=-122.421&radius=500";
+    await cafes(apiRequest(url), {}); // miss
+    await cafes(apiRequest(url), {}); // hit
+
+    const { report } = await getHealth();
+
+    assert.equal(report.checks.placesCache!.details!.hitRatio, 0.5);
+    assert.deepEqual(report.checks.placesBudget!.details!.day, {
+      used: 1,
+      limit: 50,
+      remaining: 49,
+    });
+  });
+
+  test("a missing Places key degrades but stays ready", async () => {
+    delete process.env.GOOGLE_MAPS_API_KEY;
+
+    const { status, report } = await getHealth();
+
+    assert.equal(status, 200);
+    assert.equal(report.ready, true);
+    assert.equal(report.status, "degraded");
+    assert.equal(report.checks.places!.status, "down");
+  });
+
+  test("not ready when a required table is missing", async () => {
+    await env.db.exec("alter table public.rate_limit_hits rename to rate_limit_hits_old");
+    try {
+      const { status, report } = await getHealth();
+
+      assert.equal(status, 503);
+      assert.equal(report.ready, false);
+      assert.equal(report.status, "down");
+      assert.equal(report.checks.tables!.status, "down");
+      assert.match(report.checks.tables!.message!, /rate_limit_hits/);
+      // Error codes only, no raw DB messages
+      assert.deepEqual(report.checks.tables!.details, { rate_limit_hits: "42P01" });
+      assert.equal(report.checks.rateLimitRpc!.message, "Query failed");
+      assert.equal(report.checks.database!.status, "ok");
+    } finally {
+      await env.db.exec("alter table public.rate_limit_hits_old rename to rate_limit_hits");
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { GET as getLists, POST as createList } from "../app/api/lists/route";
+import { PATCH as updateList, DELETE as deleteList } from "../app/api/lists/[id]/route";
+import { POST as addItem, PUT as reorderItems } from "../app/api/lists/[id]/items/route";
+import { DELETE as removeItem } from "../app/api/lists/[id]/items/[cafeId]/route";
+import { GET as getSharedList } from "../app/api/lists/shared/[token]/route";
+import { GET as getCafes } from "../app/api/cafes/route";
+import type { CafeList, CafesResponse } from "../lib/api/contracts";
+import { supabaseAdmin } from "../lib/supabase/server";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+const ALICE = "token-alice";
+const BOB = "token-bob";
+
+const params = <P>(p: P) => ({ params: Promise.resolve(p) });
+
+async function newList(name: string, token = ALICE) {
+  const res = await createList(apiRequest("/api/lists", { method: "POST", body: { name }, token }), {});
+  assert.equal(res.status, 201);
+  return ((await res.json()) as { list: CafeList }).list;
+}
+
+async function add(listId: string, cafeId: string, token = ALICE) {
+  const res = await addItem(
+    apiRequest(`/api/lists/${listId}/items`, { method: "POST", body: { cafeId }, token }),
+    params({ id: listId })
+  );
+  return { status: res.status, body: await res.json() };
+}
+
+describe("/api/lists", () => {
+  let env: TestEnv;
+  let cafeA: string;
+  let cafeB: string;
+  let cafeC: string;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    env.supabase.users.set(ALICE, { id: randomUUID(), email: "alice@example.com" });
+    env.supabase.users.set(BOB, { id: randomUUID(), email: "bob@example.com" });
+    cafeA = await insertCafe(env.db, { place_id: "a", lat: 37.761, lng: -122.421 });
+    cafeB = await insertCafe(env.db, { place_id: "b", lat: 37.762, lng: -122.421 });
+    cafeC = await insertCafe(env.db, { place_id: "c", lat: 37.763, lng: -122.421 });
+  });
+
+  test("401s when signed out", async () => {
+    const res = await getLists(apiRequest("/api/lists"), {});
+    assert.equal(res.status, 401);
+    assert.equal((await res.json()).code, "unauthorized");
+  });
+
+  test("creates lists and validates names", async () => {
+    await newList("Work spots");
+    await newList("Weekend");
+
+    const res = await getLists(apiRequest("/api/lists", { token: ALICE }), {});
+    const { lists } = (await res.json()) as { lists: CafeList[] };
+    assert.deepEqual(
+      lists.map((l) => [l.name, l.shareToken, l.cafes.length]),
+      [
+        ["Work spots", null, 0],
+        ["Weekend", null, 0],
+      ]
+    );
+
+    const bad = await createList(
+      apiRequest("/api/lists", { method: "POST", body: { name: "  " }, token: ALICE }),
+      {}
+    );
+    assert.equal(bad.status, 400);
+    assert.equal((await bad.json()).error, "Missing name");
+  });
+
+  test("adds, reorders and removes cafés", async () => {
+    const list = await newList("Work spots");
+    await add(list.id, cafeA);
+    await add(list.id, cafeB);
+    const { status, body } = await add(list.id, cafeC);
+    assert.equal(status, 201);
+    assert.deepEqual(body.list.cafes.map((c: { id: string }) => c.id), [cafeA, cafeB, cafeC]);
+
+    // Adding again is a no-op
+    const again = await add(list.id, cafeA);
+    assert.equal(again.body.list.cafes.length, 3);
+
+    const reordered = await reorderItems(
+      apiRequest(`/api/lists/${list.id}/items`, {
+        method: "PUT",
+        body: { cafeIds: [cafeC, cafeA, cafeB] },
+        token: ALICE,
+      }),
+      params({ id: list.id })
+    );
+    assert.deepEqual(
+      (await reordered.json()).list.cafes.map((c: { id: string }) => c.id),
+      [cafeC, cafeA, cafeB]
+    );
+
+    const partial = await reorderItems(
+      apiRequest(`/api/lists/${list.id}/items`, {
+        method: "PUT",
+        body: { cafeIds: [cafeA, cafeB] },
+        token: ALICE,
+      }),
+      params({ id: list.id })
+    );
+    assert.equal(partial.status, 400);
+
+    const removed = await removeItem(
+      apiRequest(`/api/lists/${list.id}/items/${cafeA}`, { method: "DELETE", token: ALICE }),
+      params({ id: list.id, cafeId: cafeA })
+    );
+    assert.deepEqual(
+      (await removed.json()).list.cafes.map((c: { id: string }) => c.id),
+      [cafeC, cafeB]
+    );
+
+    // A reorder racing that removal (still listing cafeA) doesn't bring it back
+    const { error } = await supabaseAdmin().rpc("reorder_list_items", {
+      p_list_id: list.id,
+      p_cafe_ids: [cafeA, cafeB, cafeC],
+    });
+    assert.equal(error, null);
+    const { rows } = await env.db.query<{ cafe_id: string }>(
+      "select cafe_id from public.cafe_list_items where list_id = $1 order by position",
+      [list.id]
+    );
+    assert.deepEqual(rows.map((r) => r.cafe_id), [cafeB, cafeC]);
+  });
+
+  test("404s on unknown cafés and on other users' lists", async () => {
+    const list = await newList("Mine");
+
+    assert.equal((await add(list.id, randomUUID())).status, 404);
+    assert.equal((await add(list.id, cafeA, BOB)).status, 404);
+    assert.equal((await add("not-a-uuid", cafeA)).status, 404);
+
+    const res = await deleteList(
+      apiRequest(`/api/lists/${list.id}`, { method: "DELETE", token: BOB }),
+      params({ id: list.id })
+    );
+    assert.equal(res.status, 404);
+  });
+
+  test("shares a list publicly and revokes the link", async () => {
+    const list = await newList("Weekend");
+    await add(list.id, cafeB);
+
+    const shared = await updateList(
+      apiRequest(`/api/lists/${list.id}`, { method: "PATCH", body: { shared: true }, token: ALICE }),
+      params({ id: list.id })
+    );
+    const token = (await shared.json()).list.shareToken as string;
+    assert.ok(token && token.length >= 20);
+
+    const publicView = await getSharedList(apiRequest(`/api/lists/shared/${token}`), params({ token }));
+    assert.equal(publicView.status, 200);
+    const body = await publicView.json();
+    assert.equal(body.list.name, "Weekend");
+    assert.deepEqual(body.list.cafes.map((c: { id: string }) => c.id), [cafeB]);
+    assert.equal(body.list.id, undefined);
+
+    await updateList(
+      apiRequest(`/api/lists/${list.id}`, { method: "PATCH", body: { shared: false }, token: ALICE }),
+      params({ id: list.id })
+    );
+    const revoked = await getSharedList(apiRequest(`/api/lists/shared/${token}`), params({ token }));
+    assert.equal(revoked.status, 404);
+  });
+
+  test("GET /api/cafes flags the signed-in user's saved cafés", async () => {
+    env.places.places = [makePlace("a", 37.761, -122.421), makePlace("b", 37.762, -122.421)];
+    const list = await newList("Work spots");
+    await add(list.id, cafeA);
+
+    const url = "/api/cafes?lat=37.761&lng=-122.421&radius=500";
+    const saved = async (token?: string) => {
+      const res = await getCafes(apiRequest(url, { token }), {});
+      const body = (await res.json()) as CafesResponse;
+      return Object.fromEntries(body.cafes.map((c) => [c.place_id, c.saved]));
+    };
+
+    assert.deepEqual(await saved(ALICE), { a: true, b: false });
+    assert.deepEqual(await saved(BOB), { a: false, b: false });
+    assert.deepEqual(await saved(), { a: false, b: false });
+  });
+});
@@ -0,0 +1,94 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { GET as metrics } from "../app/api/metrics/route";
+import { GET as cafes } from "../app/api/cafes/route";
+import { GET as cafe } from "../app/api/cafes/[id]/route";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+async function scrape(headers: Record<string, string> = { authorization: "Bearer s3cret" }) {
+  const res = await metrics(apiRequest("/api/metrics", { headers }), {});
+  return { res, text: await res.text() };
+}
+
+describe("request ids, errors and /api/metrics", () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    process.env.METRICS_TOKEN = "s3cret";
+  });
+
+  test("echoes a sane incoming X-Request-Id and mints one otherwise", async () => {
+    const given = await cafes(
+      apiRequest("/api/cafes?lng=1", { headers: { "x-request-id": "abc-123" } }),
+      {}
+    );
+    assert.equal(given.headers.get("x-request-id"), "abc-123");
+    assert.equal((await given.json()).requestId, "abc-123");
+
+    const minted = await cafes(
+      apiRequest("/api/cafes?lng=1", { headers: { "x-request-id": "bad id\n" } }),
+      {}
+    );
+    assert.match(minted.headers.get("x-request-id")!, /^[0-9a-f-]{36}$/);
+  });
+
+  test("500s don't leak the underlying error", async () => {
+    const id = await insertCafe(env.db, { place_id: "p1", lat: 37.761, lng: -122.421 });
+    await env.db.exec("alter table public.checkins rename to checkins_old");
+    try {
+      const res = await cafe(apiRequest(`/api/cafes/${id}`), {
+        params: Promise.resolve({ id }),
+      });
+      const body = await res.json();
+
+      assert.equal(res.status, 500);
+      assert.deepEqual(body, {
+        error: "Internal server error",
+        code: "internal_error",
+        requestId: res.headers.get("x-request-id"),
+      });
+    } finally {
+      await env.db.exec("alter table public.checkins_old rename to checkins");
+    }
+  });
+
+  test("exposes request, cache and upstream metrics", async () => {
+    env.places.places = [makePlace("a", 37.761, -122.421)];
+    const url = "/api/cafes?lat=37.761&lng=-122.421&radius=500";
+    await cafes(apiRequest(url), {}); // miss
+    await cafes(apiRequest(url), {}); // hit
+
+    const { res, text } = await scrape();
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type")!, /^text\/plain; version=0\.0\.4/);
+    assert.match(text, /^# TYPE http_requests_total counter$/m);
+    assert.match(text, /^http_requests_total\{method="GET",route="\/api\/cafes",status="200"\} \d+$/m);
+    assert.match(text, /^http_request_duration_seconds_count\{method="GET",route="\/api\/cafes"\} \d+$/m);
+    assert.match(text, /^cafes_responses_total\{source="cache"\} 1$/m);
+    assert.match(text, /^places_upstream_requests_total\{endpoint="searchNearby",outcome="ok"\} 1$/m);
+    assert.match(text, /^places_cache_writes_total\{result="written"\} 1$/m);
+    assert.match(text, /^rate_limit_decisions_total\{decision="allowed",route="GET \/api\/cafes"\} \d+$/m);
+  });
+
+  test("requires the bearer token, and is off while METRICS_TOKEN is unset", async () => {
+    assert.equal((await scrape({})).res.status, 401);
+    assert.equal((await scrape({ authorization: "Bearer nope" })).res.status, 401);
+    assert.equal((await scrape()).res.status, 200);
+
+    delete process.env.METRICS_TOKEN;
+    assert.equal((await scrape({})).res.status, 401);
+    assert.equal((await scrape({ authorization: "Bearer " })).res.status, 401);
+  });
+});
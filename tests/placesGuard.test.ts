@@ -0,0 +1,139 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { GET as getCafes } from "../app/api/cafes/route";
+import { getPlaceProvider } from "../lib/places/provider";
+import { breakerStatus, UpstreamUnavailableError } from "../lib/places/guard";
+import type { CafesResponse } from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+const ORIGIN = { lat: 37.761, lng: -122.4215 };
+const SEARCH = { ...ORIGIN, radiusM: 500 };
+
+const UNAVAILABLE = { status: 503, body: { error: { message: "unavailable" } } };
+
+async function search() {
+  try {
+    return { places: await getPlaceProvider().searchNearby(SEARCH), reason: null };
+  } catch (err) {
+    assert.ok(err instanceof UpstreamUnavailableError);
+    return { places: null, reason: err.reason };
+  }
+}
+
+async function listCafes() {
+  const res = await getCafes(
+    apiRequest(`/api/cafes?lat=${ORIGIN.lat}&lng=${ORIGIN.lng}&radius=${SEARCH.radiusM}`),
+    {}
+  );
+  return (await res.json()) as CafesResponse;
+}
+
+describe("guarded Places calls", () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    // The breaker is per process: close it again with one good call
+    await env.reset();
+    process.env.PLACES_BREAKER_COOLDOWN_SECONDS = "0";
+    await search();
+    await env.reset();
+    env.places.places = [makePlace("near", ORIGIN.lat, ORIGIN.lng)];
+  });
+
+  // The harness turns retries and the breaker off; these put them back
+
+  test("the breaker opens after repeated outages and half-opens after the cooldown", async () => {
+    process.env.PLACES_BREAKER_THRESHOLD = "2";
+    process.env.PLACES_BREAKER_COOLDOWN_SECONDS = "60";
+    env.places.respond = () => UNAVAILABLE;
+
+    assert.equal((await search()).reason, "upstream_error");
+    assert.equal(breakerStatus().state, "closed");
+    assert.equal((await search()).reason, "upstream_error");
+    assert.equal(breakerStatus().state, "open");
+
+    // Open: rejected without calling Google
+    assert.equal((await search()).reason, "circuit_open");
+    assert.equal(env.places.requests.length, 2);
+
+    // Past the cooldown one trial call decides
+    process.env.PLACES_BREAKER_COOLDOWN_SECONDS = "0";
+    env.places.respond = null;
+    assert.equal(breakerStatus().state, "half_open");
+    assert.equal((await search()).places?.length, 1);
+    assert.equal(breakerStatus().state, "closed");
+  });
+
+  test("a hung call times out and counts toward the breaker", async () => {
+    process.env.PLACES_TIMEOUT_MS = "50";
+    process.env.PLACES_BREAKER_THRESHOLD = "1";
+    process.env.PLACES_BREAKER_COOLDOWN_SECONDS = "60";
+    env.places.respond = () => ({ status: 200, body: { places: [] }, delayMs: 500 });
+
+    assert.equal((await search()).reason, "upstream_error");
+    assert.equal(breakerStatus().state, "open");
+  });
+
+  test("retries transient errors within one call", async () => {
+    process.env.PLACES_RETRY_ATTEMPTS = "3";
+    process.env.PLACES_RETRY_BASE_MS = "0";
+    let calls = 0;
+    env.places.respond = () => (++calls < 3 ? UNAVAILABLE : { status: 200, body: { places: env.places.places } });
+
+    assert.equal((await search()).places?.length, 1);
+    assert.equal(env.places.requests.length, 3);
+  });
+
+  test("an exhausted budget falls back to known cafés without calling Google", async () => {
+    process.env.PLACES_DAILY_BUDGET = "0";
+    await insertCafe(env.db, { place_id: "known", ...ORIGIN });
+
+    assert.equal((await search()).reason, "budget_exhausted");
+
+    const body = await listCafes();
+    assert.equal(body.source, "db");
+    assert.equal(body.degraded, "budget_exhausted");
+    assert.deepEqual(body.cafes.map((c) => c.place_id), ["known"]);
+    assert.equal(env.places.requests.length, 0);
+  });
+
+  test("DB-primary mode answers well-covered areas itself", async () => {
+    process.env.PLACES_DB_MODE = "primary";
+    process.env.PLACES_DB_MIN_RESULTS = "2";
+    const fetchedAt = new Date().toISOString();
+    await insertCafe(env.db, { place_id: "k1", ...ORIGIN, last_fetched_at: fetchedAt });
+
+    // One café isn't coverage: off to Google
+    assert.equal((await listCafes()).source, "google");
+    assert.equal(env.places.requests.length, 1);
+
+    await env.db.query("truncate public.places_cache");
+    await insertCafe(env.db, { place_id: "k2", ...ORIGIN, last_fetched_at: fetchedAt });
+    const body = await listCafes();
+    assert.equal(body.source, "db");
+    assert.equal(body.degraded, undefined);
+    assert.equal(env.places.requests.length, 1);
+  });
+
+  test("client errors don't count toward the breaker", async () => {
+    process.env.PLACES_BREAKER_THRESHOLD = "1";
+    env.places.respond = () => ({ status: 400, body: { error: { status: "INVALID_ARGUMENT" } } });
+
+    assert.equal((await search()).reason, "upstream_error");
+    assert.equal(breakerStatus().state, "closed");
+
+    env.places.respond = null;
+    assert.equal((await search()).places?.length, 1);
+    assert.equal(env.places.requests.length, 2);
+  });
+});
@@ -0,0 +1,81 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { enforceRateLimit, rateLimitHeaders } from "../lib/rateLimit";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+
+function hit(route: string, ip: string, limit = 3) {
+  return enforceRateLimit({ req: apiRequest("/", { ip }), route, limit, windowSeconds: 60 });
+}
+
+let env: TestEnv;
+
+before(async () => {
+  env = await startTestEnv();
+});
+
+after(async () => {
+  await env.stop();
+});
+
+for (const backend of ["supabase", "memory"] as const) {
+  describe(`enforceRateLimit (${backend} backend)`, () => {
+    beforeEach(async () => {
+      await env.reset();
+      process.env.RATE_LIMIT_BACKEND = backend;
+    });
+
+    test("allows up to the limit, then blocks", async () => {
+      const route = `GET /limited-${backend}`;
+      const results = [];
+      for (let i = 0; i < 4; i++) results.push(await hit(route, "198.51.100.1"));
+
+      assert.deepEqual(
+        results.map((r) => r.allowed),
+        [true, true, true, false]
+      );
+      assert.deepEqual(
+        results.slice(0, 3).map((r) => r.used),
+        [1, 2, 3]
+      );
+      assert.equal(results[3]!.limit, 3);
+      assert.equal(rateLimitHeaders(results[3]!)["RateLimit-Remaining"], "0");
+
+      const resetIn = results[3]!.resetAt.getTime() - Date.now();
+      assert.ok(resetIn > 0 && resetIn <= 60_000);
+    });
+
+    test("counts each client IP separately", async () => {
+      const route = `GET /per-ip-${backend}`;
+      for (let i = 0; i < 3; i++) await hit(route, "198.51.100.2");
+
+      assert.equal((await hit(route, "198.51.100.2")).allowed, false);
+      assert.equal((await hit(route, "198.51.100.3")).allowed, true);
+    });
+
+    test("counts each route separately", async () => {
+      for (let i = 0; i < 3; i++) await hit(`GET /a-${backend}`, "198.51.100.4");
+
+      assert.equal((await hit(`GET /a-${backend}`, "198.51.100.4")).allowed, false);
+      assert.equal((await hit(`GET /b-${backend}`, "198.51.100.4")).allowed, true);
+    });
+
+    test("uses the first x-forwarded-for hop as the client", async () => {
+      const route = `GET /xff-${backend}`;
+      for (let i = 0; i < 3; i++) await hit(route, "198.51.100.5, 10.0.0.1");
+
+      assert.equal((await hit(route, "198.51.100.5, 10.9.9.9")).allowed, false);
+    });
+  });
+}
+
+test("supabase backend stores hashed IPs, never raw ones", async () => {
+  await env.reset();
+  await hit("GET /hashed", "198.51.100.9");
+
+  const { rows } = await env.db.query<{ ip_hash: string; count: number }>(
+    "select ip_hash, count from public.rate_limit_hits where route = 'GET /hashed'"
+  );
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0]!.count, 1);
+  assert.ok(!rows[0]!.ip_hash.includes("198.51.100.9"));
+});
@@ -0,0 +1,316 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { GET as listReviews, POST as writeReview } from "../app/api/cafes/[id]/reviews/route";
+import { POST as reportReview } from "../app/api/reviews/[id]/report/route";
+import { GET as adminQueue } from "../app/api/admin/reviews/route";
+import { PATCH as moderate, DELETE as deleteReview } from "../app/api/admin/reviews/[id]/route";
+import { GET as getCafes } from "../app/api/cafes/route";
+import { checkReviewText } from "../lib/reviews/filter";
+import type {
+  AdminReviewsResponse,
+  CafesResponse,
+  ReviewResponse,
+  ReviewsResponse,
+} from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+const USERS = ["alice", "bob", "carol", "dave", "admin"] as const;
+type UserName = (typeof USERS)[number];
+const token = (name: UserName) => `token-${name}`;
+const params = <P>(p: P) => ({ params: Promise.resolve(p) });
+
+async function write(cafeId: string, body: unknown, as: UserName = "alice") {
+  const res = await writeReview(
+    apiRequest(`/api/cafes/${cafeId}/reviews`, { method: "POST", body, token: token(as) }),
+    params({ id: cafeId })
+  );
+  return { status: res.status, body: (await res.json()) as ReviewResponse & { error?: string } };
+}
+
+async function report(reviewId: string, as: UserName, reason = "spam") {
+  const res = await reportReview(
+    apiRequest(`/api/reviews/${reviewId}/report`, { method: "POST", body: { reason }, token: token(as) }),
+    params({ id: reviewId })
+  );
+  return { status: res.status, body: await res.json() };
+}
+
+async function publicReviews(cafeId: string) {
+  const res = await listReviews(apiRequest(`/api/cafes/${cafeId}/reviews`), params({ id: cafeId }));
+  return ((await res.json()) as ReviewsResponse).reviews;
+}
+
+async function queue(status = "pending", as: UserName = "admin") {
+  const res = await adminQueue(apiRequest(`/api/admin/reviews?status=${status}`, { token: token(as) }), {});
+  return { status: res.status, body: (await res.json()) as AdminReviewsResponse };
+}
+
+describe("checkReviewText", () => {
+  test("allows ordinary reviews", () => {
+    assert.deepEqual(checkReviewText("Great flat white, quiet upstairs. Shiitake toast!"), { action: "allow" });
+    for (const text of [
+      "Went in 2023 2024 and 2025, still good",
+      "Prices 3.50 4.50 5.25 for the basics",
+      "Coffee was great.Co-workers loved it",
+    ]) {
+      assert.deepEqual(checkReviewText(text), { action: "allow" }, text);
+    }
+  });
+
+  test("rejects links and contact details", () => {
+    for (const text of [
+      "Visit www.example.com",
+      "see https://x.y",
+      "cheaper at beans.com/menu",
+      "call 415 555 1234",
+      "call (415) 555-1234",
+      "call +44 20 7946 0958",
+      "mail a@b.co",
+    ]) {
+      assert.equal(checkReviewText(text).action, "reject", text);
+    }
+  });
+
+  test("holds profanity (including repeats and leetspeak) and spammy text", () => {
+    assert.deepEqual(checkReviewText("Sh1t wifi"), { action: "hold", reason: "profanity" });
+    assert.deepEqual(checkReviewText("so fuuuucking loud"), { action: "hold", reason: "profanity" });
+    assert.deepEqual(checkReviewText("BEST CAFE EVER BUY NOW OK"), { action: "hold", reason: "spam" });
+    assert.deepEqual(checkReviewText("nice nice nice nice nice nice"), { action: "hold", reason: "spam" });
+  });
+});
+
+describe("reviews", () => {
+  let env: TestEnv;
+  let cafeId: string;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+    process.env.ADMIN_EMAILS = "Admin@Example.com";
+    process.env.REVIEW_REPORT_THRESHOLD = "2";
+    for (const name of USERS) {
+      env.supabase.users.set(token(name), { id: randomUUID(), email: `${name}@example.com` });
+    }
+    cafeId = await insertCafe(env.db, { place_id: "a", lat: 37.761, lng: -122.421 });
+  });
+
+  test("POST validates the caller and body", async () => {
+    const anon = await writeReview(
+      apiRequest(`/api/cafes/${cafeId}/reviews`, { method: "POST", body: { body: "Nice" } }),
+      params({ id: cafeId })
+    );
+    assert.equal(anon.status, 401);
+
+    assert.equal((await write(cafeId, { body: "x" })).body.error, "Review is too short (min 3 characters)");
+    assert.equal(
+      (await write(cafeId, { body: "Nice", rating: 6 })).body.error,
+      "Invalid rating (expected integer 1-5)"
+    );
+
+    const link = await write(cafeId, { body: "Better: www.other.com" });
+    assert.equal(link.status, 400);
+    assert.equal(link.body.error, "Reviews can't contain links or contact details");
+
+    assert.equal((await write(randomUUID(), { body: "Nice spot" })).status, 404);
+    assert.equal((await write("not-a-uuid", { body: "Nice spot" })).status, 404);
+  });
+
+  test("clean reviews publish straight away; filtered ones wait in the queue", async () => {
+    const clean = await write(cafeId, { body: "Quiet mornings, good outlets", rating: 5 }, "alice");
+    assert.equal(clean.status, 201);
+    assert.equal(clean.body.review.status, "approved");
+
+    const held = await write(cafeId, { body: "Staff were shit today" }, "bob");
+    assert.equal(held.status, 201);
+    assert.equal(held.body.review.status, "pending");
+
+    assert.deepEqual(
+      (await publicReviews(cafeId)).map((r) => r.body),
+      ["Quiet mornings, good outlets"]
+    );
+
+    const pending = await queue();
+    assert.equal(pending.status, 200);
+    assert.deepEqual(
+      pending.body.reviews.map((r) => [r.body, r.moderation_reason]),
+      [["Staff were shit today", "profanity"]]
+    );
+  });
+
+  test("writing again replaces your review", async () => {
+    await write(cafeId, { body: "Loud at lunch" });
+    await write(cafeId, { body: "Much quieter now", rating: 4 });
+
+    const reviews = await publicReviews(cafeId);
+    assert.equal(reviews.length, 1);
+    assert.equal(reviews[0]!.body, "Much quieter now");
+    assert.equal(reviews[0]!.rating, 4);
+  });
+
+  test("re-posting doesn't undo moderation or reports", async () => {
+    const { body } = await write(cafeId, { body: "Quiet and bright" }, "alice");
+    const reviewId = body.review.id;
+    const moderateAs = (status: string) =>
+      moderate(
+        apiRequest(`/api/admin/reviews/${reviewId}`, { method: "PATCH", body: { status }, token: token("admin") }),
+        params({ id: reviewId })
+      );
+
+    await moderateAs("hidden");
+    const hidden = await write(cafeId, { body: "Quiet and bright, honest" }, "alice");
+    assert.equal(hidden.status, 201);
+    assert.equal(hidden.body.review.status, "hidden");
+    assert.equal((await publicReviews(cafeId)).length, 0);
+    assert.equal((await queue("hidden")).body.reviews[0]!.moderation_reason, "moderator");
+
+    // Reported back into the queue: edits wait there too, reports and all
+    await moderateAs("approved");
+    await report(reviewId, "bob");
+    await report(reviewId, "carol");
+    const requeued = await write(cafeId, { body: "Quiet and bright, promise" }, "alice");
+    assert.equal(requeued.body.review.status, "pending");
+    const [queued] = (await queue()).body.reviews;
+    assert.equal(queued!.body, "Quiet and bright, promise");
+    assert.equal(queued!.moderation_reason, "reported");
+    assert.equal(queued!.report_count, 2);
+    assert.equal(queued!.reports.length, 2);
+  });
+
+  test("reviews are rate-limited per user, across IPs", async () => {
+    // Sliding window, so the test can't straddle an hourly window boundary
+    process.env.RATE_LIMIT_BACKEND = "memory";
+    const cafes = [cafeId];
+    for (let i = 0; i < 5; i++) {
+      cafes.push(await insertCafe(env.db, { place_id: `extra-${i}`, lat: 37.761, lng: -122.421 }));
+    }
+
+    // Rejected submissions don't use up the quota
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await write(cafeId, { body: "" })).status, 400);
+      assert.equal((await write(cafeId, { body: "Call me at www.spam.com" })).status, 400);
+    }
+
+    const statuses = [];
+    for (const id of cafes) statuses.push((await write(id, { body: "Decent coffee" })).status);
+
+    // apiRequest uses a fresh IP per call, so only the per-user limit applies
+    assert.deepEqual(statuses, [201, 201, 201, 201, 201, 429]);
+    assert.equal((await write(cafes[5]!, { body: "Decent coffee" }, "bob")).status, 201);
+  });
+
+  test("rejected reports don't use up the report quota", async () => {
+    process.env.RATE_LIMIT_BACKEND = "memory";
+    const { body } = await write(cafeId, { body: "Quiet and bright" }, "alice");
+
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await report(randomUUID(), "bob")).status, 404);
+      assert.equal((await report("not-a-uuid", "bob")).status, 404);
+      assert.equal((await report(body.review.id, "bob", "rude")).status, 400);
+    }
+    assert.equal((await report(body.review.id, "bob")).status, 200);
+  });
+
+  test("enough reports send an approved review back to the queue", async () => {
+    const { body } = await write(cafeId, { body: "Quiet and bright" }, "alice");
+    const reviewId = body.review.id;
+
+    assert.equal((await report(reviewId, "alice")).body.error, "You can't report your own review");
+    assert.equal(
+      (await report(reviewId, "bob", "rude")).body.error,
+      "Invalid reason (expected one of spam, offensive, off_topic, other)"
+    );
+
+    assert.equal((await report(reviewId, "bob")).status, 200);
+    assert.equal((await report(reviewId, "bob")).status, 200); // repeats don't count twice
+    assert.equal((await publicReviews(cafeId)).length, 1);
+
+    assert.equal((await report(reviewId, "carol", "offensive")).status, 200);
+    assert.equal((await publicReviews(cafeId)).length, 0);
+
+    const [queued] = (await queue()).body.reviews;
+    assert.equal(queued!.id, reviewId);
+    assert.equal(queued!.moderation_reason, "reported");
+    assert.equal(queued!.report_count, 2);
+    assert.deepEqual(queued!.reports.map((r) => r.reason).sort(), ["offensive", "spam"]);
+
+    // Hidden from the public, so no more reports
+    assert.equal((await report(reviewId, "dave")).status, 404);
+  });
+
+  test("admins approve, hide and delete; everyone else is turned away", async () => {
+    const { body } = await write(cafeId, { body: "Shit coffee honestly" }, "alice");
+    const reviewId = body.review.id;
+    const act = (method: "PATCH" | "DELETE", as: UserName, status?: string) =>
+      (method === "PATCH" ? moderate : deleteReview)(
+        apiRequest(`/api/admin/reviews/${reviewId}`, {
+          method,
+          body: status ? { status } : undefined,
+          token: token(as),
+        }),
+        params({ id: reviewId })
+      );
+
+    assert.equal((await queue("pending", "alice")).status, 403);
+    assert.equal((await act("PATCH", "alice", "approved")).status, 403);
+    const anon = await adminQueue(apiRequest("/api/admin/reviews"), {});
+    assert.equal(anon.status, 401);
+
+    const bad = await act("PATCH", "admin", "deleted");
+    assert.equal(bad.status, 400);
+
+    const approved = await act("PATCH", "admin", "approved");
+    assert.equal(approved.status, 200);
+    assert.equal((await approved.json()).review.status, "approved");
+    assert.equal((await publicReviews(cafeId)).length, 1);
+
+    await act("PATCH", "admin", "hidden");
+    assert.equal((await publicReviews(cafeId)).length, 0);
+    assert.equal((await queue("hidden")).body.reviews[0]!.moderation_reason, "moderator");
+
+    assert.equal((await act("DELETE", "admin")).status, 200);
+    assert.equal((await act("DELETE", "admin")).status, 404);
+  });
+
+  test("GET /api/cafes summarises approved reviews on each café", async () => {
+    env.places.places = [makePlace("a", 37.761, -122.421)];
+    await write(cafeId, { body: "Lovely light", rating: 5 }, "alice");
+    await write(cafeId, { body: "Fine for an hour", rating: 3 }, "bob");
+    await write(cafeId, { body: "Shit music" }, "carol"); // held
+
+    const res = await getCafes(apiRequest("/api/cafes?lat=37.761&lng=-122.421&radius=500"), {});
+    const { cafes } = (await res.json()) as CafesResponse;
+
+    assert.equal(cafes[0]!.reviews.count, 2);
+    assert.equal(cafes[0]!.reviews.avg_rating, 4);
+    assert.equal(cafes[0]!.reviews.latest!.body, "Fine for an hour");
+  });
+
+  test("review summaries cover every review, past Supabase's max-rows", async () => {
+    env.places.places = [makePlace("a", 37.761, -122.421)];
+    await env.db.query(
+      `insert into public.cafe_reviews (cafe_id, user_id, body, rating, status, created_at)
+       select $1, gen_random_uuid(), 'Fine', case when i <= 600 then 5 else 4 end, 'approved',
+         now() - make_interval(mins => i)
+       from generate_series(1, 1200) i`,
+      [cafeId]
+    );
+    await write(cafeId, { body: "Newest one", rating: 1 }, "alice");
+
+    const res = await getCafes(apiRequest("/api/cafes?lat=37.761&lng=-122.421&radius=500"), {});
+    const { cafes } = (await res.json()) as CafesResponse;
+
+    assert.equal(cafes[0]!.reviews.count, 1201);
+    assert.equal(cafes[0]!.reviews.avg_rating, 4.5);
+    assert.equal(cafes[0]!.reviews.latest!.body, "Newest one");
+  });
+});
@@ -0,0 +1,243 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { GET as refreshStale } from "../app/api/cron/refresh-stale/route";
+import { GET as getCafes } from "../app/api/cafes/route";
+import { refreshStaleCafes } from "../lib/places/staleRefresh";
+import { breakerStatus } from "../lib/places/guard";
+import { supabaseAdmin } from "../lib/supabase/server";
+import type { CafesResponse } from "../lib/api/contracts";
+import { apiRequest, startTestEnv, type TestEnv } from "./support/harness";
+import { insertCacheRow, insertCafe } from "./support/db";
+import { makePlace } from "./support/placesStandIn";
+
+const ORIGIN = { lat: 37.761, lng: -122.4215 };
+const DAY_MS = 86_400_000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+async function cafeRow(env: TestEnv, placeId: string) {
+  const { rows } = await env.db.query<{
+    name: string;
+    google_rating: number | null;
+    business_status: string | null;
+    permanently_closed: boolean;
+    last_fetched_at: Date | null;
+    refresh_failures: number;
+    refresh_retry_at: Date | null;
+  }>(
+    `select name, google_rating, business_status, permanently_closed, last_fetched_at,
+       refresh_failures, refresh_retry_at
+     from public.cafes where place_id = $1`,
+    [placeId]
+  );
+  return rows[0]!;
+}
+
+describe("stale café refresh", () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await startTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  beforeEach(async () => {
+    await env.reset();
+  });
+
+  test("refreshes cafés past the age threshold and leaves fresh ones alone", async () => {
+    await insertCafe(env.db, { place_id: "old", name: "Old name", ...ORIGIN, last_fetched_at: daysAgo(45) });
+    await insertCafe(env.db, { place_id: "never", ...ORIGIN });
+    await insertCafe(env.db, { place_id: "fresh", ...ORIGIN, last_fetched_at: daysAgo(2) });
+    env.places.places = [
+      makePlace("old", ORIGIN.lat, ORIGIN.lng, { displayName: { text: "New name" }, rating: 4.8 }),
+      makePlace("never", ORIGIN.lat, ORIGIN.lng),
+      makePlace("fresh", ORIGIN.lat, ORIGIN.lng),
+    ];
+
+    const summary = await refreshStaleCafes(supabaseAdmin());
+
+    assert.equal(summary.stale, 2);
+    assert.equal(summary.refreshed, 2);
+    assert.equal(summary.stoppedBy, null);
+    // Never-fetched cafés go first
+    assert.deepEqual(env.places.detailsRequests, ["never", "old"]);
+
+    const old = await cafeRow(env, "old");
+    assert.equal(old.name, "New name");
+    assert.equal(old.google_rating, 4.8);
+    assert.equal(old.business_status, null);
+    assert.ok(Date.now() - old.last_fetched_at!.getTime() < 60_000);
+  });
+
+  test("locked cafés keep their edits but still pick up closures", async () => {
+    const id = await insertCafe(env.db, { place_id: "edited", name: "Hand-fixed", ...ORIGIN, last_fetched_at: daysAgo(40) });
+    await env.db.query("update public.cafes set locked = true where id = $1", [id]);
+    env.places.places = [
+      makePlace("edited", ORIGIN.lat, ORIGIN.lng, { businessStatus: "CLOSED_PERMANENTLY" }),
+    ];
+
+    const summary = await refreshStaleCafes(supabaseAdmin());
+
+    assert.equal(summary.closed, 1);
+    const row = await cafeRow(env, "edited");
+    assert.equal(row.name, "Hand-fixed");
+    assert.equal(row.business_status, "CLOSED_PERMANENTLY");
+    assert.equal(row.permanently_closed, true);
+  });
+
+  test("closed and vanished places drop out of listings and later runs", async () => {
+    for (const placeId of ["open", "closed", "gone"]) {
+      await insertCafe(env.db, { place_id: placeId, ...ORIGIN, last_fetched_at: daysAgo(60) });
+    }
+    env.places.places = [
+      makePlace("open", ORIGIN.lat, ORIGIN.lng, { businessStatus: "OPERATIONAL" }),
+      makePlace("closed", ORIGIN.lat, ORIGIN.lng, { businessStatus: "CLOSED_PERMANENTLY" }),
+    ];
+
+    const summary = await refreshStaleCafes(supabaseAdmin());
+    assert.deepEqual(
+      [summary.refreshed, summary.closed, summary.notFound],
+      [1, 1, 1]
+    );
+
+    const gone = await cafeRow(env, "gone");
+    assert.equal(gone.permanently_closed, true);
+    assert.equal(gone.business_status, "NOT_FOUND");
+
+    await insertCacheRow(env.db, {
+      cache_key: "nearby:area",
+      lat: ORIGIN.lat,
+      lng: ORIGIN.lng,
+      radius_m: 2000,
+      place_ids: ["open", "closed", "gone"],
+      fetched_at: new Date(),
+      expires_at: new Date(Date.now() + 600_000),
+    });
+    const res = await getCafes(
+      apiRequest(`/api/cafes?lat=${ORIGIN.lat}&lng=${ORIGIN.lng}&radius=1000`),
+      {}
+    );
+    const body = (await res.json()) as CafesResponse;
+    assert.deepEqual(body.cafes.map((c) => c.place_id), ["open"]);
+
+    // Closed cafés aren't looked up again
+    await env.db.query("update public.cafes set last_fetched_at = now() - interval '60 days'");
+    env.places.detailsRequests = [];
+    await refreshStaleCafes(supabaseAdmin());
+    assert.deepEqual(env.places.detailsRequests, ["open"]);
+  });
+
+  test("stays within its share of the Places budget", async () => {
+    process.env.PLACES_DAILY_BUDGET = "10";
+    process.env.PLACES_REFRESH_BUDGET_SHARE = "0.3";
+    for (let i = 0; i < 5; i++) {
+      await insertCafe(env.db, { place_id: `p${i}`, ...ORIGIN, last_fetched_at: daysAgo(40 + i) });
+      env.places.places.push(makePlace(`p${i}`, ORIGIN.lat, ORIGIN.lng));
+    }
+
+    const summary = await refreshStaleCafes(supabaseAdmin());
+
+    assert.equal(summary.stale, 5);
+    assert.equal(summary.refreshed, 3);
+    assert.equal(summary.stoppedBy, "budget_share");
+    assert.equal(env.places.detailsRequests.length, 3);
+
+    // The budget is already at the job's share: nothing more today
+    env.places.detailsRequests = [];
+    const again = await refreshStaleCafes(supabaseAdmin());
+    assert.equal(again.refreshed, 0);
+    assert.equal(env.places.detailsRequests.length, 0);
+  });
+
+  test("a café whose lookup fails backs off instead of blocking the queue", async () => {
+    process.env.PLACES_REFRESH_BATCH_SIZE = "1";
+    await insertCafe(env.db, { place_id: "broken", ...ORIGIN, last_fetched_at: daysAgo(60) });
+    await insertCafe(env.db, { place_id: "next", ...ORIGIN, last_fetched_at: daysAgo(50) });
+    env.places.respondDetails = (placeId) =>
+      placeId === "broken"
+        ? { status: 503, body: { error: { message: "unavailable" } } }
+        : { status: 200, body: makePlace(placeId, ORIGIN.lat, ORIGIN.lng) };
+
+    const first = await refreshStaleCafes(supabaseAdmin());
+    assert.equal(first.failed, 1);
+    const broken = await cafeRow(env, "broken");
+    assert.equal(broken.refresh_failures, 1);
+    assert.ok(Math.abs(broken.refresh_retry_at!.getTime() - (Date.now() + DAY_MS)) < 60_000);
+    // Still stale as far as DB coverage is concerned
+    assert.ok(Date.now() - broken.last_fetched_at!.getTime() > 59 * DAY_MS);
+
+    const second = await refreshStaleCafes(supabaseAdmin());
+    assert.equal(second.refreshed, 1);
+    assert.deepEqual(env.places.detailsRequests, ["broken", "next"]);
+
+    // Due again once the backoff is up; a success clears it
+    env.places.respondDetails = null;
+    env.places.places = [makePlace("broken", ORIGIN.lat, ORIGIN.lng)];
+    await env.db.query("update public.cafes set refresh_retry_at = now() - interval '1 minute'");
+    assert.equal((await refreshStaleCafes(supabaseAdmin())).refreshed, 1);
+    const fixed = await cafeRow(env, "broken");
+    assert.equal(fixed.refresh_failures, 0);
+    assert.equal(fixed.refresh_retry_at, null);
+  });
+
+  test("job failures open the job's breaker, not the one user searches use", async () => {
+    process.env.PLACES_BREAKER_THRESHOLD = "1";
+    for (const placeId of ["a", "b"]) {
+      await insertCafe(env.db, { place_id: placeId, ...ORIGIN, last_fetched_at: daysAgo(40) });
+      env.places.places.push(makePlace(placeId, ORIGIN.lat, ORIGIN.lng));
+    }
+    env.places.respondDetails = () => ({ status: 503, body: { error: { message: "unavailable" } } });
+
+    const summary = await refreshStaleCafes(supabaseAdmin());
+    assert.equal(summary.failed, 1);
+    assert.equal(summary.stoppedBy, "circuit_open");
+    assert.equal(breakerStatus("background").state, "open");
+    assert.equal(breakerStatus().state, "closed");
+
+    // Close it again for the rest of the file
+    process.env.PLACES_BREAKER_COOLDOWN_SECONDS = "0";
+    env.places.respondDetails = null;
+    assert.equal((await refreshStaleCafes(supabaseAdmin())).refreshed, 1);
+    assert.equal(breakerStatus("background").state, "closed");
+  });
+
+  test("purges cache rows past the max-stale window", async () => {
+    process.env.PLACES_CACHE_MAX_STALE_SECONDS = "3600";
+    const row = { lat: ORIGIN.lat, lng: ORIGIN.lng, radius_m: 1000, place_ids: ["x"], fetched_at: new Date() };
+    await insertCacheRow(env.db, { ...row, cache_key: "live", expires_at: new Date(Date.now() + 600_000) });
+    await insertCacheRow(env.db, { ...row, cache_key: "stale", expires_at: new Date(Date.now() - 600_000) });
+    await insertCacheRow(env.db, { ...row, cache_key: "dead", expires_at: new Date(Date.now() - 7200_000) });
+
+    const summary = await refreshStaleCafes(supabaseAdmin());
+
+    assert.equal(summary.cachePurged, 1);
+    const { rows } = await env.db.query<{ cache_key: string }>(
+      "select cache_key from public.places_cache order by cache_key"
+    );
+    assert.deepEqual(rows.map((r) => r.cache_key), ["live", "stale"]);
+  });
+
+  test("the cron route needs CRON_SECRET", async () => {
+    await insertCafe(env.db, { place_id: "old", ...ORIGIN, last_fetched_at: daysAgo(45) });
+    env.places.places = [makePlace("old", ORIGIN.lat, ORIGIN.lng)];
+    const call = (token?: string) => refreshStale(apiRequest("/api/cron/refresh-stale", { token }), {});
+
+    // Unset: disabled, whatever is sent
+    assert.equal((await call("anything")).status, 401);
+
+    process.env.CRON_SECRET = "cron-secret";
+    assert.equal((await call()).status, 401);
+    assert.equal((await call("wrong")).status, 401);
+    assert.equal(env.places.detailsRequests.length, 0);
+
+    const res = await call("cron-secret");
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.equal(body.refreshed, 1);
+    assert.equal(body.provider, "google");
+  });
+});
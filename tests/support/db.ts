@@ -0,0 +1,62 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { postgis } from "@electric-sql/pglite-postgis";
+
+const MIGRATIONS_DIR = path.join(__dirname, "../../supabase/migrations");
+
+const TABLES = ["admin_audit_log", "cafe_attribute_votes", "cafe_list_items", "cafe_lists", "cafe_place_aliases", "cafe_review_reports", "cafe_reviews", "checkins", "cafes", "places_cache", "places_budget", "rate_limit_hits"];
+
+// In-process Postgres (PGlite + PostGIS) with the repo's migrations applied
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite({ extensions: { postgis } });
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((f) => f.endsWith(".sql")).sort()) {
+    await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+  }
+  return db;
+}
+
+export async function resetDatabase(db: PGlite) {
+  await db.exec(`truncate ${TABLES.map((t) => `public.${t}`).join(", ")} cascade`);
+}
+
+export async function insertCafe(
+  db: PGlite,
+  cafe: { place_id: string; name?: string; lat: number; lng: number; last_fetched_at?: string }
+): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `insert into public.cafes (place_id, name, lat, lng, last_fetched_at)
+     values ($1, $2, $3, $4, $5)
+     returning id`,
+    [cafe.place_id, cafe.name ?? cafe.place_id, cafe.lat, cafe.lng, cafe.last_fetched_at ?? null]
+  );
+  return rows[0]!.id;
+}
+
+export async function insertCacheRow(
+  db: PGlite,
+  row: {
+    cache_key: string;
+    lat: number;
+    lng: number;
+    radius_m: number;
+    place_ids: string[];
+    fetched_at: Date;
+    expires_at: Date;
+  }
+) {
+  await db.query(
+    `insert into public.places_cache (cache_key, lat_center, lng_center, radius_m, place_ids, fetched_at, expires_at)
+     values ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      row.cache_key,
+      row.lat,
+      row.lng,
+      row.radius_m,
+      row.place_ids,
+      row.fetched_at.toISOString(),
+      row.expires_at.toISOString(),
+    ]
+  );
+}
@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, resetDatabase } from "./db";
+import { startSupabaseStandIn, type SupabaseStandIn } from "./supabaseStandIn";
+import { startPlacesStandIn, type PlacesStandIn } from "./placesStandIn";
+
+export type TestEnv = {
+  db: PGlite;
+  supabase: SupabaseStandIn;
+  places: PlacesStandIn;
+  reset(): Promise<void>;
+  stop(): Promise<void>;
+};
+
+// Env the app reads at call time. Tests override individual values as needed.
+const BASE_ENV: Record<string, string> = {
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: "test-anon-key",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-role-key",
+  PLACES_PROVIDER: "google",
+  GOOGLE_MAPS_API_KEY: "test-google-key",
+  RATE_LIMIT_BACKEND: "supabase",
+  // Deterministic upstream behaviour: no retries, no DB-first answers
+  PLACES_RETRY_ATTEMPTS: "1",
+  PLACES_BREAKER_THRESHOLD: "1000",
+  PLACES_DB_MODE: "fallback",
+  CHECKIN_COOLDOWN_SECONDS: "3600",
+  // Request logs drown out test output; errors still show
+  LOG_LEVEL: "error",
+};
+
+// PGlite + Supabase stand-in + Places stand-in, wired up through env vars
+export async function startTestEnv(): Promise<TestEnv> {
+  const db = await createTestDatabase();
+  const supabase = await startSupabaseStandIn(db);
+  const places = await startPlacesStandIn();
+
+  // reset() restores this, dropping whatever a test overrode
+  const saved = { ...process.env };
+  const applyEnv = () => {
+    process.env = {
+      ...saved,
+      ...BASE_ENV,
+      NEXT_PUBLIC_SUPABASE_URL: supabase.url,
+      GOOGLE_PLACES_BASE_URL: places.url,
+      GOOGLE_GEOCODING_BASE_URL: places.url,
+    };
+  };
+  applyEnv();
+
+  return {
+    db,
+    supabase,
+    places,
+    async reset() {
+      await resetDatabase(db);
+      places.reset();
+      supabase.users.clear();
+      applyEnv();
+    },
+    async stop() {
+      await Promise.all([supabase.close(), places.close()]);
+      await db.close();
+      process.env = saved;
+    },
+  };
+}
+
+let ipCounter = 0;
+
+// A fresh client IP per call unless given, so route rate limits don't leak
+// between tests
+export function apiRequest(
+  path: string,
+  init: {
+    method?: string;
+    body?: unknown;
+    token?: string;
+    ip?: string;
+    headers?: Record<string, string>;
+  } = {}
+) {
+  const headers = new Headers({
+    "x-forwarded-for": init.ip ?? `10.0.0.${++ipCounter}`,
+    ...init.headers,
+  });
+  if (init.token) headers.set("authorization", `Bearer ${init.token}`);
+  if (init.body !== undefined) headers.set("content-type", "application/json");
+
+  return new NextRequest(new URL(path, "http://localhost:3000"), {
+    method: init.method ?? "GET",
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+}
@@ -0,0 +1,169 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { GooglePlace } from "../../lib/google/places";
+import type { GeocodeResult } from "../../lib/geocode/provider";
+
+// Stands in for places.googleapis.com (point GOOGLE_PLACES_BASE_URL at it).
+// Answers searchNearby with whatever `respond` returns; by default, the
+// configured places that fall inside the requested circle. Place Details
+// looks ids up in the same list (404 when missing). Also answers the
+// Geocoding API (GOOGLE_GEOCODING_BASE_URL) from `geocodes`.
+
+export type NearbyRequest = {
+  center: { latitude: number; longitude: number };
+  radius: number;
+  apiKey: string | null;
+};
+
+export type PlacesReply = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+  // Hold the response back, e.g. to trip the client's timeout
+  delayMs?: number;
+};
+
+export type PlacesStandIn = {
+  url: string;
+  places: GooglePlace[];
+  requests: NearbyRequest[];
+  // Override to return errors, empty results, etc.
+  respond: ((req: NearbyRequest) => PlacesReply) | null;
+  // Place ids looked up via Place Details
+  detailsRequests: string[];
+  respondDetails: ((placeId: string) => PlacesReply) | null;
+  // address → results; unknown addresses get ZERO_RESULTS
+  geocodes: Record<string, GeocodeResult[]>;
+  geocodeRequests: string[];
+  respondGeocode: ((address: string) => PlacesReply) | null;
+  reset(): void;
+  close(): Promise<void>;
+};
+
+const EARTH_RADIUS_M = 6_371_000;
+
+function distanceM(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+export function makePlace(id: string, latitude: number, longitude: number, extra: Partial<GooglePlace> = {}): GooglePlace {
+  return {
+    id,
+    displayName: { text: `Cafe ${id}` },
+    formattedAddress: `${id} Test St`,
+    location: { latitude, longitude },
+    rating: 4.2,
+    userRatingCount: 100,
+    types: ["cafe"],
+    ...extra,
+  };
+}
+
+export async function startPlacesStandIn(): Promise<PlacesStandIn> {
+  const standIn: PlacesStandIn = {
+    url: "",
+    places: [],
+    requests: [],
+    respond: null,
+    detailsRequests: [],
+    respondDetails: null,
+    geocodes: {},
+    geocodeRequests: [],
+    respondGeocode: null,
+    reset() {
+      standIn.places = [];
+      standIn.requests = [];
+      standIn.respond = null;
+      standIn.detailsRequests = [];
+      standIn.respondDetails = null;
+      standIn.geocodes = {};
+      standIn.geocodeRequests = [];
+      standIn.respondGeocode = null;
+    },
+    close: async () => {},
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    const url = new URL(req.url ?? "/", "http://stand-in");
+    if (req.method === "GET" && url.pathname === "/maps/api/geocode/json") {
+      const address = url.searchParams.get("address") ?? "";
+      standIn.geocodeRequests.push(address);
+
+      const results = standIn.geocodes[address] ?? [];
+      const reply = standIn.respondGeocode?.(address) ?? {
+        status: 200,
+        body: {
+          status: results.length ? "OK" : "ZERO_RESULTS",
+          results: results.map((r) => ({
+            formatted_address: r.label,
+            geometry: { location: { lat: r.lat, lng: r.lng } },
+          })),
+        },
+      };
+
+      res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+      res.end(JSON.stringify(reply.body));
+      return;
+    }
+
+    const details = url.pathname.match(/^\/v1\/places\/([^/:]+)$/);
+    if (req.method === "GET" && details) {
+      const placeId = decodeURIComponent(details[1]!);
+      standIn.detailsRequests.push(placeId);
+
+      const place = standIn.places.find((p) => p.id === placeId);
+      const reply = standIn.respondDetails?.(placeId) ??
+        (place
+          ? { status: 200, body: place }
+          : { status: 404, body: { error: { code: 404, message: "Place not found", status: "NOT_FOUND" } } });
+
+      res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+      res.end(JSON.stringify(reply.body));
+      return;
+    }
+
+    if (req.method !== "POST" || req.url !== "/v1/places:searchNearby") {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { code: 404, message: "Not found" } }));
+      return;
+    }
+
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    const nearby: NearbyRequest = {
+      center: body.locationRestriction.circle.center,
+      radius: body.locationRestriction.circle.radius,
+      apiKey: (req.headers["x-goog-api-key"] as string | undefined) ?? null,
+    };
+    standIn.requests.push(nearby);
+
+    const reply = standIn.respond?.(nearby) ?? {
+      status: 200,
+      body: {
+        places: standIn.places
+          .filter((p) => p.location && distanceM(nearby.center, p.location) <= nearby.radius)
+          .slice(0, body.maxResultCount ?? 20),
+      },
+    };
+
+    if (reply.delayMs) await new Promise((r) => setTimeout(r, reply.delayMs));
+    res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+    res.end(JSON.stringify(reply.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  standIn.url = `http://127.0.0.1:${port}`;
+  standIn.close = () =>
+    new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+  return standIn;
+}
@@ -0,0 +1,405 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { PGlite } from "@electric-sql/pglite";
+
+// Just enough of PostgREST (/rest/v1) and GoTrue (/auth/v1/user) for
+// supabase-js to run against PGlite: column selects with one level of to-one
+// embedding, the filters/order/limit the app uses, inserts/upserts, updates,
+// deletes, exact counts and RPCs. Anything else answers 501 so a test fails
+// loudly instead of passing against a half-emulated API.
+
+export type StandInUser = {
+  id: string;
+  email?: string;
+  // Confirmed unless set to null
+  email_confirmed_at?: string | null;
+  app_metadata?: Record<string, unknown>;
+};
+
+export type SupabaseStandIn = {
+  url: string;
+  // Bearer token -> user, for getRequestUser()
+  users: Map<string, StandInUser>;
+  close(): Promise<void>;
+};
+
+class RestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code = "PGRST000"
+  ) {
+    super(message);
+  }
+}
+
+const IDENT = /^[a-z_][a-z0-9_]*$/;
+
+function ident(name: string) {
+  if (!IDENT.test(name)) throw new RestError(400, `Unsupported identifier "${name}"`);
+  return `"${name}"`;
+}
+
+// "id,name,cafe:cafes(id,name)" -> top-level items, respecting parentheses
+function splitTopLevel(select: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of select.replace(/\s+/g, "")) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// Embeds follow the app's FK naming: checkins.cafe_id -> cafes.id
+function selectList(table: string, select: string | null, alias = "t"): string {
+  if (!select || select === "*") return `${alias}.*`;
+
+  return splitTopLevel(select)
+    .map((item) => {
+      const embed = item.match(/^(?:([a-z_]+):)?([a-z_]+)\((.*)\)$/);
+      if (!embed) {
+        if (item === "*") return `${alias}.*`;
+        return `${alias}.${ident(item)}`;
+      }
+
+      const [, name, target, columns] = embed;
+      const fk = `${target!.replace(/s$/, "")}_id`;
+      return `(select row_to_json(e) from (select ${selectList(target!, columns!, "x")}
+        from public.${ident(target!)} x where x.id = ${alias}.${ident(fk)}) e) as ${ident(name ?? target!)}`;
+    })
+    .join(", ");
+}
+
+// PostgREST list syntax: (a,b,"c,d")
+function parseList(value: string): string[] {
+  const inner = value.replace(/^\(/, "").replace(/\)$/, "");
+  const items: string[] = [];
+  const re = /"((?:[^"\\]|\\.)*)"|([^,]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(inner))) items.push(m[1] != null ? m[1].replace(/\\(.)/g, "$1") : m[2]!);
+  return items;
+}
+
+function pgArrayLiteral(values: string[]) {
+  return `{${values.map((v) => `"${v.replace(/(["\\])/g, "\\$1")}"`).join(",")}}`;
+}
+
+const OPERATORS: Record<string, string> = {
+  eq: "=",
+  neq: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  like: "like",
+  ilike: "ilike",
+};
+
+const RESERVED_PARAMS = new Set(["select", "order", "limit", "offset", "on_conflict", "columns"]);
+
+function whereClause(params: URLSearchParams, values: unknown[], alias = "t") {
+  const conditions: string[] = [];
+
+  for (const [column, raw] of params.entries()) {
+    if (RESERVED_PARAMS.has(column)) continue;
+
+    const negate = raw.startsWith("not.");
+    const expr = negate ? raw.slice(4) : raw;
+    const dot = expr.indexOf(".");
+    const op = expr.slice(0, dot);
+    const value = expr.slice(dot + 1);
+    const col = `${alias}.${ident(column)}`;
+
+    let condition: string;
+    if (op === "in") {
+      values.push(pgArrayLiteral(parseList(value)));
+      condition = `${col} = any($${values.length})`;
+    } else if (op === "is") {
+      if (!["null", "true", "false"].includes(value)) {
+        throw new RestError(400, `Unsupported is.${value}`);
+      }
+      condition = `${col} is ${value}`;
+    } else if (OPERATORS[op]) {
+      values.push(op.endsWith("like") ? value.replace(/\*/g, "%") : value);
+      condition = `${col} ${OPERATORS[op]} $${values.length}`;
+    } else {
+      throw new RestError(501, `Filter operator "${op}" not supported by the stand-in`);
+    }
+
+    conditions.push(negate ? `not (${condition})` : condition);
+  }
+
+  return conditions.length ? `where ${conditions.join(" and ")}` : "";
+}
+
+function orderClause(order: string | null, alias = "t") {
+  if (!order) return "";
+  const terms = order.split(",").map((term) => {
+    const [column, ...mods] = term.split(".");
+    const dir = mods.includes("desc") ? "desc" : "asc";
+    const nulls = mods.includes("nullsfirst")
+      ? " nulls first"
+      : mods.includes("nullslast")
+        ? " nulls last"
+        : "";
+    return `${alias}.${ident(column!)} ${dir}${nulls}`;
+  });
+  return `order by ${terms.join(", ")}`;
+}
+
+// Supabase's default max-rows: longer reads are cut off without an error
+const MAX_ROWS = 1000;
+
+function pagingClause(params: URLSearchParams) {
+  const limit = params.get("limit");
+  const offset = params.get("offset");
+  return [
+    `limit ${limit != null ? Math.min(MAX_ROWS, Math.max(0, Math.floor(Number(limit)))) : MAX_ROWS}`,
+    offset != null ? `offset ${Math.max(0, Math.floor(Number(offset)))}` : "",
+  ].join(" ");
+}
+
+function preferences(req: http.IncomingMessage) {
+  const prefer = String(req.headers["prefer"] ?? "");
+  return {
+    representation: prefer.includes("return=representation"),
+    merge: prefer.includes("resolution=merge-duplicates"),
+    ignore: prefer.includes("resolution=ignore-duplicates"),
+    count: prefer.includes("count=exact"),
+  };
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : {};
+}
+
+async function tableColumns(db: PGlite, table: string): Promise<Map<string, boolean>> {
+  const { rows } = await db.query<{ column_name: string; generated: boolean }>(
+    `select column_name, is_generated = 'ALWAYS' as generated
+     from information_schema.columns
+     where table_schema = 'public' and table_name = $1`,
+    [table]
+  );
+  if (!rows.length) throw new RestError(404, `relation "public.${table}" does not exist`, "42P01");
+  return new Map(rows.map((r) => [r.column_name, r.generated]));
+}
+
+async function selectRows(db: PGlite, table: string, params: URLSearchParams) {
+  const values: unknown[] = [];
+  const where = whereClause(params, values);
+  const sql = `select coalesce(json_agg(r), '[]'::json) as data from (
+      select ${selectList(table, params.get("select"))}
+      from public.${ident(table)} t ${where} ${orderClause(params.get("order"))} ${pagingClause(params)}
+    ) r`;
+  const { rows } = await db.query<{ data: unknown[] }>(sql, values);
+  return rows[0]!.data;
+}
+
+async function countRows(db: PGlite, table: string, params: URLSearchParams) {
+  const values: unknown[] = [];
+  const where = whereClause(params, values);
+  const { rows } = await db.query<{ n: number }>(
+    `select count(*)::int as n from public.${ident(table)} t ${where}`,
+    values
+  );
+  return rows[0]!.n;
+}
+
+async function writeRows(
+  db: PGlite,
+  method: string,
+  table: string,
+  params: URLSearchParams,
+  body: unknown,
+  prefs: ReturnType<typeof preferences>
+) {
+  const columns = await tableColumns(db, table);
+  const rows = (Array.isArray(body) ? body : [body]) as Record<string, unknown>[];
+  const keys = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  for (const key of keys) {
+    if (!columns.has(key)) {
+      throw new RestError(400, `Could not find the '${key}' column of '${table}'`, "PGRST204");
+    }
+  }
+  const cols = keys.map(ident).join(", ");
+  const values: unknown[] = [];
+  let statement: string;
+
+  if (method === "POST") {
+    values.push(JSON.stringify(rows));
+    statement = `insert into public.${ident(table)} as t (${cols})
+      select ${cols} from jsonb_populate_recordset(null::public.${ident(table)}, $1::jsonb)`;
+
+    const onConflict = params.get("on_conflict");
+    if (prefs.merge || prefs.ignore) {
+      const target = (onConflict ?? "id").split(",").map(ident).join(", ");
+      const updates = keys
+        .filter((k) => !(onConflict ?? "id").split(",").includes(k))
+        .map((k) => `${ident(k)} = excluded.${ident(k)}`);
+      statement +=
+        prefs.ignore || !updates.length
+          ? ` on conflict (${target}) do nothing`
+          : ` on conflict (${target}) do update set ${updates.join(", ")}`;
+    }
+  } else if (method === "PATCH") {
+    values.push(JSON.stringify(rows[0] ?? {}));
+    const sets = keys.map((k) => `${ident(k)} = p.${ident(k)}`).join(", ");
+    statement = `update public.${ident(table)} t set ${sets}
+      from jsonb_populate_record(null::public.${ident(table)}, $1::jsonb) p
+      ${whereClause(params, values)}`;
+  } else {
+    statement = `delete from public.${ident(table)} t ${whereClause(params, values)}`;
+  }
+
+  const sql = `with w as (${statement} returning t.*)
+    select coalesce(json_agg(r), '[]'::json) as data from (
+      select ${selectList(table, params.get("select"))} from w t
+    ) r`;
+  const { rows: result } = await db.query<{ data: unknown[] }>(sql, values);
+  return result[0]!.data;
+}
+
+async function callRpc(db: PGlite, fn: string, args: Record<string, unknown>) {
+  const { rows: procs } = await db.query<{ retset: boolean }>(
+    `select p.proretset as retset from pg_proc p
+     join pg_namespace n on n.oid = p.pronamespace
+     where n.nspname = 'public' and p.proname = $1`,
+    [fn]
+  );
+  if (!procs.length) {
+    throw new RestError(404, `Could not find the function public.${fn}`, "PGRST202");
+  }
+
+  const values: unknown[] = [];
+  const named = Object.entries(args).map(([name, value]) => {
+    // Arrays go through as Postgres arrays, other objects as json
+    values.push(value != null && typeof value === "object" && !Array.isArray(value) ? JSON.stringify(value) : value);
+    return `${ident(name)} => $${values.length}`;
+  });
+  const call = `public.${ident(fn)}(${named.join(", ")})`;
+
+  const sql = procs[0]!.retset
+    ? `select coalesce(json_agg(r), '[]'::json) as data from ${call} r`
+    : `select to_json(${call}) as data`;
+  const { rows } = await db.query<{ data: unknown }>(sql, values);
+  return rows[0]!.data;
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, {
+    ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function bearer(req: http.IncomingMessage) {
+  const match = String(req.headers["authorization"] ?? "").match(/^Bearer\s+(.+)$/i);
+  return match ? match[1]! : null;
+}
+
+export async function startSupabaseStandIn(db: PGlite): Promise<SupabaseStandIn> {
+  const users = new Map<string, StandInUser>();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+
+    try {
+      if (url.pathname === "/auth/v1/user" && method === "GET") {
+        const user = users.get(bearer(req) ?? "");
+        if (!user) {
+          return send(res, 401, { code: 401, error_code: "bad_jwt", msg: "invalid JWT" });
+        }
+        return send(res, 200, {
+          aud: "authenticated",
+          role: "authenticated",
+          user_metadata: {},
+          created_at: new Date(0).toISOString(),
+          email_confirmed_at: new Date(0).toISOString(),
+          ...user,
+          app_metadata: user.app_metadata ?? {},
+        });
+      }
+
+      const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/([a-z_]+)$/);
+      if (rpc && method === "POST") {
+        const args = (await readJson(req)) as Record<string, unknown>;
+        return send(res, 200, await callRpc(db, rpc[1]!, args));
+      }
+
+      const table = url.pathname.match(/^\/rest\/v1\/([a-z_]+)$/)?.[1];
+      if (!table) throw new RestError(501, `${method} ${url.pathname} not supported by the stand-in`);
+
+      const prefs = preferences(req);
+      const wantsObject = String(req.headers["accept"] ?? "").includes("vnd.pgrst.object");
+
+      let data: unknown[];
+      let status = 200;
+      if (method === "GET" || method === "HEAD") {
+        await tableColumns(db, table);
+        data = await selectRows(db, table, url.searchParams);
+      } else if (method === "POST" || method === "PATCH" || method === "DELETE") {
+        const body = method === "DELETE" ? {} : await readJson(req);
+        data = await writeRows(db, method, table, url.searchParams, body, prefs);
+        status = method === "POST" ? 201 : 200;
+        if (!prefs.representation) return send(res, method === "POST" ? 201 : 204);
+      } else {
+        throw new RestError(501, `${method} not supported by the stand-in`);
+      }
+
+      const headers: Record<string, string> = {};
+      if (prefs.count) {
+        const total = await countRows(db, table, url.searchParams);
+        headers["Content-Range"] = data.length ? `0-${data.length - 1}/${total}` : `*/${total}`;
+      }
+
+      if (method === "HEAD") return send(res, status, undefined, headers);
+
+      if (wantsObject) {
+        if (data.length !== 1) {
+          throw new RestError(
+            406,
+            "JSON object requested, multiple (or no) rows returned",
+            "PGRST116"
+          );
+        }
+        return send(res, status, data[0], headers);
+      }
+      return send(res, status, data, headers);
+    } catch (err: any) {
+      if (err instanceof RestError) {
+        return send(res, err.status, { code: err.code, message: err.message, details: null, hint: null });
+      }
+      // Postgres errors: surface the SQLSTATE like PostgREST does
+      const status = err?.code === "23505" ? 409 : 400;
+      return send(res, status, {
+        code: err?.code ?? "XX000",
+        message: err?.message ?? String(err),
+        details: err?.detail ?? null,
+        hint: err?.hint ?? null,
+      });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    users,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}